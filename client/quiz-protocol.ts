@@ -0,0 +1,411 @@
+// Fichier généré par scripts/generate-client-types.ts - ne pas modifier.
+// Source : src/types/websocket.interface.ts
+
+export const PROTOCOL_VERSION = 2;
+
+/** Données d'authentification envoyées à la connexion (`auth` de socket.io). */
+export interface HandshakeAuth {
+  token: string;
+  resumeToken?: string | null;
+  locale?: string;
+  // Version comprise par le client, ou liste de versions ; 1 si absente
+  protocolVersion?: number | number[];
+}
+
+/** Messages du client vers le serveur ; l'accusé de réception est facultatif. */
+export interface ClientToServerEvents {
+  /** Lance une partie libre, ou rejoint en spectateur celle de la room. */
+  startQuiz: (
+    payload: StartQuizPayload,
+    ack?: (response: SocketAck<QuizJoinedResponse>) => void,
+  ) => void;
+  /** Enregistre (ou modifie, selon l'événement) la réponse à la question en cours. */
+  submitAnswer: (
+    payload: SubmitAnswerPayload,
+    ack?: (response: SocketAck<AnswerQueuedResponse>) => void,
+  ) => void;
+  /** Inscrit le joueur dans le lobby d'un événement ouvert. */
+  joinLobby: (
+    payload: JoinLobbyPayload,
+    ack?: (response: SocketAck<LobbyJoinedResponse>) => void,
+  ) => void;
+}
+
+/** Messages du serveur vers le client. */
+export interface ServerToClientEvents {
+  /** Connexion acceptée, avec la version de protocole retenue. */
+  welcome: (payload: WelcomeResponse) => void;
+  /**
+   * Erreur sans accusé de réception possible : connexion refusée, ou message
+   * envoyé sans callback.
+   */
+  error: (payload: SocketError) => void;
+  /** Session ouverte dans une partie ; le jeton permet de la reprendre. */
+  quizSession: (payload: QuizSessionResponse) => void;
+  /** Session reprise après une reconnexion. */
+  sessionResumed: (payload: SessionResumedResponse) => void;
+  quizQuestion: (payload: QuizQuestionResponse) => void;
+  /** Décompte indicatif ; seule l'horloge du serveur fait foi. */
+  timerUpdate: (payload: TimerUpdate) => void;
+  answerQueued: (payload: AnswerQueuedResponse) => void;
+  /** Correction de la question, entre deux questions. */
+  answerReveal: (payload: AnswerRevealResponse) => void;
+  playerStats: (payload: PlayerStats) => void;
+  quizCompleted: (payload: QuizCompletedResponse) => void;
+  leaderboardUpdate: (payload: LeaderboardUpdate) => void;
+  nextEvent: (payload: EventAnnouncement) => void;
+  lobbyOpened: (payload: LobbyOpenedResponse) => void;
+  lobbyJoined: (payload: LobbyJoinedResponse) => void;
+  lobbyUpdate: (payload: LobbyUpdateResponse) => void;
+  lobbyClosed: (payload: LobbyClosedResponse) => void;
+  eventCountdown: (payload: EventCountdownResponse) => void;
+  eventPostponed: (payload: EventPostponedResponse) => void;
+  eventCancelled: (payload: EventCancelledResponse) => void;
+  eventStarted: (payload: EventStartedResponse) => void;
+  /** Les participants du lobby basculent sur l'écran de jeu. */
+  autoStartQuiz: (payload: AutoStartQuizResponse) => void;
+  eventCompleted: (payload: EventCompletedResponse) => void;
+}
+
+export interface StartQuizPayload {
+  roomId?: string;
+  theme?: string;
+  limit?: number;
+  timeLimit?: number;
+  scoringMode?: ScoringMode;
+  gameMode?: GameMode;
+  lives?: number;
+  difficulty?: QuestionDifficulty;
+  difficultyCurve?: boolean;
+  tags?: string[];
+  shuffleChoices?: boolean;
+  // 0 (défaut) : la première réponse est définitive
+  maxAnswerChanges?: number;
+  revealSeconds?: number;
+  // « fr », « en », « es »... ; remplace la langue choisie à la connexion
+  locale?: string;
+}
+
+/** Accusé de réception d'un message du client. */
+export type SocketAck<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: SocketError };
+
+export interface QuizJoinedResponse {
+  roomId: string;
+  // Partie rejointe en cours : le joueur la suit en spectateur
+  isWatching: boolean;
+}
+
+export interface SubmitAnswerPayload {
+  questionId: number;
+  // Numéro de choix, liste de numéros (choix multiples), nombre ou texte
+  answer: AnswerValue;
+}
+
+export interface AnswerQueuedResponse {
+  questionId: number;
+  answer: AnswerValue;
+  timeLeft: number;
+  changesLeft: number;
+}
+
+export interface JoinLobbyPayload {
+  eventId: number;
+}
+
+export interface LobbyJoinedResponse {
+  event: EventAnnouncement;
+  participants: number;
+}
+
+export interface WelcomeResponse {
+  protocolVersion: number;
+  serverProtocolVersion: number;
+  locale: string;
+}
+
+export interface SocketError {
+  code: MessageCode;
+  message: string;
+  // Contraintes non respectées, pour un message invalide
+  details?: string[];
+}
+
+export interface QuizSessionResponse {
+  roomId: string;
+  resumeToken: string;
+  reconnectGraceSeconds: number;
+  scoringMode: ScoringMode;
+  gameMode: GameMode;
+  lives: number;
+}
+
+export interface SessionResumedResponse {
+  roomId: string;
+  score: number;
+  answers: QuizAnswer[];
+  // Réponse en attente, dans l'ordre d'affichage du joueur
+  pendingAnswer: { questionId: number; answer: AnswerValue } | null;
+  isWatching: boolean;
+  timeLeft: number;
+  // Partie en cours de reprise après un arrêt : secondes avant la prochaine question
+  resumesIn: number | null;
+}
+
+export interface QuizQuestionResponse {
+  roomId: string;
+  question: PublicQuestion;
+  questionNumber: number;
+  totalQuestions: number;
+  previousAnswer: QuizAnswer | null;
+  isWatching: boolean;
+  livesLeft: number | null;
+  timeLeft: number;
+}
+
+export interface TimerUpdate {
+  timeLeft: number;
+}
+
+/** Correction d'une question, propre à chaque joueur (ordre et langue). */
+export interface AnswerRevealResponse {
+  roomId: string;
+  questionId: number;
+  questionNumber: number;
+  // Positions affichées pour les choix, valeur pour numérique et texte libre
+  correctAnswer: AnswerValue | null;
+  // Répartition des réponses dans l'ordre d'affichage ; null hors choix
+  distribution: RevealedChoice[] | null;
+  answered: number;
+  correctCount: number;
+  // Joueurs éliminés sur cette question
+  eliminated: number;
+  result: RevealedResult | null;
+  revealSeconds: number;
+}
+
+export interface PlayerStats {
+  activePlayers: number;
+  watchingPlayers: number;
+  totalPlayers: number;
+}
+
+export interface QuizCompletedResponse {
+  roomId: string;
+  score: number;
+  totalQuestions: number;
+  answers: QuizAnswer[];
+  joinedAt: number;
+  winner: PlayerSummary | null;
+  isWinner: boolean;
+}
+
+export interface LeaderboardUpdate {
+  // Dernière partie prise en compte et son thème
+  gameId: string;
+  theme: string | null;
+  // Parties terminées depuis la diffusion précédente
+  gameIds: string[];
+  // Classements généraux, puis ceux des thèmes des questions jouées
+  leaderboards: Leaderboard[];
+}
+
+/** Événement programmé tel qu'annoncé aux joueurs ; dates au format ISO. */
+export interface EventAnnouncement {
+  id: number;
+  theme: string;
+  numberOfQuestions: number;
+  startDate: string;
+  minPlayers: number;
+}
+
+export interface LobbyOpenedResponse {
+  event: EventAnnouncement;
+}
+
+export interface LobbyUpdateResponse {
+  eventId: number;
+  participants: number;
+  minPlayers: number;
+}
+
+export interface LobbyClosedResponse {
+  eventId: number;
+  startDate: string;
+}
+
+export interface EventCountdownResponse {
+  eventId: number;
+  timeLeft: number;
+  participants: number;
+  minPlayers: number;
+}
+
+export interface EventPostponedResponse extends LocalizedReason {
+  eventId: number;
+  startDate: string;
+  postponeCount: number;
+  maxPostpones: number;
+  required: number;
+  actual: number;
+}
+
+export interface EventCancelledResponse extends LocalizedReason {
+  eventId: number;
+  policy?: MinPlayersPolicy;
+  required: number;
+  actual: number;
+}
+
+export interface EventStartedResponse {
+  event: Pick<EventAnnouncement, 'id' | 'theme' | 'numberOfQuestions'>;
+}
+
+export interface AutoStartQuizResponse {
+  roomId: string;
+  theme: string;
+  limit: number;
+  timeLimit: number;
+  gameMode: GameMode;
+}
+
+export interface EventCompletedResponse {
+  eventId: number;
+  winner: PlayerSummary | null;
+}
+
+export enum ScoringMode {
+  Classic = 'classic',
+  TimeWeighted = 'time-weighted',
+  Streak = 'streak',
+  NegativeMarking = 'negative-marking',
+}
+
+export enum GameMode {
+  Elimination = 'elimination',
+  FullLength = 'full-length',
+  Lives = 'lives',
+  Survival = 'survival',
+}
+
+export enum QuestionDifficulty {
+  Easy = 'easy',
+  Medium = 'medium',
+  Hard = 'hard',
+}
+
+export type AnswerValue = number | number[] | string;
+
+/** Codes stables des erreurs et motifs envoyés aux clients. */
+export enum MessageCode {
+  AuthRequired = 'AUTH_REQUIRED',
+  UnsupportedProtocol = 'UNSUPPORTED_PROTOCOL',
+  InvalidPayload = 'INVALID_PAYLOAD',
+  SessionInProgress = 'SESSION_IN_PROGRESS',
+  AlreadyInGame = 'ALREADY_IN_GAME',
+  RoomUnavailable = 'ROOM_UNAVAILABLE',
+  ThemeUnavailable = 'THEME_UNAVAILABLE',
+  NoQuestionsForTheme = 'NO_QUESTIONS_FOR_THEME',
+  NoActiveSession = 'NO_ACTIVE_SESSION',
+  WatchingOnly = 'WATCHING_ONLY',
+  InvalidQuestion = 'INVALID_QUESTION',
+  InvalidAnswerFormat = 'INVALID_ANSWER_FORMAT',
+  TimeExpired = 'TIME_EXPIRED',
+  AnswerLocked = 'ANSWER_LOCKED',
+  NoOpenLobby = 'NO_OPEN_LOBBY',
+  EventCancelled = 'EVENT_CANCELLED',
+  EventDeleted = 'EVENT_DELETED',
+  EventCancelledByAdmin = 'EVENT_CANCELLED_BY_ADMIN',
+  NoPlayers = 'NO_PLAYERS',
+  NotEnoughPlayers = 'NOT_ENOUGH_PLAYERS',
+  NoQuestionsAvailable = 'NO_QUESTIONS_AVAILABLE',
+  EventInterrupted = 'EVENT_INTERRUPTED',
+  GameAborted = 'GAME_ABORTED',
+  ServerUnavailable = 'SERVER_UNAVAILABLE',
+}
+
+export interface QuizAnswer {
+  questionId: number;
+  // null si le joueur n'a pas répondu
+  userAnswer: AnswerValue | null;
+  choiceOrder?: number[];
+  correct: boolean;
+  points: number;
+  wasPlaying: boolean;
+  responseTimeMs?: number;
+}
+
+/** Question telle qu'envoyée aux joueurs, sans les bonnes réponses. */
+export interface PublicQuestion {
+  id: number;
+  theme: string;
+  type: QuestionType;
+  questionText: string;
+  choices: string[] | null;
+  multiple: boolean;
+}
+
+export interface RevealedChoice {
+  choice: string;
+  count: number;
+  // Part des joueurs ayant répondu, en pourcentage entier
+  percentage: number;
+  correct: boolean;
+}
+
+export interface RevealedResult
+  extends Pick<QuizAnswer, 'correct' | 'points' | 'wasPlaying'> {
+  answer: AnswerValue | null;
+  score: number;
+  livesLeft: number | null;
+  eliminated: boolean;
+}
+
+export interface PlayerSummary {
+  id: number;
+  nickname: string;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  theme: string | null;
+  // Début de la période, au format ISO
+  since: string | null;
+  entries: LeaderboardEntry[];
+}
+
+/** Motif codé, traduit dans la langue du client. */
+export interface LocalizedReason {
+  code: MessageCode;
+  reason: string;
+}
+
+/** Que faire quand minPlayers n'est pas atteint à l'heure de départ. */
+export enum MinPlayersPolicy {
+  Cancel = 'cancel',
+  Postpone = 'postpone',
+  StartAnyway = 'start',
+}
+
+export enum QuestionType {
+  TrueFalse = 'true-false',
+  SingleChoice = 'single-choice',
+  MultiSelect = 'multi-select',
+  Numeric = 'numeric',
+  FreeText = 'free-text',
+}
+
+export type LeaderboardPeriod = 'all' | 'week' | 'month';
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: number;
+  nickname: string;
+  wins: number;
+  gamesPlayed: number;
+  // Par partie, à l'échelle du mode classique (un point par bonne réponse)
+  averageScore: number;
+  // Part de bonnes réponses, entre 0 et 1
+  accuracy: number;
+}
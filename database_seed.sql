@@ -1,47 +1,74 @@
 USE quiz_db;
 
+-- answer_record et event référencent les questions et les thèmes
+SET FOREIGN_KEY_CHECKS = 0;
 TRUNCATE TABLE question;
+TRUNCATE TABLE theme;
+SET FOREIGN_KEY_CHECKS = 1;
 
-INSERT INTO question (theme, questionText, response1, response2, response3, response4, correctResponse) VALUES
-('Histoire', 'En quelle année a eu lieu la Révolution française ?', '1787', '1789', '1792', '1795', 2),
+INSERT INTO theme (slug, name, icon, active, translations) VALUES
+('arts', 'Arts', '🎨', TRUE, '{"en": {"name": "Arts"}}'),
+('astronomie', 'Astronomie', '🔭', TRUE, '{"en": {"name": "Astronomy"}}'),
+('biologie', 'Biologie', '🧬', TRUE, '{"en": {"name": "Biology"}}'),
+('cinema', 'Cinéma', '🎬', TRUE, '{"en": {"name": "Cinema"}}'),
+('culture-generale', 'Culture générale', '💡', TRUE, '{"en": {"name": "General knowledge"}}'),
+('geographie', 'Géographie', '🌍', TRUE, '{"en": {"name": "Geography"}}'),
+('histoire', 'Histoire', '📜', TRUE, '{"en": {"name": "History"}}'),
+('informatique', 'Informatique', '💻', TRUE, '{"en": {"name": "Computer science"}}'),
+('litterature', 'Littérature', '📚', TRUE, '{"en": {"name": "Literature"}}'),
+('mathematiques', 'Mathématiques', '➗', TRUE, '{"en": {"name": "Mathematics"}}'),
+('musique', 'Musique', '🎵', TRUE, '{"en": {"name": "Music"}}'),
+('science', 'Science', '🔬', TRUE, '{"en": {"name": "Science"}}'),
+('sport', 'Sport', '⚽', TRUE, '{"en": {"name": "Sport"}}');
 
-('Science', 'Quelle est la vitesse de la lumière dans le vide ?', '299 792 458 m/s', '300 000 000 m/s', '250 000 000 m/s', '350 000 000 m/s', 1),
+INSERT INTO question (theme, type, questionText, choices, correctAnswers, numericAnswer, tolerance, acceptedAnswers, translations) VALUES
+('histoire', 'single-choice', 'En quelle année a eu lieu la Révolution française ?', '["1787", "1789", "1792", "1795"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "In what year did the French Revolution take place?"}}'),
 
-('Géographie', 'Quelle est la capitale du Canada ?', 'Toronto', 'Montréal', 'Ottawa', 'Vancouver', 3),
+('science', 'single-choice', 'Quelle est la vitesse de la lumière dans le vide ?', '["299 792 458 m/s", "300 000 000 m/s", "250 000 000 m/s", "350 000 000 m/s"]', '[1]', NULL, NULL, NULL, '{"en": {"questionText": "What is the speed of light in a vacuum?", "choices": ["299,792,458 m/s", "300,000,000 m/s", "250,000,000 m/s", "350,000,000 m/s"]}}'),
 
-('Littérature', 'Qui a écrit "Les Misérables" ?', 'Émile Zola', 'Victor Hugo', 'Gustave Flaubert', 'Alexandre Dumas', 2),
+('geographie', 'single-choice', 'Quelle est la capitale du Canada ?', '["Toronto", "Montréal", "Ottawa", "Vancouver"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "What is the capital of Canada?"}}'),
 
-('Cinéma', 'Dans quel film Tom Hanks joue-t-il Forrest Gump ?', 'Le Terminal', 'Forrest Gump', 'À la poursuite d\'Octobre Rouge', 'Philadelphia', 2),
+('litterature', 'single-choice', 'Qui a écrit "Les Misérables" ?', '["Émile Zola", "Victor Hugo", "Gustave Flaubert", "Alexandre Dumas"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "Who wrote \"Les Misérables\"?"}}'),
 
-('Informatique', 'Qu\'est-ce que HTTP signifie ?', 'HyperText Transfer Protocol', 'High Transfer Text Protocol', 'HyperTransfer Text Protocol', 'HyperText Transfer Process', 1),
+('cinema', 'single-choice', 'Dans quel film Tom Hanks joue-t-il Forrest Gump ?', '["Le Terminal", "Forrest Gump", "À la poursuite d\'Octobre Rouge", "Philadelphia"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "In which film does Tom Hanks play Forrest Gump?", "choices": ["The Terminal", "Forrest Gump", "The Hunt for Red October", "Philadelphia"]}}'),
 
-('Sport', 'Combien de joueurs y a-t-il dans une équipe de football sur le terrain ?', '10', '11', '12', '9', 2),
+('informatique', 'single-choice', 'Qu\'est-ce que HTTP signifie ?', '["HyperText Transfer Protocol", "High Transfer Text Protocol", "HyperTransfer Text Protocol", "HyperText Transfer Process"]', '[1]', NULL, NULL, NULL, '{"en": {"questionText": "What does HTTP stand for?"}}'),
 
-('Musique', 'Quel groupe britannique est connu pour la chanson "Bohemian Rhapsody" ?', 'The Beatles', 'The Rolling Stones', 'Queen', 'Pink Floyd', 3),
+('sport', 'single-choice', 'Combien de joueurs y a-t-il dans une équipe de football sur le terrain ?', '["10", "11", "12", "9"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "How many players does a football team have on the pitch?"}}'),
 
-('Biologie', 'Combien de cœurs a une pieuvre ?', '1', '2', '3', '4', 3),
+('musique', 'single-choice', 'Quel groupe britannique est connu pour la chanson "Bohemian Rhapsody" ?', '["The Beatles", "The Rolling Stones", "Queen", "Pink Floyd"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "Which British band is known for the song \"Bohemian Rhapsody\"?"}}'),
 
-('Histoire', 'Quand a eu lieu la Première Guerre mondiale ?', '1912-1916', '1914-1918', '1915-1919', '1916-1920', 2),
+('biologie', 'single-choice', 'Combien de cœurs a une pieuvre ?', '["1", "2", "3", "4"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "How many hearts does an octopus have?"}}'),
 
-('Astronomie', 'Quelle est la plus grande planète du système solaire ?', 'Saturne', 'Jupiter', 'Uranus', 'Neptune', 2),
+('histoire', 'single-choice', 'Quand a eu lieu la Première Guerre mondiale ?', '["1912-1916", "1914-1918", "1915-1919", "1916-1920"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "When did the First World War take place?"}}'),
 
-('Géographie', 'Quel est le plus grand océan du monde ?', 'Atlantique', 'Indien', 'Pacifique', 'Arctique', 3),
+('astronomie', 'single-choice', 'Quelle est la plus grande planète du système solaire ?', '["Saturne", "Jupiter", "Uranus", "Neptune"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "What is the largest planet in the solar system?", "choices": ["Saturn", "Jupiter", "Uranus", "Neptune"]}}'),
 
-('Mathématiques', 'Quel est le résultat de 15 x 7 ?', '100', '95', '105', '110', 3),
+('geographie', 'single-choice', 'Quel est le plus grand océan du monde ?', '["Atlantique", "Indien", "Pacifique", "Arctique"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "What is the largest ocean in the world?", "choices": ["Atlantic", "Indian", "Pacific", "Arctic"]}}'),
 
-('Arts', 'Qui a peint "La Nuit étoilée" ?', 'Pablo Picasso', 'Vincent van Gogh', 'Claude Monet', 'Leonardo da Vinci', 2),
+('mathematiques', 'single-choice', 'Quel est le résultat de 15 x 7 ?', '["100", "95", "105", "110"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "What is 15 x 7?"}}'),
 
-('Histoire', 'Quel événement a marqué le début du XXe siècle ?', 'La Révolution russe', 'La Première Guerre mondiale', 'La Révolution française', 'La Seconde Guerre mondiale', 2),
+('arts', 'single-choice', 'Qui a peint "La Nuit étoilée" ?', '["Pablo Picasso", "Vincent van Gogh", "Claude Monet", "Leonardo da Vinci"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "Who painted \"The Starry Night\"?"}}'),
 
-('Science', 'Quelle est la formule chimique de l\'eau ?', 'H2O2', 'H2O', 'HO', 'H2O3', 2),
+('histoire', 'single-choice', 'Quel événement a marqué le début du XXe siècle ?', '["La Révolution russe", "La Première Guerre mondiale", "La Révolution française", "La Seconde Guerre mondiale"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "Which event marked the beginning of the 20th century?", "choices": ["The Russian Revolution", "The First World War", "The French Revolution", "The Second World War"]}}'),
 
-('Culture générale', 'Combien de continents y a-t-il sur Terre ?', '5', '6', '7', '8', 3),
+('science', 'single-choice', 'Quelle est la formule chimique de l\'eau ?', '["H2O2", "H2O", "HO", "H2O3"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "What is the chemical formula of water?"}}'),
 
-('Histoire', 'Qui a découvert l\'Amérique ?', 'Vasco de Gama', 'Christophe Colomb', 'Marco Polo', 'Amerigo Vespucci', 2),
+('culture-generale', 'single-choice', 'Combien de continents y a-t-il sur Terre ?', '["5", "6", "7", "8"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "How many continents are there on Earth?"}}'),
 
-('Science', 'Quel est l\'élément chimique le plus abondant dans l\'univers ?', 'Hélium', 'Oxygène', 'Hydrogène', 'Carbone', 3),
+('histoire', 'single-choice', 'Qui a découvert l\'Amérique ?', '["Vasco de Gama", "Christophe Colomb", "Marco Polo", "Amerigo Vespucci"]', '[2]', NULL, NULL, NULL, '{"en": {"questionText": "Who discovered America?", "choices": ["Vasco da Gama", "Christopher Columbus", "Marco Polo", "Amerigo Vespucci"]}}'),
 
-('Géographie', 'Quel est le plus grand désert du monde ?', 'Sahara', 'Gobi', 'Antarctique', 'Désert d\'Arabie', 3);
+('science', 'single-choice', 'Quel est l\'élément chimique le plus abondant dans l\'univers ?', '["Hélium", "Oxygène", "Hydrogène", "Carbone"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "What is the most abundant chemical element in the universe?", "choices": ["Helium", "Oxygen", "Hydrogen", "Carbon"]}}'),
+
+('geographie', 'single-choice', 'Quel est le plus grand désert du monde ?', '["Sahara", "Gobi", "Antarctique", "Désert d\'Arabie"]', '[3]', NULL, NULL, NULL, '{"en": {"questionText": "What is the largest desert in the world?", "choices": ["Sahara", "Gobi", "Antarctica", "Arabian Desert"]}}'),
+
+('science', 'true-false', 'L\'eau bout à 100 °C au niveau de la mer.', '["Vrai","Faux"]', '[1]', NULL, NULL, NULL, '{"en": {"questionText": "Water boils at 100 °C at sea level."}}'),
+
+('geographie', 'multi-select', 'Quels pays ont une frontière avec la France ?', '["Espagne","Portugal","Belgique","Suisse","Autriche"]', '[1,3,4]', NULL, NULL, NULL, '{"en": {"questionText": "Which countries share a border with France?", "choices": ["Spain", "Portugal", "Belgium", "Switzerland", "Austria"]}}'),
+
+('histoire', 'numeric', 'En quelle année l\'homme a-t-il marché sur la Lune pour la première fois ?', NULL, NULL, 1969, 0, NULL, '{"en": {"questionText": "In what year did a human first walk on the Moon?"}}'),
+
+('litterature', 'free-text', 'Quel écrivain a créé le personnage d\'Arsène Lupin ?', NULL, NULL, NULL, NULL, '["Maurice Leblanc","Leblanc"]', '{"en": {"questionText": "Which writer created the character Arsène Lupin?"}}');
 
 -- Afficher le nombre de questions insérées
 SELECT COUNT(*) as nombre_de_questions FROM question;
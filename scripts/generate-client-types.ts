@@ -0,0 +1,155 @@
+/**
+ * Génère client/quiz-protocol.ts depuis le catalogue du protocole WebSocket
+ * (src/types/websocket.interface.ts) : les événements, leurs messages et tous
+ * les types et enums du serveur qu'ils utilisent, dans un fichier autonome.
+ *
+ *   npm run protocol:generate   régénère le fichier
+ *   npm run protocol:check      échoue si le fichier n'est plus à jour
+ */
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import * as ts from 'typescript';
+import { PROTOCOL_VERSION } from '../src/utils/protocol';
+
+const ROOT = join(__dirname, '..');
+const ENTRY = join(ROOT, 'src/types/websocket.interface.ts');
+const OUTPUT = join(ROOT, 'client/quiz-protocol.ts');
+// Points d'entrée du catalogue ; le reste est tiré au fil des références
+const ROOTS = ['HandshakeAuth', 'ClientToServerEvents', 'ServerToClientEvents'];
+
+type Declaration =
+  | ts.InterfaceDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.EnumDeclaration;
+
+function isDeclaration(node: ts.Node): node is Declaration {
+  return (
+    ts.isInterfaceDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) ||
+    ts.isEnumDeclaration(node)
+  );
+}
+
+function collectDeclarations(program: ts.Program): Declaration[] {
+  const checker = program.getTypeChecker();
+  const entry = program.getSourceFile(ENTRY);
+  if (!entry) throw new Error(`Fichier introuvable : ${ENTRY}`);
+
+  const collected = new Map<string, Declaration>();
+  const queue: Declaration[] = [];
+
+  const add = (declaration: Declaration) => {
+    const name = declaration.name.text;
+    const existing = collected.get(name);
+    if (existing === declaration) return;
+    if (existing) {
+      throw new Error(`Deux types du protocole s'appellent ${name}`);
+    }
+    collected.set(name, declaration);
+    queue.push(declaration);
+  };
+
+  const resolve = (node: ts.Node) => {
+    let symbol = checker.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    for (const declaration of symbol?.declarations ?? []) {
+      const file = declaration.getSourceFile().fileName;
+      // Paramètres de type et types de TypeScript : rien à reprendre
+      if (
+        ts.isTypeParameterDeclaration(declaration) ||
+        program.isSourceFileDefaultLibrary(declaration.getSourceFile())
+      ) {
+        continue;
+      }
+      if (file.includes('/node_modules/')) {
+        throw new Error(
+          `${declaration.getText().split('\n')[0]} (${file}) ne peut pas figurer dans le protocole`,
+        );
+      }
+      if (!isDeclaration(declaration)) {
+        throw new Error(
+          `${symbol!.name} (${relative(ROOT, file)}) doit être une interface, un type ou un enum`,
+        );
+      }
+      add(declaration);
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isTypeReferenceNode(node)) {
+      resolve(
+        ts.isQualifiedName(node.typeName) ? node.typeName.left : node.typeName,
+      );
+    } else if (ts.isExpressionWithTypeArguments(node)) {
+      resolve(node.expression);
+    } else if (ts.isTypeQueryNode(node)) {
+      throw new Error(`typeof n'est pas pris en charge : ${node.getText()}`);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  entry.statements
+    .filter(isDeclaration)
+    .filter((statement) => ROOTS.includes(statement.name.text))
+    .forEach(add);
+
+  while (queue.length > 0) {
+    ts.forEachChild(queue.shift()!, visit);
+  }
+  return [...collected.values()];
+}
+
+/** Déclaration exportée, avec les commentaires qui la précèdent directement. */
+function print(declaration: Declaration): string {
+  const { text } = declaration.getSourceFile();
+  const comments: string[] = [];
+  let next = declaration.getStart();
+  const ranges =
+    ts.getLeadingCommentRanges(text, declaration.getFullStart()) ?? [];
+  for (const range of ranges.reverse()) {
+    // Une ligne vide sépare les commentaires d'en-tête de fichier
+    if (/\n\s*\n/.test(text.slice(range.end, next))) break;
+    comments.unshift(text.slice(range.pos, range.end));
+    next = range.pos;
+  }
+  const body = declaration
+    .getText()
+    .replace(/^(export\s+)?(declare\s+)?/, 'export ');
+  return [...comments, body].join('\n');
+}
+
+function generate(): string {
+  const configPath = join(ROOT, 'tsconfig.json');
+  const { config } = ts.readConfigFile(configPath, (path) =>
+    ts.sys.readFile(path),
+  ) as { config: unknown };
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, ROOT);
+  const program = ts.createProgram([ENTRY], options);
+
+  const declarations = collectDeclarations(program);
+  return [
+    '// Fichier généré par scripts/generate-client-types.ts - ne pas modifier.',
+    `// Source : ${relative(ROOT, ENTRY)}`,
+    '',
+    `export const PROTOCOL_VERSION = ${PROTOCOL_VERSION};`,
+    '',
+    declarations.map(print).join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+const output = generate();
+if (process.argv.includes('--check')) {
+  const current = existsSync(OUTPUT) ? readFileSync(OUTPUT, 'utf8') : '';
+  if (current !== output) {
+    console.error(
+      `${relative(ROOT, OUTPUT)} n'est plus à jour : lancer npm run protocol:generate`,
+    );
+    process.exit(1);
+  }
+} else {
+  writeFileSync(OUTPUT, output);
+  console.log(`${relative(ROOT, OUTPUT)} généré`);
+}
@@ -0,0 +1,22 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import type { Server, ServerOptions } from 'socket.io';
+import { createStoreAdapter } from './store.adapter';
+import type { StateStore } from '../store/state-store';
+
+/** Serveurs socket.io reliés entre instances par le StateStore. */
+export class StoreIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly store: StateStore,
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: Partial<ServerOptions>): Server {
+    return super.createIOServer(port, {
+      ...options,
+      adapter: createStoreAdapter(this.store),
+    }) as Server;
+  }
+}
@@ -0,0 +1,49 @@
+import { createServer } from 'http';
+import { Server } from 'socket.io';
+import { systemClock } from '../game/clock';
+import { InMemoryStateStore } from '../store/in-memory-state-store';
+import { createStoreAdapter } from './store.adapter';
+
+// Les instances se découvrent par leurs battements de cœur
+const waitForCluster = async (server: Server, size: number) => {
+  while ((await server.of('/').adapter.serverCount()) !== size) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('StoreAdapter', () => {
+  let store: InMemoryStateStore;
+  let servers: Server[];
+
+  beforeEach(async () => {
+    store = new InMemoryStateStore(systemClock);
+    servers = [0, 1].map(
+      () => new Server(createServer(), { adapter: createStoreAdapter(store) }),
+    );
+    await Promise.all(servers.map((server) => waitForCluster(server, 2)));
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.map((server) => server.close()));
+    await store.close();
+  });
+
+  it('relaie les commandes inter-serveurs et leurs réponses', async () => {
+    const [first, second] = servers;
+    second.on('ping', (value: number, ack: (result: number) => void) =>
+      ack(value + 1),
+    );
+
+    await expect(first.serverSideEmitWithAck('ping', 41)).resolves.toEqual([
+      42,
+    ]);
+  });
+
+  it('oublie une instance fermée', async () => {
+    const [first, second] = servers;
+    await second.close();
+    await waitForCluster(first, 1);
+
+    await expect(first.serverSideEmitWithAck('ping', 1)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from 'socket.io-adapter';
+import type { Namespace } from 'socket.io';
+import type { StateStore } from '../store/state-store';
+
+/**
+ * Adaptateur socket.io relayant diffusions, rooms et commandes inter-serveurs
+ * par les canaux du StateStore. Les messages circulent en JSON : les
+ * événements ne doivent pas transporter de données binaires.
+ */
+export class StoreAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+  private readonly ready: Promise<(() => Promise<void>)[]>;
+
+  constructor(
+    nsp: Namespace,
+    private readonly store: StateStore,
+    options: ClusterAdapterOptions = {},
+  ) {
+    super(nsp, options);
+    this.channel = `socket.io#${nsp.name}#`;
+    this.ready = Promise.all([
+      store.subscribe(this.channel, (message) =>
+        this.receive(message, (parsed: ClusterMessage) =>
+          this.onMessage(parsed),
+        ),
+      ),
+      store.subscribe(this.responseChannel(this.uid), (message) =>
+        this.receive(message, (parsed: ClusterResponse) =>
+          this.onResponse(parsed),
+        ),
+      ),
+    ]);
+    // socket.io n'initialise pas l'adaptateur : l'instance s'annonce une fois abonnée
+    this.ready.then(
+      () => this.init(),
+      (error) => console.error('Abonnement inter-instances impossible:', error),
+    );
+  }
+
+  override close() {
+    super.close();
+    this.ready
+      .then((unsubscribes) =>
+        Promise.all(unsubscribes.map((unsubscribe) => unsubscribe())),
+      )
+      .catch((error) => {
+        console.error('Désabonnement inter-instances impossible:', error);
+      });
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    await this.store.publish(this.channel, JSON.stringify(message));
+    // Pas de reprise de connexion : aucun offset à conserver
+    return '';
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse,
+  ): Promise<void> {
+    await this.store.publish(
+      this.responseChannel(requesterUid),
+      JSON.stringify(response),
+    );
+  }
+
+  private responseChannel(uid: ServerId): string {
+    return `${this.channel}${uid}#`;
+  }
+
+  private receive<T>(message: string, handle: (parsed: T) => void) {
+    try {
+      handle(JSON.parse(message) as T);
+    } catch (error) {
+      console.error('Message inter-instances illisible:', error);
+    }
+  }
+}
+
+/** Fabrique à passer à l'option `adapter` du serveur socket.io. */
+export function createStoreAdapter(
+  store: StateStore,
+  options?: ClusterAdapterOptions,
+) {
+  // socket.io l'appelle avec `new` : une fonction fléchée ne convient pas
+  return function (nsp: Namespace) {
+    return new StoreAdapter(nsp, store, options);
+  };
+}
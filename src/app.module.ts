@@ -1,28 +1,106 @@
-import { Module } from '@nestjs/common';
+import { Module, ValidationPipe } from '@nestjs/common';
+import { APP_PIPE } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { Question } from './model/question.entity';
 import { Event } from './model/event.entity';
+import { Player } from './model/player.entity';
+import { GameResult } from './model/game-result.entity';
+import { AnswerRecord } from './model/answer-record.entity';
+import { Theme } from './model/theme.entity';
+import { AdminUser } from './model/admin-user.entity';
+import { AnswerAudit } from './model/answer-audit.entity';
+import { EventSnapshot } from './model/event-snapshot.entity';
 
 import { QuestionService } from './service/question.service';
+import { QuestionTransferService } from './service/question-transfer.service';
 import { EventService } from './service/event.service';
+import { PlayerService } from './service/player.service';
+import { ResultService } from './service/result.service';
+import { LeaderboardService } from './service/leaderboard.service';
+import { ThemeService } from './service/theme.service';
+import { AdminUserService } from './service/admin-user.service';
+import { AuthService } from './service/auth.service';
+import { AnswerAuditService } from './service/answer-audit.service';
+import { EventSnapshotService } from './service/event-snapshot.service';
 import { GatewayService } from './service/gateway.service';
+import { RoomRegistryService } from './service/room-registry.service';
+import { EventSchedulerService } from './service/event-scheduler.service';
+import { LeaderElectionService } from './service/leader-election.service';
 import { QuestionController } from './controller/question.controller';
 import { GatewayController } from './controller/gateway.controller';
 import { EventController } from './controller/event.controller';
+import { PlayerController } from './controller/player.controller';
+import { LeaderboardController } from './controller/leaderboard.controller';
+import { ThemeController } from './controller/theme.controller';
+import { AuthController } from './controller/auth.controller';
+import { AdminUserController } from './controller/admin-user.controller';
+import { AnswerAuditController } from './controller/answer-audit.controller';
 import { databaseConfig } from './config/database.config';
+import { clusterConfig } from './config/cluster.config';
+import { GAME_CLOCK, systemClock } from './game/clock';
+import { INSTANCE_ID, STATE_STORE } from './store/state-store';
+import { InMemoryStateStore } from './store/in-memory-state-store';
+import { RedisStateStore } from './store/redis-state-store';
 
 @Module({
   imports: [
     TypeOrmModule.forRoot(databaseConfig),
-    TypeOrmModule.forFeature([Question, Event]),
+    TypeOrmModule.forFeature([
+      Question,
+      Event,
+      Player,
+      GameResult,
+      AnswerRecord,
+      Theme,
+      AdminUser,
+      AnswerAudit,
+      EventSnapshot,
+    ]),
+  ],
+  controllers: [
+    AppController,
+    QuestionController,
+    EventController,
+    PlayerController,
+    LeaderboardController,
+    ThemeController,
+    AuthController,
+    AdminUserController,
+    AnswerAuditController,
   ],
-  controllers: [AppController, QuestionController, EventController],
   providers: [
+    // Enregistrée dans le module : chaque corps de requête est validé, quel que soit l'amorçage
+    {
+      provide: APP_PIPE,
+      useValue: new ValidationPipe({ whitelist: true, transform: true }),
+    },
     AppService,
     QuestionService,
+    QuestionTransferService,
     EventService,
+    PlayerService,
+    ResultService,
+    LeaderboardService,
+    ThemeService,
+    AdminUserService,
+    AuthService,
+    AnswerAuditService,
+    EventSnapshotService,
+    RoomRegistryService,
+    EventSchedulerService,
+    LeaderElectionService,
+    { provide: GAME_CLOCK, useValue: systemClock },
+    // Sans Redis, l'état reste propre à l'instance : déploiement mono-instance
+    {
+      provide: STATE_STORE,
+      useFactory: () =>
+        clusterConfig.redisUrl
+          ? RedisStateStore.connect(clusterConfig.redisUrl)
+          : new InMemoryStateStore(systemClock),
+    },
+    { provide: INSTANCE_ID, useValue: clusterConfig.instanceId },
     GatewayService,
     GatewayController,
   ],
@@ -0,0 +1,10 @@
+import { intFromEnv } from './env';
+
+export const authConfig = {
+  // Sans JWT_SECRET, un secret aléatoire est tiré au démarrage (une seule instance)
+  jwtSecret: process.env.JWT_SECRET || '',
+  jwtExpiresInSeconds: intFromEnv('JWT_EXPIRES_IN', 3600),
+  // Compte administrateur créé au démarrage s'il n'en existe aucun
+  initialAdminEmail: process.env.ADMIN_EMAIL,
+  initialAdminPassword: process.env.ADMIN_PASSWORD,
+};
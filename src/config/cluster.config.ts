@@ -0,0 +1,11 @@
+import { hostname } from 'os';
+import { intFromEnv } from './env';
+
+export const clusterConfig = {
+  // Sans REDIS_URL, l'état reste en mémoire : une seule instance possible
+  redisUrl: process.env.REDIS_URL,
+  // Identifiant de l'instance dans les baux de leader
+  instanceId: process.env.INSTANCE_ID || `${hostname()}-${process.pid}`,
+  // Durée d'un bail de leader, prolongé au tiers de sa durée
+  leaderLeaseMs: intFromEnv('LEADER_LEASE_MS', 15000),
+};
@@ -0,0 +1,14 @@
+import type { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
+
+// Liste séparée par des virgules ; « * » ou absent = toutes origines, sans cookies
+const origins = (process.env.CORS_ORIGINS || '*')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const allowAll = origins.length === 0 || origins.includes('*');
+
+export const corsConfig: CorsOptions = {
+  origin: allowAll ? '*' : origins,
+  methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE', 'OPTIONS'],
+  credentials: !allowAll,
+};
@@ -1,12 +1,17 @@
 import { TypeOrmModuleOptions } from '@nestjs/typeorm';
+import { intFromEnv } from './env';
 
 export const databaseConfig: TypeOrmModuleOptions = {
   type: 'mysql',
   host: process.env.DB_HOST || 'localhost',
-  port: parseInt(process.env.DB_PORT || '3306', 10) || 3306,
+  port: intFromEnv('DB_PORT', 3306),
   username: process.env.DB_USERNAME || 'root',
   password: process.env.DB_PASSWORD || 'root',
   database: process.env.DB_NAME || 'quiz_db',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
+  // Les migrations passent avant synchronize : elles reprennent les données
+  // des colonnes que synchronize supprimerait
+  migrations: [__dirname + '/../migration/*{.ts,.js}'],
+  migrationsRun: true,
   synchronize: true,
 };
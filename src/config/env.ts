@@ -0,0 +1,10 @@
+/**
+ * Entier lu dans l'environnement. La valeur par défaut ne remplace qu'une
+ * variable absente ou non entière : 0 reste une valeur valide.
+ */
+export function intFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isInteger(value) ? value : fallback;
+}
@@ -0,0 +1,17 @@
+import { intFromEnv } from './env';
+
+export const gameConfig = {
+  // Temps de réponse par question, pour les événements et par défaut en partie libre
+  questionTimeSeconds: intFromEnv('QUESTION_TIME_SECONDS', 30),
+  // Délai accordé après la fin du temps pour compenser la latence réseau
+  answerLatencyAllowanceMs: intFromEnv('ANSWER_LATENCY_ALLOWANCE_MS', 500),
+  // En dessous, une réponse est jugée trop rapide pour un humain
+  suspiciousResponseMs: intFromEnv('SUSPICIOUS_RESPONSE_MS', 200),
+  // Écart maximal entre deux réponses « simultanées » d'une même adresse IP
+  sharedTimingWindowMs: intFromEnv('SHARED_TIMING_WINDOW_MS', 30),
+  // Au-delà, une partie interrompue par un arrêt est close plutôt que reprise
+  recoveryWindowMs: intFromEnv('RECOVERY_WINDOW_MS', 600000),
+  // Proxys de confiance devant le serveur : X-Forwarded-For n'est lu qu'au-delà
+  // de 0, sinon n'importe quel client pourrait y choisir son adresse
+  trustedProxies: intFromEnv('TRUST_PROXY', 0),
+};
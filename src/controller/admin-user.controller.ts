@@ -0,0 +1,43 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminUserService } from '../service/admin-user.service';
+import { AdminRole, AdminUser } from '../model/admin-user.entity';
+import { CreateAdminUserDto } from '../dto/create-admin-user.dto';
+import { UpdateAdminUserDto } from '../dto/update-admin-user.dto';
+import { AuthGuard } from '../guard/auth.guard';
+import { Roles } from '../guard/roles.decorator';
+
+@Controller('admin/users')
+@UseGuards(AuthGuard)
+@Roles(AdminRole.Admin)
+export class AdminUserController {
+  constructor(private readonly adminUserService: AdminUserService) {}
+
+  @Get()
+  async findAll(): Promise<AdminUser[]> {
+    return this.adminUserService.findAll();
+  }
+
+  @Post()
+  async create(
+    @Body() createAdminUserDto: CreateAdminUserDto,
+  ): Promise<AdminUser> {
+    return this.adminUserService.create(createAdminUserDto);
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateAdminUserDto: UpdateAdminUserDto,
+  ): Promise<AdminUser> {
+    return this.adminUserService.update(id, updateAdminUserDto);
+  }
+}
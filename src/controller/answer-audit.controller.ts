@@ -0,0 +1,23 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AnswerAuditService } from '../service/answer-audit.service';
+import { AnswerAudit } from '../model/answer-audit.entity';
+import { AdminRole } from '../model/admin-user.entity';
+import { ListAnswerAuditsQueryDto } from '../dto/list-answer-audits-query.dto';
+import { AuthGuard } from '../guard/auth.guard';
+import { Roles } from '../guard/roles.decorator';
+import type { Paginated } from '../types';
+
+// Réponses signalées par les contrôles anti-triche
+@Controller('audit/answers')
+@UseGuards(AuthGuard)
+@Roles(AdminRole.Admin)
+export class AnswerAuditController {
+  constructor(private readonly answerAuditService: AnswerAuditService) {}
+
+  @Get()
+  async findAll(
+    @Query() query: ListAnswerAuditsQueryDto,
+  ): Promise<Paginated<AnswerAudit>> {
+    return this.answerAuditService.findAll(query);
+  }
+}
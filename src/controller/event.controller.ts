@@ -1,11 +1,48 @@
-import { Controller, Get, Post, Body } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
 import { EventService } from '../service/event.service';
+import { EventSchedulerService } from '../service/event-scheduler.service';
+import { ResultService } from '../service/result.service';
 import { Event } from '../model/event.entity';
-import type { CreateEventData } from 'src/types/event.interface';
+import { AdminRole } from '../model/admin-user.entity';
+import { GameResult } from '../model/game-result.entity';
+import { CreateEventDto } from '../dto/create-event.dto';
+import { UpdateEventDto } from '../dto/update-event.dto';
+import { CancelEventDto } from '../dto/cancel-event.dto';
+import { ListEventsQueryDto } from '../dto/list-events-query.dto';
+import { AuthGuard } from '../guard/auth.guard';
+import { Roles } from '../guard/roles.decorator';
+import type { Paginated, ScheduledEventInfo } from '../types';
 
 @Controller('events')
 export class EventController {
-  constructor(private readonly eventService: EventService) {}
+  constructor(
+    private readonly eventService: EventService,
+    private readonly eventScheduler: EventSchedulerService,
+    private readonly resultService: ResultService,
+  ) {}
+
+  @Get()
+  async findAll(@Query() query: ListEventsQueryDto): Promise<Paginated<Event>> {
+    return this.eventService.findAll(query);
+  }
+
+  @Get('schedule')
+  getSchedule(): ScheduledEventInfo[] {
+    return this.eventScheduler.getSchedule();
+  }
 
   @Get('next')
   async getNextEvent(): Promise<Event | null> {
@@ -17,13 +54,52 @@ export class EventController {
     return this.eventService.findActiveEvents();
   }
 
+  @Get(':id')
+  async findOne(@Param('id', ParseIntPipe) id: number): Promise<Event> {
+    return this.eventService.findOneOrFail(id);
+  }
+
+  @Get(':id/results')
+  async getResults(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<GameResult[]> {
+    await this.eventService.findOneOrFail(id);
+    return this.resultService.findEventResults(id);
+  }
+
   @Post()
-  async createEvent(@Body() eventData: CreateEventData): Promise<Event> {
-    return this.eventService.createEvent(
-      eventData.theme,
-      new Date(eventData.startDate),
-      eventData.numberOfQuestions,
-      eventData.minPlayers || 2
-    );
-  }
-}
\ No newline at end of file
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin)
+  async createEvent(@Body() createEventDto: CreateEventDto): Promise<Event> {
+    return this.eventService.createEvent(createEventDto);
+  }
+
+  @Patch(':id')
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin)
+  async updateEvent(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateEventDto: UpdateEventDto,
+  ): Promise<Event> {
+    return this.eventService.updateEvent(id, updateEventDto);
+  }
+
+  @Delete(':id')
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeEvent(@Param('id', ParseIntPipe) id: number): Promise<void> {
+    await this.eventService.removeEvent(id);
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin)
+  @HttpCode(HttpStatus.OK)
+  async cancelEvent(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() cancelEventDto: CancelEventDto,
+  ): Promise<Event> {
+    return this.eventService.cancelEvent(id, cancelEventDto.reason);
+  }
+}
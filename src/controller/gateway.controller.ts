@@ -1,25 +1,40 @@
+import { UseFilters } from '@nestjs/common';
 import {
   WebSocketGateway,
   WebSocketServer,
   OnGatewayConnection,
   OnGatewayDisconnect,
   SubscribeMessage,
+  ConnectedSocket,
+  MessageBody,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
 import { GatewayService } from '../service/gateway.service';
-import type { StartQuizPayload, SubmitAnswerPayload } from 'src/types/websocket.interface';
+import { corsConfig } from '../config/cors.config';
+import { StartQuizDto } from '../dto/start-quiz.dto';
+import { SubmitAnswerDto } from '../dto/submit-answer.dto';
+import { JoinLobbyDto } from '../dto/join-lobby.dto';
+import { SocketExceptionFilter } from '../filter/socket-exception.filter';
+import { socketValidationPipe } from '../pipe/socket-validation.pipe';
+import type {
+  AnswerQueuedResponse,
+  LobbyJoinedResponse,
+  QuizJoinedResponse,
+  QuizServer,
+  QuizSocket,
+  SocketAck,
+} from '../types/websocket.interface';
 
+// Chaque handler renvoie l'accusé de réception du message
 @WebSocketGateway({
-  cors: {
-    origin: '*',
-  },
+  cors: corsConfig,
   transports: ['websocket', 'polling'],
 })
+@UseFilters(SocketExceptionFilter)
 export class GatewayController
   implements OnGatewayConnection, OnGatewayDisconnect
 {
   @WebSocketServer()
-  server: Server;
+  server: QuizServer;
 
   constructor(private readonly gatewayService: GatewayService) {}
 
@@ -27,26 +42,38 @@ export class GatewayController
     this.gatewayService.setServer(this.server);
   }
 
-  handleConnection(client: Socket) {
-    this.gatewayService.handleConnection(client.id);
+  async handleConnection(client: QuizSocket) {
+    await this.gatewayService.handleConnection(client);
   }
 
-  handleDisconnect(client: Socket) {
+  handleDisconnect(client: QuizSocket) {
     this.gatewayService.handleDisconnection(client.id);
   }
 
   @SubscribeMessage('startQuiz')
-  async handleStartQuiz(client: Socket, payload: StartQuizPayload) {
-    await this.gatewayService.startQuiz(client.id, payload);
+  async handleStartQuiz(
+    @ConnectedSocket() client: QuizSocket,
+    @MessageBody(socketValidationPipe) payload: StartQuizDto,
+  ): Promise<SocketAck<QuizJoinedResponse>> {
+    const data = await this.gatewayService.startQuiz(client.id, payload);
+    return { ok: true, data };
   }
 
   @SubscribeMessage('submitAnswer')
-  async handleSubmitAnswer(client: Socket, payload: SubmitAnswerPayload) {
-    this.gatewayService.submitAnswer(client.id, payload);
+  async handleSubmitAnswer(
+    @ConnectedSocket() client: QuizSocket,
+    @MessageBody(socketValidationPipe) payload: SubmitAnswerDto,
+  ): Promise<SocketAck<AnswerQueuedResponse>> {
+    const data = await this.gatewayService.submitAnswer(client.id, payload);
+    return { ok: true, data };
   }
 
   @SubscribeMessage('joinLobby')
-  async handleJoinLobby(client: Socket) {
-    this.gatewayService.joinLobby(client.id);
+  async handleJoinLobby(
+    @ConnectedSocket() client: QuizSocket,
+    @MessageBody(socketValidationPipe) payload: JoinLobbyDto,
+  ): Promise<SocketAck<LobbyJoinedResponse>> {
+    const data = await this.gatewayService.joinLobby(client.id, payload);
+    return { ok: true, data };
   }
 }
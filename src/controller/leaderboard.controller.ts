@@ -0,0 +1,20 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { LeaderboardService } from '../service/leaderboard.service';
+import { LeaderboardQueryDto } from '../dto/leaderboard-query.dto';
+import type { Leaderboard } from '../types';
+
+@Controller('leaderboard')
+export class LeaderboardController {
+  constructor(private readonly leaderboardService: LeaderboardService) {}
+
+  @Get()
+  async getLeaderboard(
+    @Query() query: LeaderboardQueryDto,
+  ): Promise<Leaderboard> {
+    return this.leaderboardService.getLeaderboard(
+      query.period,
+      query.theme,
+      query.limit,
+    );
+  }
+}
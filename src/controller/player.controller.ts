@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  NotFoundException,
+} from '@nestjs/common';
+import { PlayerService } from '../service/player.service';
+import { ResultService } from '../service/result.service';
+import { CreatePlayerDto } from '../dto/create-player.dto';
+import { PaginationQueryDto } from '../dto/pagination-query.dto';
+import { Player } from '../model/player.entity';
+import { GameResult } from '../model/game-result.entity';
+import type { Paginated, RegisteredPlayer } from '../types';
+
+@Controller('players')
+export class PlayerController {
+  constructor(
+    private readonly playerService: PlayerService,
+    private readonly resultService: ResultService,
+  ) {}
+
+  @Post()
+  register(
+    @Body() createPlayerDto: CreatePlayerDto,
+  ): Promise<RegisteredPlayer> {
+    return this.playerService.register(createPlayerDto);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseIntPipe) id: number): Promise<Player> {
+    const player = await this.playerService.findOne(id);
+    if (!player) {
+      throw new NotFoundException(`Joueur ${id} introuvable`);
+    }
+    return player;
+  }
+
+  @Get(':id/history')
+  async getHistory(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+  ): Promise<Paginated<GameResult>> {
+    await this.findOne(id);
+    return this.resultService.findPlayerHistory(id, query.page, query.limit);
+  }
+}
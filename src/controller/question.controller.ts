@@ -5,54 +5,150 @@ import {
   Body,
   Patch,
   Param,
-  Delete
+  Delete,
+  Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+  BadRequestException,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import { QuestionService } from '../service/question.service';
+import { QuestionTransferService } from '../service/question-transfer.service';
 import { CreateQuestionDto } from '../dto/create-question.dto';
 import { UpdateQuestionDto } from '../dto/update-question.dto';
+import { ImportQuestionsQueryDto } from '../dto/import-questions-query.dto';
+import { ExportQuestionsQueryDto } from '../dto/export-questions-query.dto';
+import { ListQuestionsQueryDto } from '../dto/list-questions-query.dto';
+import { Question } from '../model/question.entity';
+import { AdminRole } from '../model/admin-user.entity';
+import { AuthGuard } from '../guard/auth.guard';
+import { Roles } from '../guard/roles.decorator';
+import type { ImportReport, Paginated, UploadedQuestionFile } from '../types';
+
+// Taille maximale d'un tirage aléatoire
+const MAX_RANDOM_LIMIT = 100;
+// Fichier d'import gardé en mémoire : au-delà, la requête est refusée (413)
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
 
 @Controller('questions')
 export class QuestionController {
-  constructor(private readonly questionService: QuestionService) {}
+  constructor(
+    private readonly questionService: QuestionService,
+    private readonly questionTransferService: QuestionTransferService,
+  ) {}
 
   @Post()
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin, AdminRole.Editor)
   create(@Body() createQuestionDto: CreateQuestionDto) {
     return this.questionService.create(createQuestionDto);
   }
 
-  @Get()
-  async findAll() {
-    const questions = await this.questionService.findAll();
-    return questions;
+  @Post('import')
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin, AdminRole.Editor)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }),
+  )
+  async importQuestions(
+    @UploadedFile() file: UploadedQuestionFile | undefined,
+    @Query() query: ImportQuestionsQueryDto,
+  ): Promise<ImportReport> {
+    if (!file) {
+      throw new BadRequestException('Fichier requis (champ "file")');
+    }
+    return this.questionTransferService.importQuestions(
+      file,
+      query.dryRun,
+      query.format,
+    );
   }
 
-  @Get('api')
-  findAllApi() {
-    return this.questionService.findAll();
+  // Toute la banque avec ses réponses : réservé aux comptes d'administration
+  @Get('export')
+  @UseGuards(AuthGuard)
+  async exportQuestions(
+    @Query() query: ExportQuestionsQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const content = await this.questionTransferService.exportQuestions(
+      query.format,
+      query.theme,
+    );
+    res.setHeader(
+      'Content-Type',
+      query.format === 'csv'
+        ? 'text/csv; charset=utf-8'
+        : 'application/json; charset=utf-8',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="questions.${query.format}"`,
+    );
+    return content;
+  }
+
+  // Les lectures exposent les réponses et la corbeille : comptes d'administration
+  @Get()
+  @UseGuards(AuthGuard)
+  async findAll(
+    @Query() query: ListQuestionsQueryDto,
+  ): Promise<Paginated<Question>> {
+    return this.questionService.findAll(query);
   }
 
   @Get('random/:limit')
-  findRandom(@Param('limit') limit: string) {
-    return this.questionService.findRandomQuestions(parseInt(limit));
+  @UseGuards(AuthGuard)
+  findRandom(@Param('limit', ParseIntPipe) limit: number) {
+    if (limit < 1 || limit > MAX_RANDOM_LIMIT) {
+      throw new BadRequestException(
+        `limit doit être compris entre 1 et ${MAX_RANDOM_LIMIT}`,
+      );
+    }
+    return this.questionService.findRandomQuestions(limit);
   }
 
   @Get('theme/:theme')
+  @UseGuards(AuthGuard)
   findByTheme(@Param('theme') theme: string) {
     return this.questionService.findByTheme(theme);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.questionService.findOne(+id);
+  @UseGuards(AuthGuard)
+  findOne(@Param('id', ParseIntPipe) id: number): Promise<Question> {
+    return this.questionService.findOneOrFail(id);
   }
 
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateQuestionDto: UpdateQuestionDto) {
-    return this.questionService.update(+id, updateQuestionDto);
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin, AdminRole.Editor)
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateQuestionDto: UpdateQuestionDto,
+  ): Promise<Question> {
+    return this.questionService.update(id, updateQuestionDto);
   }
 
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.questionService.remove(+id);
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin, AdminRole.Editor)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id', ParseIntPipe) id: number): Promise<void> {
+    await this.questionService.remove(id);
+  }
+
+  @Post(':id/restore')
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin, AdminRole.Editor)
+  @HttpCode(HttpStatus.OK)
+  restore(@Param('id', ParseIntPipe) id: number): Promise<Question> {
+    return this.questionService.restore(id);
   }
 }
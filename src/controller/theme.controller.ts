@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ThemeService } from '../service/theme.service';
+import { Theme } from '../model/theme.entity';
+import { AdminRole } from '../model/admin-user.entity';
+import { CreateThemeDto } from '../dto/create-theme.dto';
+import { UpdateThemeDto } from '../dto/update-theme.dto';
+import { ListThemesQueryDto } from '../dto/list-themes-query.dto';
+import { AuthGuard } from '../guard/auth.guard';
+import { Roles } from '../guard/roles.decorator';
+import type { ThemeSummary } from '../types';
+
+@Controller('themes')
+export class ThemeController {
+  constructor(private readonly themeService: ThemeService) {}
+
+  @Get()
+  async findAll(@Query() query: ListThemesQueryDto): Promise<ThemeSummary[]> {
+    return this.themeService.findAll(query.all, query.locale);
+  }
+
+  @Get(':slug')
+  async findOne(
+    @Param('slug') slug: string,
+    @Query() query: ListThemesQueryDto,
+  ): Promise<ThemeSummary> {
+    return this.themeService.findOneOrFail(slug, query.locale);
+  }
+
+  @Post()
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin, AdminRole.Editor)
+  async create(@Body() createThemeDto: CreateThemeDto): Promise<Theme> {
+    return this.themeService.create(createThemeDto);
+  }
+
+  @Patch(':slug')
+  @UseGuards(AuthGuard)
+  @Roles(AdminRole.Admin, AdminRole.Editor)
+  async update(
+    @Param('slug') slug: string,
+    @Body() updateThemeDto: UpdateThemeDto,
+  ): Promise<Theme> {
+    return this.themeService.update(slug, updateThemeDto);
+  }
+}
@@ -0,0 +1,8 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+export class CancelEventDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
@@ -0,0 +1,95 @@
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  IsDate,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  Min,
+  Max,
+  MinDate,
+} from 'class-validator';
+import { MinPlayersPolicy } from '../model/event.entity';
+import { ScoringMode } from '../game/scoring';
+import { GameMode } from '../game/game-modes';
+
+export class CreateEventDto {
+  @IsString()
+  @IsNotEmpty()
+  theme: string;
+
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), {
+    message: 'startDate doit être dans le futur',
+  })
+  startDate: Date;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  numberOfQuestions: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minPlayers?: number;
+
+  @IsOptional()
+  @IsEnum(MinPlayersPolicy)
+  minPlayersPolicy?: MinPlayersPolicy;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(120)
+  postponeMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  maxPostpones?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(600)
+  reconnectGraceSeconds?: number;
+
+  @IsOptional()
+  @IsEnum(ScoringMode)
+  scoringMode?: ScoringMode;
+
+  @IsOptional()
+  @IsEnum(GameMode)
+  gameMode?: GameMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  lives?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  difficultyCurve?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  shuffleChoices?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  maxAnswerChanges?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  revealSeconds?: number;
+}
@@ -0,0 +1,8 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class CreatePlayerDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  nickname: string;
+}
@@ -1,32 +1,99 @@
-import { IsString, IsNumber, IsNotEmpty, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNumber,
+  IsNotEmpty,
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsObject,
+  IsInt,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { QuestionDifficulty, QuestionType } from '../model/question.entity';
+import type { QuestionTranslation } from '../model/question.entity';
+import { isChoiceType, MAX_CHOICES } from '../game/question-types';
 
+const hasChoices = (dto: CreateQuestionDto) =>
+  isChoiceType(dto.type ?? QuestionType.SingleChoice);
+
+/**
+ * Les champs requis dépendent du type ; la cohérence d'ensemble (bonnes
+ * réponses parmi les choix...) est vérifiée par validateQuestionShape.
+ */
 export class CreateQuestionDto {
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  theme: string;
+  @MaxLength(64)
+  externalId?: string;
 
   @IsString()
   @IsNotEmpty()
-  questionText: string;
+  theme: string;
 
-  @IsString()
-  @IsNotEmpty()
-  response1: string;
+  @IsOptional()
+  @IsEnum(QuestionType)
+  type?: QuestionType;
 
-  @IsString()
-  @IsNotEmpty()
-  response2: string;
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
 
-  @IsString()
-  @IsNotEmpty()
-  response3: string;
+  // Stockés séparés par des virgules
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^[^,]+$/, { each: true })
+  tags?: string[];
 
   @IsString()
   @IsNotEmpty()
-  response4: string;
+  questionText: string;
+
+  // Facultatif pour vrai/faux (Vrai, Faux par défaut)
+  @ValidateIf(
+    (dto: CreateQuestionDto) =>
+      hasChoices(dto) && dto.type !== QuestionType.TrueFalse,
+  )
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(MAX_CHOICES)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  choices?: string[];
+
+  @ValidateIf(hasChoices)
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  correctAnswers?: number[];
 
+  @ValidateIf((dto: CreateQuestionDto) => dto.type === QuestionType.Numeric)
   @IsNumber()
-  @Min(1)
-  @Max(4)
-  correctResponse: number;
+  numericAnswer?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  tolerance?: number;
+
+  @ValidateIf((dto: CreateQuestionDto) => dto.type === QuestionType.FreeText)
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  acceptedAnswers?: string[];
+
+  // Par locale : questionText, et choices / acceptedAnswers selon le type
+  @IsOptional()
+  @IsObject()
+  @Type(() => Object)
+  translations?: Record<string, QuestionTranslation>;
 }
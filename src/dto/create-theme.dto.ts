@@ -0,0 +1,44 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import type { ThemeTranslation } from '../model/theme.entity';
+
+export class CreateThemeDto {
+  // Déduit du nom si absent
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+    message: 'slug doit être en minuscules, chiffres et tirets',
+  })
+  @MaxLength(64)
+  slug?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  icon?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  @Type(() => Object)
+  translations?: Record<string, ThemeTranslation>;
+}
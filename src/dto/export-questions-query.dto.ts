@@ -0,0 +1,13 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import type { QuestionFileFormat } from '../types/question.interface';
+
+export class ExportQuestionsQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  theme?: string;
+
+  @IsOptional()
+  @IsIn(['csv', 'json'])
+  format: QuestionFileFormat = 'json';
+}
@@ -0,0 +1,16 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import type { QuestionFileFormat } from '../types/question.interface';
+
+export class ImportQuestionsQueryDto {
+  // Valide et rapporte sans rien écrire
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  dryRun: boolean = false;
+
+  // Déduit de l'extension du fichier si absent
+  @IsOptional()
+  @IsIn(['csv', 'json'])
+  format?: QuestionFileFormat;
+}
@@ -0,0 +1,8 @@
+import { IsInt, Min } from 'class-validator';
+import type { JoinLobbyPayload } from '../types/websocket.interface';
+
+export class JoinLobbyDto implements JoinLobbyPayload {
+  @IsInt()
+  @Min(1)
+  eventId: number;
+}
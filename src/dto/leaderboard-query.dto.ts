@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import type { LeaderboardPeriod } from '../types/leaderboard.interface';
+
+export class LeaderboardQueryDto {
+  @IsOptional()
+  @IsIn(['all', 'week', 'month'])
+  period: LeaderboardPeriod = 'all';
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  theme?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 10;
+}
@@ -0,0 +1,24 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsUUID } from 'class-validator';
+import { PaginationQueryDto } from './pagination-query.dto';
+import { SuspicionReason } from '../model/answer-audit.entity';
+
+export class ListAnswerAuditsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  eventId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  playerId?: number;
+
+  @IsOptional()
+  @IsUUID()
+  gameId?: string;
+
+  @IsOptional()
+  @IsEnum(SuspicionReason)
+  reason?: SuspicionReason;
+}
@@ -0,0 +1,9 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from './pagination-query.dto';
+import type { EventStatusFilter } from '../types/event.interface';
+
+export class ListEventsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsIn(['upcoming', 'live', 'completed', 'cancelled', 'expired'])
+  status?: EventStatusFilter;
+}
@@ -0,0 +1,49 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { PaginationQueryDto } from './pagination-query.dto';
+import { QuestionDifficulty, QuestionType } from '../model/question.entity';
+import type { QuestionSortField, SortOrder } from '../types/question.interface';
+
+export class ListQuestionsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsString()
+  theme?: string;
+
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @IsOptional()
+  @IsEnum(QuestionType)
+  type?: QuestionType;
+
+  // Recherche dans l'énoncé
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @IsOptional()
+  @IsIn(['id', 'theme', 'difficulty', 'questionText'])
+  sort: QuestionSortField = 'id';
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsIn(['ASC', 'DESC'])
+  order: SortOrder = 'ASC';
+
+  // Lister la corbeille (questions supprimées) au lieu des questions actives
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  deleted: boolean = false;
+}
@@ -0,0 +1,15 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ListThemesQueryDto {
+  // Inclure les thèmes désactivés
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  all: boolean = false;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  locale?: string;
+}
@@ -0,0 +1,93 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ScoringMode } from '../game/scoring';
+import { GameMode } from '../game/game-modes';
+import { QuestionDifficulty } from '../model/question.entity';
+import type { StartQuizPayload } from '../types/websocket.interface';
+
+export class StartQuizDto implements StartQuizPayload {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  roomId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  theme?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(5)
+  @Max(120)
+  timeLimit?: number;
+
+  @IsOptional()
+  @IsEnum(ScoringMode)
+  scoringMode?: ScoringMode;
+
+  @IsOptional()
+  @IsEnum(GameMode)
+  gameMode?: GameMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  lives?: number;
+
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @IsOptional()
+  @IsBoolean()
+  difficultyCurve?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  shuffleChoices?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  maxAnswerChanges?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  revealSeconds?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(35)
+  locale?: string;
+}
@@ -0,0 +1,39 @@
+import { IsInt, Min, ValidateBy } from 'class-validator';
+import { MAX_CHOICES } from '../game/question-types';
+import type { AnswerValue } from '../game/question-types';
+import type { SubmitAnswerPayload } from '../types/websocket.interface';
+
+const MAX_TEXT_ANSWER_LENGTH = 200;
+
+/**
+ * Forme générale d'une réponse ; sa compatibilité avec le type de la question
+ * est vérifiée par isValidAnswer.
+ */
+function isAnswerValue(value: unknown): value is AnswerValue {
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (typeof value === 'string') {
+    return value.trim().length > 0 && value.length <= MAX_TEXT_ANSWER_LENGTH;
+  }
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.length <= MAX_CHOICES &&
+    value.every((choice) => Number.isInteger(choice) && choice >= 1)
+  );
+}
+
+export class SubmitAnswerDto implements SubmitAnswerPayload {
+  @IsInt()
+  @Min(1)
+  questionId: number;
+
+  @ValidateBy({
+    name: 'isAnswerValue',
+    validator: {
+      validate: isAnswerValue,
+      defaultMessage: () =>
+        `answer doit être un nombre, une liste de numéros de choix ou un texte de ${MAX_TEXT_ANSWER_LENGTH} caractères au plus`,
+    },
+  })
+  answer: AnswerValue;
+}
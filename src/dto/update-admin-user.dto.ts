@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateAdminUserDto } from './create-admin-user.dto';
+
+// L'email identifie le compte et ne change pas
+export class UpdateAdminUserDto extends PartialType(
+  OmitType(CreateAdminUserDto, ['email'] as const),
+) {}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateThemeDto } from './create-theme.dto';
+
+// Le slug sert de clé étrangère et ne change pas
+export class UpdateThemeDto extends PartialType(
+  OmitType(CreateThemeDto, ['slug'] as const),
+) {}
@@ -0,0 +1,39 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseWsExceptionFilter } from '@nestjs/websockets';
+import { GatewayService } from '../service/gateway.service';
+import { SocketException } from './socket.exception';
+import type { QuizSocket, SocketAck } from '../types';
+
+/**
+ * Renvoie les refus dans l'accusé de réception du message, ou sur l'événement
+ * `error` si le client n'en attend pas. Les autres erreurs suivent le
+ * traitement par défaut de Nest.
+ */
+@Catch()
+export class SocketExceptionFilter extends BaseWsExceptionFilter {
+  constructor(private readonly gatewayService: GatewayService) {
+    super();
+  }
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    if (!(exception instanceof SocketException)) {
+      return super.catch(exception, host);
+    }
+
+    const client = host.switchToWs().getClient<QuizSocket>();
+    const error = this.gatewayService.describeError(
+      client,
+      exception.code,
+      exception.params,
+      exception.details,
+    );
+    // Arguments d'un handler WebSocket : socket, message, callback
+    const ack = host.getArgByIndex<unknown>(2);
+    if (typeof ack === 'function') {
+      const response: SocketAck<never> = { ok: false, error };
+      (ack as (response: SocketAck<never>) => void)(response);
+    } else {
+      client.emit('error', error);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { WsException } from '@nestjs/websockets';
+import { MessageCode, MessageParams } from '../i18n/messages';
+
+/** Refus d'un message du client, traduit par SocketExceptionFilter. */
+export class SocketException extends WsException {
+  constructor(
+    readonly code: MessageCode,
+    readonly params: MessageParams = {},
+    readonly details?: string[],
+  ) {
+    super(code);
+  }
+}
@@ -0,0 +1,102 @@
+import { computeAnswerStats } from './answer-stats';
+import { AnswerValue } from './question-types';
+import { Question, QuestionType } from '../model/question.entity';
+
+const question = (overrides: Partial<Question> = {}) =>
+  ({
+    id: 1,
+    type: QuestionType.SingleChoice,
+    choices: ['A', 'B', 'C', 'D'],
+    correctAnswers: [2],
+    ...overrides,
+  }) as Question;
+
+// Réponses par joueur, corrigées d'après `correct`
+const stats = (
+  target: Question,
+  answers: [playerId: number, answer: AnswerValue, correct: boolean][],
+) =>
+  computeAnswerStats(
+    target,
+    new Map(answers.map(([playerId, answer]) => [playerId, answer])),
+    new Map(answers.map(([playerId, , correct]) => [playerId, correct])),
+  );
+
+describe('computeAnswerStats', () => {
+  it('répartit les réponses par choix, en nombre et en pourcentage', () => {
+    expect(
+      stats(question(), [
+        [1, 2, true],
+        [2, 2, true],
+        [3, 1, false],
+      ]),
+    ).toEqual({
+      answered: 3,
+      correct: 2,
+      choiceCounts: [1, 2, 0, 0],
+      choicePercentages: [33, 67, 0, 0],
+    });
+  });
+
+  it('compte zéro partout quand personne n’a répondu', () => {
+    expect(stats(question(), [])).toEqual({
+      answered: 0,
+      correct: 0,
+      choiceCounts: [0, 0, 0, 0],
+      choicePercentages: [0, 0, 0, 0],
+    });
+  });
+
+  it('compte chaque choix coché d’une réponse à choix multiples', () => {
+    const multiple = question({
+      type: QuestionType.MultiSelect,
+      correctAnswers: [1, 3],
+    });
+
+    expect(
+      stats(multiple, [
+        [1, [1, 3], true],
+        [2, [1, 2], false],
+      ]),
+    ).toEqual({
+      answered: 2,
+      correct: 1,
+      choiceCounts: [2, 1, 1, 0],
+      choicePercentages: [100, 50, 50, 0],
+    });
+  });
+
+  it('ignore les choix hors de la question', () => {
+    expect(stats(question(), [[1, 7, false]]).choiceCounts).toEqual([
+      0, 0, 0, 0,
+    ]);
+  });
+
+  it('se limite aux totaux pour une question sans choix', () => {
+    const numeric = question({
+      type: QuestionType.Numeric,
+      choices: undefined,
+      correctAnswers: undefined,
+      numericAnswer: 1789,
+    });
+
+    expect(stats(numeric, [[1, 1789, true]])).toEqual({
+      answered: 1,
+      correct: 1,
+      choiceCounts: null,
+      choicePercentages: null,
+    });
+  });
+
+  it('prend Vrai et Faux comme choix par défaut', () => {
+    const trueFalse = question({
+      type: QuestionType.TrueFalse,
+      choices: undefined,
+      correctAnswers: [1],
+    });
+
+    expect(stats(trueFalse, [[1, 2, false]]).choicePercentages).toEqual([
+      0, 100,
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { Question } from '../model/question.entity';
+import { AnswerValue, getChoices } from './question-types';
+
+export interface AnswerStats {
+  answered: number;
+  correct: number;
+  // Réponses reçues par choix, index = numéro canonique - 1 ; null hors choix
+  choiceCounts: number[] | null;
+  // Part des joueurs ayant répondu qui ont coché chaque choix, en pourcentage
+  // entier ; à choix multiples, le total peut dépasser 100
+  choicePercentages: number[] | null;
+}
+
+/** Répartition des réponses à une question, une fois corrigées. */
+export function computeAnswerStats(
+  question: Question,
+  answers: Map<number, AnswerValue>,
+  results: Map<number, boolean>,
+): AnswerStats {
+  const choices = getChoices(question);
+  const choiceCounts = choices ? choices.map(() => 0) : null;
+
+  answers.forEach((answer) => {
+    if (!choiceCounts) return;
+    // Une réponse à choix multiples compte pour chacun des choix cochés
+    for (const choice of Array.isArray(answer) ? answer : [answer]) {
+      if (
+        typeof choice === 'number' &&
+        choiceCounts[choice - 1] !== undefined
+      ) {
+        choiceCounts[choice - 1]++;
+      }
+    }
+  });
+
+  return {
+    answered: answers.size,
+    correct: [...results.values()].filter(Boolean).length,
+    choiceCounts,
+    choicePercentages:
+      choiceCounts?.map((count) =>
+        answers.size > 0 ? Math.round((count / answers.size) * 100) : 0,
+      ) ?? null,
+  };
+}
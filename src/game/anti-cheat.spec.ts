@@ -0,0 +1,71 @@
+import { AnswerTiming, detectSuspiciousAnswer } from './anti-cheat';
+import { SuspicionReason } from '../model/answer-audit.entity';
+
+const thresholds = { suspiciousResponseMs: 200, sharedTimingWindowMs: 30 };
+
+const timing = (
+  playerId: number,
+  responseTimeMs: number,
+  ip?: string,
+): AnswerTiming => ({ playerId, responseTimeMs, ip });
+
+describe('anti-cheat', () => {
+  it('signale une réponse plus rapide que le seuil humain', () => {
+    expect(detectSuspiciousAnswer(timing(1, 150), [], thresholds)).toEqual([
+      {
+        reason: SuspicionReason.FastAnswer,
+        details: { thresholdMs: 200 },
+      },
+    ]);
+    expect(detectSuspiciousAnswer(timing(1, 200), [], thresholds)).toEqual([]);
+  });
+
+  it('signale les réponses simultanées depuis une même adresse', () => {
+    const previous = [
+      timing(2, 4_010, '1.2.3.4'),
+      timing(3, 4_050, '1.2.3.4'),
+      timing(4, 4_000, '5.6.7.8'),
+    ];
+    expect(
+      detectSuspiciousAnswer(timing(1, 4_000, '1.2.3.4'), previous, thresholds),
+    ).toEqual([
+      {
+        reason: SuspicionReason.SharedTiming,
+        details: { players: [2], windowMs: 30 },
+      },
+    ]);
+  });
+
+  it('ne compare ni un joueur à lui-même ni une réponse sans adresse', () => {
+    const previous = [timing(1, 4_000, '1.2.3.4'), timing(2, 4_000)];
+    expect(
+      detectSuspiciousAnswer(timing(1, 4_000, '1.2.3.4'), previous, thresholds),
+    ).toEqual([]);
+    expect(
+      detectSuspiciousAnswer(timing(3, 4_000), previous, thresholds),
+    ).toEqual([]);
+  });
+
+  it('cumule les motifs', () => {
+    const flags = detectSuspiciousAnswer(
+      timing(1, 100, '1.2.3.4'),
+      [timing(2, 110, '1.2.3.4')],
+      thresholds,
+    );
+    expect(flags.map((flag) => flag.reason)).toEqual([
+      SuspicionReason.FastAnswer,
+      SuspicionReason.SharedTiming,
+    ]);
+  });
+
+  it('désactive un contrôle avec un seuil à 0', () => {
+    const disabled = { suspiciousResponseMs: 0, sharedTimingWindowMs: 0 };
+    expect(
+      detectSuspiciousAnswer(
+        timing(1, 0, '1.2.3.4'),
+        [timing(2, 5, '1.2.3.4')],
+        disabled,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { SuspicionReason } from '../model/answer-audit.entity';
+
+export interface AnswerTiming {
+  playerId: number;
+  ip?: string;
+  responseTimeMs: number;
+}
+
+export interface AntiCheatThresholds {
+  suspiciousResponseMs: number;
+  sharedTimingWindowMs: number;
+}
+
+export interface SuspicionFlag {
+  reason: SuspicionReason;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Motifs de suspicion d'une réponse, au vu des réponses déjà reçues pour la
+ * même question. Rien n'est rejeté : les signalements vont au journal d'audit.
+ */
+export function detectSuspiciousAnswer(
+  timing: AnswerTiming,
+  previous: AnswerTiming[],
+  thresholds: AntiCheatThresholds,
+): SuspicionFlag[] {
+  const flags: SuspicionFlag[] = [];
+
+  if (timing.responseTimeMs < thresholds.suspiciousResponseMs) {
+    flags.push({
+      reason: SuspicionReason.FastAnswer,
+      details: { thresholdMs: thresholds.suspiciousResponseMs },
+    });
+  }
+
+  if (timing.ip) {
+    const twins = previous.filter(
+      (other) =>
+        other.ip === timing.ip &&
+        other.playerId !== timing.playerId &&
+        Math.abs(other.responseTimeMs - timing.responseTimeMs) <=
+          thresholds.sharedTimingWindowMs,
+    );
+    if (twins.length > 0) {
+      flags.push({
+        reason: SuspicionReason.SharedTiming,
+        details: {
+          players: twins.map((other) => other.playerId),
+          windowMs: thresholds.sharedTimingWindowMs,
+        },
+      });
+    }
+  }
+
+  return flags;
+}
@@ -0,0 +1,27 @@
+/** Minuterie armée par une horloge ; seule cette horloge sait l'annuler. */
+export type TimerHandle = object;
+
+/**
+ * Temps et minuteries du jeu. Le moteur ne lit jamais l'heure ni n'arme de
+ * minuterie directement, pour pouvoir être simulé par une ManualClock.
+ */
+export interface GameClock {
+  // Heure murale (ms depuis l'epoch) : dates des événements
+  now(): number;
+  // Horloge monotone (ms), insensible aux réglages de l'heure : durées
+  monotonic(): number;
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  setInterval(callback: () => void, intervalMs: number): TimerHandle;
+  clear(handle: TimerHandle | undefined): void;
+}
+
+export const GAME_CLOCK = 'GAME_CLOCK';
+
+export const systemClock: GameClock = {
+  now: () => Date.now(),
+  monotonic: () => performance.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  setInterval: (callback, intervalMs) => setInterval(callback, intervalMs),
+  // clearTimeout annule aussi les intervalles
+  clear: (handle) => clearTimeout(handle as NodeJS.Timeout | undefined),
+};
@@ -0,0 +1,67 @@
+import { GameMode, GameProgress, getGameModeRules } from './game-modes';
+
+const progress = (overrides: Partial<GameProgress> = {}): GameProgress => ({
+  playedQuestions: 3,
+  drawnQuestions: 10,
+  activePlayers: 2,
+  startingPlayers: 4,
+  ...overrides,
+});
+
+describe('game modes', () => {
+  it.each([GameMode.Elimination, GameMode.FullLength, GameMode.Lives])(
+    '%s : se termine quand toutes les questions sont jouées',
+    (mode) => {
+      const rules = getGameModeRules(mode);
+      expect(rules.drawsMoreQuestions).toBe(false);
+      expect(rules.isOver(progress())).toBe(false);
+      // Même sans joueur en lice, les spectateurs vont au bout des questions
+      expect(rules.isOver(progress({ activePlayers: 0 }))).toBe(false);
+      expect(rules.isOver(progress({ playedQuestions: 10 }))).toBe(true);
+    },
+  );
+
+  it('élimination : une seule vie', () => {
+    expect(getGameModeRules(GameMode.Elimination).initialLives(5)).toBe(1);
+  });
+
+  it('partie complète : personne n’est éliminé', () => {
+    expect(getGameModeRules(GameMode.FullLength).initialLives(5)).toBe(
+      undefined,
+    );
+  });
+
+  it('vies : le nombre configuré, au moins une', () => {
+    const rules = getGameModeRules(GameMode.Lives);
+    expect(rules.initialLives(3)).toBe(3);
+    expect(rules.initialLives(0)).toBe(1);
+  });
+
+  describe('survie', () => {
+    const rules = getGameModeRules(GameMode.Survival);
+
+    it('tire de nouvelles questions et ne s’arrête pas à la liste', () => {
+      expect(rules.drawsMoreQuestions).toBe(true);
+      expect(rules.initialLives(3)).toBe(1);
+      expect(rules.isOver(progress({ playedQuestions: 10 }))).toBe(false);
+    });
+
+    it('s’arrête au dernier survivant', () => {
+      expect(rules.isOver(progress({ activePlayers: 1 }))).toBe(true);
+      expect(rules.isOver(progress({ activePlayers: 0 }))).toBe(true);
+    });
+
+    it('en solo, continue jusqu’à la première erreur', () => {
+      const solo = { startingPlayers: 1 };
+      expect(rules.isOver(progress({ ...solo, activePlayers: 1 }))).toBe(false);
+      expect(rules.isOver(progress({ ...solo, activePlayers: 0 }))).toBe(true);
+    });
+  });
+
+  it('retombe sur l’élimination pour un mode inconnu', () => {
+    expect(getGameModeRules().mode).toBe(GameMode.Elimination);
+    expect(getGameModeRules('relais' as GameMode).mode).toBe(
+      GameMode.Elimination,
+    );
+  });
+});
@@ -0,0 +1,98 @@
+export enum GameMode {
+  Elimination = 'elimination',
+  FullLength = 'full-length',
+  Lives = 'lives',
+  Survival = 'survival',
+}
+
+export const DEFAULT_LIVES = 3;
+
+export interface GameProgress {
+  // Questions déjà jouées et questions tirées pour la partie
+  playedQuestions: number;
+  drawnQuestions: number;
+  activePlayers: number;
+  startingPlayers: number;
+}
+
+export interface GameModeRules {
+  readonly mode: GameMode;
+  // Vies au départ ; undefined = jamais éliminé
+  initialLives(configuredLives: number): number | undefined;
+  isOver(progress: GameProgress): boolean;
+  // Faut-il tirer de nouvelles questions quand la liste est épuisée ?
+  readonly drawsMoreQuestions: boolean;
+}
+
+/** Mort subite : la première erreur élimine, on joue toutes les questions. */
+export class EliminationMode implements GameModeRules {
+  readonly mode = GameMode.Elimination;
+  readonly drawsMoreQuestions = false;
+
+  initialLives(): number {
+    return 1;
+  }
+
+  isOver({ playedQuestions, drawnQuestions }: GameProgress): boolean {
+    return playedQuestions >= drawnQuestions;
+  }
+}
+
+/** Tout le monde joue toutes les questions, seul le score compte. */
+export class FullLengthMode implements GameModeRules {
+  readonly mode = GameMode.FullLength;
+  readonly drawsMoreQuestions = false;
+
+  initialLives(): undefined {
+    return undefined;
+  }
+
+  isOver({ playedQuestions, drawnQuestions }: GameProgress): boolean {
+    return playedQuestions >= drawnQuestions;
+  }
+}
+
+/** N erreurs autorisées avant l'élimination. */
+export class LivesMode implements GameModeRules {
+  readonly mode = GameMode.Lives;
+  readonly drawsMoreQuestions = false;
+
+  initialLives(configuredLives: number): number {
+    return Math.max(1, configuredLives);
+  }
+
+  isOver({ playedQuestions, drawnQuestions }: GameProgress): boolean {
+    return playedQuestions >= drawnQuestions;
+  }
+}
+
+/**
+ * Les questions s'enchaînent jusqu'à ce qu'il ne reste qu'un joueur
+ * (ou aucun en solo).
+ */
+export class SurvivalMode implements GameModeRules {
+  readonly mode = GameMode.Survival;
+  readonly drawsMoreQuestions = true;
+
+  initialLives(): number {
+    return 1;
+  }
+
+  isOver({ activePlayers, startingPlayers }: GameProgress): boolean {
+    if (activePlayers === 0) return true;
+    return startingPlayers > 1 && activePlayers <= 1;
+  }
+}
+
+const MODES: Record<GameMode, GameModeRules> = {
+  [GameMode.Elimination]: new EliminationMode(),
+  [GameMode.FullLength]: new FullLengthMode(),
+  [GameMode.Lives]: new LivesMode(),
+  [GameMode.Survival]: new SurvivalMode(),
+};
+
+export function getGameModeRules(
+  mode: GameMode = GameMode.Elimination,
+): GameModeRules {
+  return MODES[mode] ?? MODES[GameMode.Elimination];
+}
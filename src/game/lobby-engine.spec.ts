@@ -0,0 +1,116 @@
+import { ManualClock } from './manual-clock';
+import { decideLobbyOutcome, LobbyEngine, LobbyOutcome } from './lobby-engine';
+import { MessageCode } from '../i18n/messages';
+import { Event, MinPlayersPolicy } from '../model/event.entity';
+import type { EventLobby } from '../types';
+
+const makeEvent = (overrides: Partial<Event> = {}) =>
+  ({
+    id: 1,
+    minPlayers: 3,
+    minPlayersPolicy: MinPlayersPolicy.Cancel,
+    postponeCount: 0,
+    maxPostpones: 1,
+    ...overrides,
+  }) as Event;
+
+describe('decideLobbyOutcome', () => {
+  it('démarre dès que le minimum est atteint', () => {
+    expect(decideLobbyOutcome(makeEvent(), 3)).toEqual({
+      action: 'start',
+      belowMinimum: false,
+    });
+  });
+
+  it('annule faute de joueurs', () => {
+    expect(decideLobbyOutcome(makeEvent(), 2)).toEqual({
+      action: 'cancel',
+      code: MessageCode.NotEnoughPlayers,
+      params: { actual: 2, required: 3 },
+    });
+    expect(decideLobbyOutcome(makeEvent(), 0)).toMatchObject({
+      action: 'cancel',
+      code: MessageCode.NoPlayers,
+    });
+  });
+
+  it('repousse tant que des reports restent possibles', () => {
+    const policy = MinPlayersPolicy.Postpone;
+    expect(
+      decideLobbyOutcome(makeEvent({ minPlayersPolicy: policy }), 1),
+    ).toEqual({ action: 'postpone' });
+    expect(
+      decideLobbyOutcome(
+        makeEvent({ minPlayersPolicy: policy, postponeCount: 1 }),
+        1,
+      ),
+    ).toMatchObject({ action: 'cancel' });
+  });
+
+  it('démarre malgré le minimum si la politique le permet', () => {
+    const policy = MinPlayersPolicy.StartAnyway;
+    expect(
+      decideLobbyOutcome(makeEvent({ minPlayersPolicy: policy }), 1),
+    ).toEqual({ action: 'start', belowMinimum: true });
+    expect(
+      decideLobbyOutcome(makeEvent({ minPlayersPolicy: policy }), 0),
+    ).toMatchObject({ action: 'cancel', code: MessageCode.NoPlayers });
+  });
+});
+
+describe('LobbyEngine', () => {
+  it('suit un report et décompte jusqu’à la nouvelle heure', async () => {
+    const clock = new ManualClock();
+    const lobby: EventLobby = {
+      roomId: 'event-1',
+      event: makeEvent({
+        startDate: new Date(clock.now() + 10_000),
+        minPlayersPolicy: MinPlayersPolicy.Postpone,
+      }),
+      participants: new Set([1]),
+    };
+    const outcomes: LobbyOutcome[] = [];
+    const engine = new LobbyEngine(
+      {
+        countdown: () => undefined,
+        countdownEnded: (_lobby, outcome) => outcomes.push(outcome),
+      },
+      clock,
+    );
+
+    engine.startCountdown(lobby);
+    await clock.advance(10_000);
+    expect(outcomes).toEqual([{ action: 'postpone' }]);
+    expect(clock.pendingTimers()).toBe(0);
+
+    // Report de 5 minutes : deux joueurs arrivent entre-temps
+    lobby.event = makeEvent({
+      startDate: new Date(clock.now() + 5 * 60_000),
+      minPlayersPolicy: MinPlayersPolicy.Postpone,
+      postponeCount: 1,
+    });
+    engine.startCountdown(lobby);
+    lobby.participants.add(2).add(3);
+    await clock.advance(5 * 60_000);
+    expect(outcomes.at(-1)).toEqual({ action: 'start', belowMinimum: false });
+  });
+
+  it('n’évalue plus un lobby dont le décompte est arrêté', async () => {
+    const clock = new ManualClock();
+    const lobby: EventLobby = {
+      roomId: 'event-1',
+      event: makeEvent({ startDate: new Date(clock.now() + 10_000) }),
+      participants: new Set(),
+    };
+    const ended = jest.fn();
+    const engine = new LobbyEngine(
+      { countdown: () => undefined, countdownEnded: ended },
+      clock,
+    );
+
+    engine.startCountdown(lobby);
+    engine.stopCountdown(lobby);
+    await clock.advance(20_000);
+    expect(ended).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import type { GameClock } from './clock';
+import { MessageCode, MessageParams } from '../i18n/messages';
+import { Event, MinPlayersPolicy } from '../model/event.entity';
+import type { EventLobby } from '../types';
+
+export type LobbyOutcome =
+  | { action: 'start'; belowMinimum: boolean }
+  | { action: 'postpone' }
+  | { action: 'cancel'; code: MessageCode; params: MessageParams };
+
+export interface LobbyEngineListener {
+  countdown(lobby: EventLobby, timeLeft: number): void;
+  // Heure de départ atteinte ; le décompte est déjà arrêté
+  countdownEnded(lobby: EventLobby, outcome: LobbyOutcome): void;
+}
+
+/**
+ * Suite à donner à un lobby à l'heure du départ, selon le nombre de joueurs
+ * présents et la politique de l'événement.
+ */
+export function decideLobbyOutcome(
+  event: Event,
+  participants: number,
+): LobbyOutcome {
+  if (participants >= event.minPlayers) {
+    return { action: 'start', belowMinimum: false };
+  }
+
+  switch (event.minPlayersPolicy) {
+    case MinPlayersPolicy.Postpone:
+      if (event.postponeCount < event.maxPostpones) {
+        return { action: 'postpone' };
+      }
+      break;
+    case MinPlayersPolicy.StartAnyway:
+      if (participants > 0) return { action: 'start', belowMinimum: true };
+      break;
+  }
+
+  return {
+    action: 'cancel',
+    code:
+      participants === 0 ? MessageCode.NoPlayers : MessageCode.NotEnoughPlayers,
+    params: { actual: participants, required: event.minPlayers },
+  };
+}
+
+/** Décompte des lobbies d'événements jusqu'à leur heure de départ. */
+export class LobbyEngine {
+  constructor(
+    private readonly listener: LobbyEngineListener,
+    private readonly clock: GameClock,
+  ) {}
+
+  /** (Re)lance le décompte jusqu'à lobby.event.startDate. */
+  startCountdown(lobby: EventLobby) {
+    this.stopCountdown(lobby);
+    const update = () => {
+      const startsAt = new Date(lobby.event.startDate).getTime();
+      const timeLeft = Math.max(
+        0,
+        Math.floor((startsAt - this.clock.now()) / 1000),
+      );
+      this.listener.countdown(lobby, timeLeft);
+
+      if (timeLeft <= 0) {
+        this.stopCountdown(lobby);
+        this.listener.countdownEnded(
+          lobby,
+          decideLobbyOutcome(lobby.event, lobby.participants.size),
+        );
+      }
+    };
+
+    lobby.countdownTimer = this.clock.setInterval(update, 1000);
+    update();
+  }
+
+  stopCountdown(lobby: EventLobby) {
+    this.clock.clear(lobby.countdownTimer);
+    lobby.countdownTimer = undefined;
+  }
+}
@@ -0,0 +1,91 @@
+import type { GameClock, TimerHandle } from './clock';
+
+interface ManualTimer {
+  dueAt: number;
+  intervalMs?: number;
+  callback: () => void;
+}
+
+/**
+ * Horloge pilotée à la main, pour les tests : le temps n'avance qu'avec
+ * advance(), qui déclenche dans l'ordre les minuteries arrivées à échéance.
+ */
+export class ManualClock implements GameClock {
+  private elapsed = 0;
+  private timers = new Map<TimerHandle, ManualTimer>();
+
+  constructor(private readonly startedAt = Date.UTC(2025, 0, 1, 12)) {}
+
+  now(): number {
+    return this.startedAt + this.elapsed;
+  }
+
+  monotonic(): number {
+    return this.elapsed;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    const handle = {};
+    this.timers.set(handle, {
+      dueAt: this.elapsed + Math.max(0, delayMs),
+      callback,
+    });
+    return handle;
+  }
+
+  setInterval(callback: () => void, intervalMs: number): TimerHandle {
+    const handle = {};
+    const step = Math.max(1, intervalMs);
+    this.timers.set(handle, {
+      dueAt: this.elapsed + step,
+      intervalMs: step,
+      callback,
+    });
+    return handle;
+  }
+
+  clear(handle: TimerHandle | undefined) {
+    if (handle) this.timers.delete(handle);
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Avance le temps de `ms`. Les promesses lancées par une minuterie sont
+   * résolues avant la suivante, comme entre deux tours de boucle Node.
+   */
+  async advance(ms: number) {
+    const target = this.elapsed + ms;
+    for (;;) {
+      const next = this.nextDue(target);
+      if (!next) break;
+      const [handle, timer] = next;
+      this.elapsed = timer.dueAt;
+      if (timer.intervalMs) {
+        timer.dueAt += timer.intervalMs;
+      } else {
+        this.timers.delete(handle);
+      }
+      timer.callback();
+      await flushPromises();
+    }
+    this.elapsed = target;
+    await flushPromises();
+  }
+
+  private nextDue(limit: number): [TimerHandle, ManualTimer] | undefined {
+    let next: [TimerHandle, ManualTimer] | undefined;
+    this.timers.forEach((timer, handle) => {
+      if (timer.dueAt <= limit && (!next || timer.dueAt < next[1].dueAt)) {
+        next = [handle, timer];
+      }
+    });
+    return next;
+  }
+}
+
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
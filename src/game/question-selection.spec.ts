@@ -0,0 +1,80 @@
+import {
+  difficultyCurve,
+  pickQuestions,
+  QuestionCandidate,
+  shuffle,
+} from './question-selection';
+import { QuestionDifficulty } from '../model/question.entity';
+
+const { Easy, Medium, Hard } = QuestionDifficulty;
+
+// Tirage qui laisse chaque élément à sa place : l'ordre reste celui des candidates
+const keepOrder = () => 0.999;
+
+const candidates = (
+  ...difficulties: QuestionDifficulty[]
+): QuestionCandidate[] =>
+  difficulties.map((difficulty, index) => ({ id: index + 1, difficulty }));
+
+describe('question selection', () => {
+  it('mélange sans modifier le tableau d’origine', () => {
+    const items = [1, 2, 3, 4];
+    const shuffled = shuffle(items, () => 0);
+    expect(shuffled).toEqual([2, 3, 4, 1]);
+    expect(items).toEqual([1, 2, 3, 4]);
+  });
+
+  it('répartit la courbe en tiers facile, moyen, difficile', () => {
+    expect(difficultyCurve(6)).toEqual([
+      Easy,
+      Easy,
+      Medium,
+      Medium,
+      Hard,
+      Hard,
+    ]);
+    expect(difficultyCurve(4)).toEqual([Easy, Easy, Medium, Hard]);
+    expect(difficultyCurve(1)).toEqual([Easy]);
+    expect(difficultyCurve(0)).toEqual([]);
+  });
+
+  it('tire le nombre demandé, au plus toutes les candidates', () => {
+    const pool = candidates(Easy, Medium, Hard, Easy);
+    expect(pickQuestions(pool, 2, { random: keepOrder })).toEqual([1, 2]);
+    expect(pickQuestions(pool, 10, { random: keepOrder })).toEqual([
+      1, 2, 3, 4,
+    ]);
+  });
+
+  it('ne reprend les questions à éviter qu’à défaut d’autres', () => {
+    const pool = candidates(Easy, Easy, Easy, Easy);
+    expect(
+      pickQuestions(pool, 3, { avoidIds: [1, 2], random: keepOrder }),
+    ).toEqual([3, 4, 1]);
+  });
+
+  it('suit la courbe de difficulté', () => {
+    const pool = candidates(Hard, Easy, Medium, Hard, Easy, Medium);
+    expect(
+      pickQuestions(pool, 6, { difficultyCurve: true, random: keepOrder }),
+    ).toEqual([2, 5, 3, 6, 1, 4]);
+  });
+
+  it('prend la difficulté la plus proche quand la visée manque', () => {
+    const pool = candidates(Easy, Hard, Hard);
+    expect(
+      pickQuestions(pool, 3, { difficultyCurve: true, random: keepOrder }),
+    ).toEqual([1, 2, 3]);
+  });
+
+  it('applique la courbe après avoir écarté les questions à éviter', () => {
+    const pool = candidates(Easy, Easy, Medium, Hard);
+    expect(
+      pickQuestions(pool, 3, {
+        difficultyCurve: true,
+        avoidIds: [1],
+        random: keepOrder,
+      }),
+    ).toEqual([2, 3, 4]);
+  });
+});
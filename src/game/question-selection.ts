@@ -0,0 +1,87 @@
+import { QuestionDifficulty } from '../model/question.entity';
+
+export interface QuestionCandidate {
+  id: number;
+  difficulty: QuestionDifficulty;
+}
+
+export interface PickOptions {
+  difficultyCurve?: boolean;
+  avoidIds?: Iterable<number>;
+  random?: () => number;
+}
+
+const DIFFICULTY_ORDER = [
+  QuestionDifficulty.Easy,
+  QuestionDifficulty.Medium,
+  QuestionDifficulty.Hard,
+];
+
+/** Mélange de Fisher-Yates, sans modifier le tableau d'origine. */
+export function shuffle<T>(items: T[], random: () => number = Math.random) {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Difficulté visée pour chaque position : un tiers facile, moyen, difficile. */
+export function difficultyCurve(count: number): QuestionDifficulty[] {
+  return Array.from(
+    { length: count },
+    (_, index) =>
+      DIFFICULTY_ORDER[
+        Math.min(
+          DIFFICULTY_ORDER.length - 1,
+          Math.floor((index * DIFFICULTY_ORDER.length) / count),
+        )
+      ],
+  );
+}
+
+/**
+ * Tire `count` questions au hasard parmi les candidates, en gardant les
+ * questions à éviter pour la fin. Avec une courbe, chaque position prend la
+ * difficulté visée ou, à défaut, la plus proche disponible.
+ */
+export function pickQuestions(
+  candidates: QuestionCandidate[],
+  count: number,
+  options: PickOptions = {},
+): number[] {
+  const avoid = new Set(options.avoidIds ?? []);
+  const shuffled = shuffle(candidates, options.random);
+  const ordered = [
+    ...shuffled.filter((candidate) => !avoid.has(candidate.id)),
+    ...shuffled.filter((candidate) => avoid.has(candidate.id)),
+  ];
+
+  if (!options.difficultyCurve) {
+    return ordered.slice(0, count).map((candidate) => candidate.id);
+  }
+
+  const pools = new Map(
+    DIFFICULTY_ORDER.map((difficulty) => [
+      difficulty,
+      ordered.filter((candidate) => candidate.difficulty === difficulty),
+    ]),
+  );
+
+  const picked: number[] = [];
+  for (const target of difficultyCurve(Math.min(count, ordered.length))) {
+    const targetIndex = DIFFICULTY_ORDER.indexOf(target);
+    const fallback = [...DIFFICULTY_ORDER].sort(
+      (a, b) =>
+        Math.abs(DIFFICULTY_ORDER.indexOf(a) - targetIndex) -
+        Math.abs(DIFFICULTY_ORDER.indexOf(b) - targetIndex),
+    );
+    const pool = fallback
+      .map((difficulty) => pools.get(difficulty)!)
+      .find((candidates) => candidates.length > 0);
+    if (!pool) break;
+    picked.push(pool.shift()!.id);
+  }
+  return picked;
+}
@@ -0,0 +1,214 @@
+import {
+  AnswerValue,
+  createChoiceOrder,
+  evaluateAnswers,
+  isValidAnswer,
+  localizeQuestion,
+  toCanonicalAnswer,
+  toDisplayedAnswer,
+  toPublicQuestion,
+} from './question-types';
+import { Question, QuestionType } from '../model/question.entity';
+
+const question = (overrides: Partial<Question>): Question =>
+  ({
+    id: 1,
+    theme: 'histoire',
+    type: QuestionType.SingleChoice,
+    questionText: 'Question',
+    choices: ['A', 'B', 'C', 'D'],
+    correctAnswers: [2],
+    ...overrides,
+  }) as Question;
+
+const evaluate = (target: Question, answers: [number, AnswerValue][]) =>
+  Object.fromEntries(evaluateAnswers(target, new Map(answers)));
+
+describe('question types', () => {
+  describe('evaluateAnswers', () => {
+    it('corrige un choix unique et un vrai/faux', () => {
+      expect(
+        evaluate(question({}), [
+          [1, 2],
+          [2, 3],
+        ]),
+      ).toEqual({ 1: true, 2: false });
+      expect(
+        evaluate(
+          question({ type: QuestionType.TrueFalse, correctAnswers: [1] }),
+          [
+            [1, 1],
+            [2, 2],
+          ],
+        ),
+      ).toEqual({ 1: true, 2: false });
+    });
+
+    it('exige tous les bons choix, et eux seuls, en multi-sélection', () => {
+      const multi = question({
+        type: QuestionType.MultiSelect,
+        correctAnswers: [1, 3],
+      });
+      expect(
+        evaluate(multi, [
+          [1, [3, 1]],
+          [2, [1]],
+          [3, [1, 2, 3]],
+        ]),
+      ).toEqual({ 1: true, 2: false, 3: false });
+    });
+
+    it('accepte un texte libre normalisé, dans toutes les langues', () => {
+      const freeText = question({
+        type: QuestionType.FreeText,
+        choices: undefined,
+        acceptedAnswers: ['Victor Hugo'],
+        translations: {
+          en: { questionText: 'Question', acceptedAnswers: ['Hugo'] },
+        },
+      });
+      expect(
+        evaluate(freeText, [
+          [1, '  victor   HUGO! '],
+          [2, 'hugo'],
+          [3, 'Zola'],
+        ]),
+      ).toEqual({ 1: true, 2: true, 3: false });
+    });
+
+    describe('question numérique', () => {
+      const numeric = question({
+        type: QuestionType.Numeric,
+        choices: undefined,
+        numericAnswer: 1789,
+        tolerance: 2,
+      });
+
+      it('donne raison aux plus proches dès deux réponses', () => {
+        expect(
+          evaluate(numeric, [
+            [1, 1750],
+            [2, 1700],
+            [3, 1750],
+          ]),
+        ).toEqual({ 1: true, 2: false, 3: true });
+      });
+
+      it('accepte aussi toute réponse dans la tolérance', () => {
+        expect(
+          evaluate(numeric, [
+            [1, 1789],
+            [2, 1791],
+            [3, 1795],
+          ]),
+        ).toEqual({ 1: true, 2: true, 3: false });
+      });
+
+      it('juge une réponse seule sur la tolérance uniquement', () => {
+        expect(evaluate(numeric, [[1, 1500]])).toEqual({ 1: false });
+        expect(evaluate(numeric, [[1, 1788]])).toEqual({ 1: true });
+      });
+
+      it('ne compte pas une réponse non numérique comme concurrente', () => {
+        expect(
+          evaluate(numeric, [
+            [1, 1500],
+            [2, 'mille'],
+          ]),
+        ).toEqual({ 1: false, 2: false });
+      });
+    });
+  });
+
+  it('valide la forme de la réponse selon le type', () => {
+    const single = question({});
+    expect(isValidAnswer(single, 4)).toBe(true);
+    expect(isValidAnswer(single, 5)).toBe(false);
+    expect(isValidAnswer(single, '1')).toBe(false);
+
+    const multi = question({ type: QuestionType.MultiSelect });
+    expect(isValidAnswer(multi, [1, 2])).toBe(true);
+    expect(isValidAnswer(multi, [])).toBe(false);
+    expect(isValidAnswer(multi, [1, 1])).toBe(false);
+
+    const numeric = question({ type: QuestionType.Numeric });
+    expect(isValidAnswer(numeric, 12.5)).toBe(true);
+    expect(isValidAnswer(numeric, Number.NaN)).toBe(false);
+
+    const freeText = question({ type: QuestionType.FreeText });
+    expect(isValidAnswer(freeText, 'Hugo')).toBe(true);
+    expect(isValidAnswer(freeText, '   ')).toBe(false);
+  });
+
+  it('convertit les positions affichées en numéros canoniques et retour', () => {
+    const order = [3, 1, 4, 2];
+    expect(toCanonicalAnswer(1, order)).toBe(3);
+    expect(toCanonicalAnswer([1, 4], order)).toEqual([2, 3]);
+    expect(toDisplayedAnswer(3, order)).toBe(1);
+    expect(toDisplayedAnswer([2, 3], order)).toEqual([1, 4]);
+    expect(toCanonicalAnswer('Hugo', order)).toBe('Hugo');
+  });
+
+  it('sert la question dans la langue du joueur, champ par champ', () => {
+    const translated = question({
+      acceptedAnswers: ['Paris'],
+      translations: {
+        en: {
+          questionText: 'Question (en)',
+          acceptedAnswers: ['Paris, France'],
+        },
+        es: { questionText: 'Pregunta', choices: ['a', 'b', 'c', 'd'] },
+      },
+    });
+
+    expect(localizeQuestion(translated, 'en')).toMatchObject({
+      questionText: 'Question (en)',
+      choices: ['A', 'B', 'C', 'D'],
+      acceptedAnswers: ['Paris, France', 'Paris'],
+    });
+    expect(localizeQuestion(translated, 'es')).toMatchObject({
+      questionText: 'Pregunta',
+      choices: ['a', 'b', 'c', 'd'],
+    });
+    expect(localizeQuestion(translated, 'fr').questionText).toBe('Question');
+  });
+
+  it('traduit les libellés par défaut du vrai/faux', () => {
+    const trueFalse = question({ type: QuestionType.TrueFalse, choices: [] });
+    expect(localizeQuestion(trueFalse, 'en').choices).toEqual([
+      'True',
+      'False',
+    ]);
+    const custom = question({
+      type: QuestionType.TrueFalse,
+      choices: ['Oui', 'Non'],
+    });
+    expect(localizeQuestion(custom, 'en').choices).toEqual(['Oui', 'Non']);
+  });
+
+  it('mélange les choix sans toucher au vrai/faux ni aux réponses libres', () => {
+    const order = createChoiceOrder(question({}), () => 0);
+    expect([...order!].sort()).toEqual([1, 2, 3, 4]);
+    expect(order).not.toEqual([1, 2, 3, 4]);
+
+    expect(
+      createChoiceOrder(question({ type: QuestionType.TrueFalse })),
+    ).toBeUndefined();
+    expect(
+      createChoiceOrder(question({ type: QuestionType.Numeric })),
+    ).toBeUndefined();
+  });
+
+  it('présente les choix dans l’ordre propre au joueur', () => {
+    expect(toPublicQuestion(question({}), [3, 1, 4, 2])).toMatchObject({
+      choices: ['C', 'A', 'D', 'B'],
+      multiple: false,
+    });
+    expect(toPublicQuestion(question({})).choices).toEqual([
+      'A',
+      'B',
+      'C',
+      'D',
+    ]);
+  });
+});
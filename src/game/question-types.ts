@@ -0,0 +1,366 @@
+import { Question, QuestionType } from '../model/question.entity';
+import { shuffle } from './question-selection';
+import { DEFAULT_LOCALE, isSupportedLocale, Locale } from '../i18n/locale';
+
+export type AnswerValue = number | number[] | string;
+
+export const TRUE_FALSE_LABELS: Record<Locale, string[]> = {
+  fr: ['Vrai', 'Faux'],
+  en: ['True', 'False'],
+  es: ['Verdadero', 'Falso'],
+};
+export const TRUE_FALSE_CHOICES = TRUE_FALSE_LABELS[DEFAULT_LOCALE];
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 6;
+// Réponses numériques nécessaires pour que la plus proche l'emporte
+const MIN_NUMERIC_COMPETITORS = 2;
+
+export const CHOICE_TYPES = [
+  QuestionType.TrueFalse,
+  QuestionType.SingleChoice,
+  QuestionType.MultiSelect,
+];
+
+/** Question telle qu'envoyée aux joueurs, sans les bonnes réponses. */
+export interface PublicQuestion {
+  id: number;
+  theme: string;
+  type: QuestionType;
+  questionText: string;
+  choices: string[] | null;
+  multiple: boolean;
+}
+
+type QuestionShape = Pick<
+  Question,
+  | 'type'
+  | 'choices'
+  | 'correctAnswers'
+  | 'numericAnswer'
+  | 'tolerance'
+  | 'acceptedAnswers'
+  | 'translations'
+>;
+
+export function isChoiceType(type: QuestionType): boolean {
+  return CHOICE_TYPES.includes(type);
+}
+
+export function getChoices(question: Pick<Question, 'type' | 'choices'>) {
+  if (question.type === QuestionType.TrueFalse) {
+    return question.choices?.length ? question.choices : TRUE_FALSE_CHOICES;
+  }
+  return isChoiceType(question.type) ? (question.choices ?? []) : null;
+}
+
+/** Incohérences entre le type et les champs de réponse ; vide si valide. */
+export function validateQuestionShape(question: Partial<QuestionShape>) {
+  const errors: string[] = [];
+  const type = question.type ?? QuestionType.SingleChoice;
+
+  if (isChoiceType(type)) {
+    const choices = getChoices({ type, choices: question.choices }) ?? [];
+    const [min, max] =
+      type === QuestionType.TrueFalse ? [2, 2] : [MIN_CHOICES, MAX_CHOICES];
+    if (choices.length < min || choices.length > max) {
+      errors.push(
+        type === QuestionType.TrueFalse
+          ? 'Une question vrai/faux a exactement 2 choix'
+          : `Une question à choix a entre ${MIN_CHOICES} et ${MAX_CHOICES} choix`,
+      );
+    }
+
+    const correct = question.correctAnswers ?? [];
+    if (correct.length === 0) {
+      errors.push('Au moins une bonne réponse est requise');
+    } else if (type !== QuestionType.MultiSelect && correct.length > 1) {
+      errors.push('Une seule bonne réponse est autorisée pour ce type');
+    }
+    if (
+      correct.some((n) => !Number.isInteger(n) || n < 1 || n > choices.length)
+    ) {
+      errors.push('correctAnswers doit référencer des choix existants');
+    }
+    if (new Set(correct).size !== correct.length) {
+      errors.push('correctAnswers contient des doublons');
+    }
+  }
+
+  if (type === QuestionType.Numeric && question.numericAnswer == null) {
+    errors.push('numericAnswer est requis pour une question numérique');
+  }
+
+  if (
+    type === QuestionType.FreeText &&
+    !question.acceptedAnswers?.some((answer) => normalizeText(answer))
+  ) {
+    errors.push('acceptedAnswers est requis pour une question à texte libre');
+  }
+
+  const choiceCount = isChoiceType(type)
+    ? getChoices({ type, choices: question.choices })!.length
+    : 0;
+  for (const [locale, translation] of Object.entries(
+    question.translations ?? {},
+  )) {
+    if (!isSupportedLocale(locale)) {
+      errors.push(`Locale non prise en charge: ${locale}`);
+      continue;
+    }
+    if (
+      typeof translation?.questionText !== 'string' ||
+      !translation.questionText.trim()
+    ) {
+      errors.push(`translations.${locale}.questionText est requis`);
+    }
+    if (
+      translation?.choices !== undefined &&
+      (!isStringList(translation.choices) ||
+        translation.choices.length !== choiceCount)
+    ) {
+      errors.push(
+        `translations.${locale}.choices doit compter ${choiceCount} choix`,
+      );
+    }
+    if (
+      translation?.acceptedAnswers !== undefined &&
+      !isStringList(translation.acceptedAnswers)
+    ) {
+      errors.push(
+        `translations.${locale}.acceptedAnswers doit être une liste de textes`,
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Question dans la langue du joueur ; chaque champ non traduit garde sa
+ * valeur d'origine.
+ */
+export function localizeQuestion(question: Question, locale: Locale): Question {
+  const translation =
+    locale === DEFAULT_LOCALE ? undefined : question.translations?.[locale];
+  // Vrai/Faux sans libellés personnalisés : libellés de la langue du joueur
+  const defaultTrueFalse =
+    question.type === QuestionType.TrueFalse &&
+    getChoices(question)!.join() === TRUE_FALSE_CHOICES.join();
+  const choices =
+    translation?.choices ??
+    (defaultTrueFalse ? TRUE_FALSE_LABELS[locale] : question.choices);
+  return {
+    ...question,
+    questionText: translation?.questionText ?? question.questionText,
+    choices,
+    // Réponses de la langue du joueur en tête, pour l'affichage
+    acceptedAnswers: [
+      ...(translation?.acceptedAnswers ?? []),
+      ...(question.acceptedAnswers ?? []),
+    ],
+  };
+}
+
+/**
+ * `choiceOrder[i]` est le numéro canonique du choix affiché en position i + 1.
+ */
+export function toPublicQuestion(
+  question: Question,
+  choiceOrder?: number[],
+): PublicQuestion {
+  const choices = getChoices(question);
+  return {
+    id: question.id,
+    theme: question.theme,
+    type: question.type,
+    questionText: question.questionText,
+    choices:
+      choices && choiceOrder
+        ? choiceOrder.map((choice) => choices[choice - 1])
+        : choices,
+    multiple: question.type === QuestionType.MultiSelect,
+  };
+}
+
+/** Permutation aléatoire des choix ; vrai/faux garde son ordre naturel. */
+export function createChoiceOrder(
+  question: Question,
+  random: () => number = Math.random,
+): number[] | undefined {
+  if (question.type === QuestionType.TrueFalse) return undefined;
+  const choices = getChoices(question);
+  if (!choices) return undefined;
+  return shuffle(
+    choices.map((_, index) => index + 1),
+    random,
+  );
+}
+
+/** Ramène une réponse exprimée en positions affichées aux numéros canoniques. */
+export function toCanonicalAnswer(
+  answer: AnswerValue,
+  choiceOrder?: number[],
+): AnswerValue {
+  if (!choiceOrder) return answer;
+  if (Array.isArray(answer)) {
+    return answer
+      .map((position) => choiceOrder[position - 1])
+      .sort((a, b) => a - b);
+  }
+  return typeof answer === 'number' ? choiceOrder[answer - 1] : answer;
+}
+
+/** Inverse de toCanonicalAnswer : numéros canoniques vers positions affichées. */
+export function toDisplayedAnswer(
+  answer: AnswerValue,
+  choiceOrder?: number[],
+): AnswerValue {
+  if (!choiceOrder) return answer;
+  const toPosition = (choice: number) => choiceOrder.indexOf(choice) + 1;
+  if (Array.isArray(answer)) {
+    return answer.map(toPosition).sort((a, b) => a - b);
+  }
+  return typeof answer === 'number' ? toPosition(answer) : answer;
+}
+
+/** Bonne réponse à montrer aux joueurs, en numéros canoniques pour les choix. */
+export function getCorrectAnswer(question: Question): AnswerValue | null {
+  switch (question.type) {
+    case QuestionType.TrueFalse:
+    case QuestionType.SingleChoice:
+      return question.correctAnswers?.[0] ?? null;
+    case QuestionType.MultiSelect:
+      return [...(question.correctAnswers ?? [])].sort((a, b) => a - b);
+    case QuestionType.Numeric:
+      return question.numericAnswer ?? null;
+    case QuestionType.FreeText:
+      return question.acceptedAnswers?.[0] ?? null;
+    default:
+      return null;
+  }
+}
+
+/** Vérifie que la forme de la réponse correspond au type de question. */
+export function isValidAnswer(question: Question, answer: unknown): boolean {
+  switch (question.type) {
+    case QuestionType.TrueFalse:
+    case QuestionType.SingleChoice:
+      return isChoiceIndex(answer, getChoices(question)!.length);
+    case QuestionType.MultiSelect: {
+      const count = getChoices(question)!.length;
+      return (
+        Array.isArray(answer) &&
+        answer.length > 0 &&
+        answer.length <= count &&
+        new Set(answer).size === answer.length &&
+        answer.every((n) => isChoiceIndex(n, count))
+      );
+    }
+    case QuestionType.Numeric:
+      return typeof answer === 'number' && Number.isFinite(answer);
+    case QuestionType.FreeText:
+      return typeof answer === 'string' && answer.trim().length > 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Corrige les réponses de tous les joueurs à une question. Les questions
+ * numériques sont relatives : dès deux réponses, les plus proches sont
+ * justes ; une réponse seule doit tomber dans la tolérance.
+ */
+export function evaluateAnswers(
+  question: Question,
+  answers: Map<number, AnswerValue>,
+): Map<number, boolean> {
+  const results = new Map<number, boolean>();
+
+  if (question.type === QuestionType.Numeric) {
+    const target = question.numericAnswer ?? 0;
+    const distances = new Map<number, number>();
+    answers.forEach((answer, playerId) => {
+      if (typeof answer === 'number') {
+        distances.set(playerId, Math.abs(answer - target));
+      }
+    });
+    // Sans concurrent, la plus proche serait toujours juste
+    const closest =
+      distances.size >= MIN_NUMERIC_COMPETITORS
+        ? Math.min(...distances.values())
+        : undefined;
+    answers.forEach((_, playerId) => {
+      const distance = distances.get(playerId);
+      results.set(
+        playerId,
+        distance !== undefined &&
+          (distance === closest || distance <= (question.tolerance ?? 0)),
+      );
+    });
+    return results;
+  }
+
+  answers.forEach((answer, playerId) => {
+    results.set(playerId, isCorrectAnswer(question, answer));
+  });
+  return results;
+}
+
+export function isCorrectAnswer(question: Question, answer: AnswerValue) {
+  const correct = question.correctAnswers ?? [];
+  switch (question.type) {
+    case QuestionType.TrueFalse:
+    case QuestionType.SingleChoice:
+      return typeof answer === 'number' && correct.includes(answer);
+    case QuestionType.MultiSelect:
+      return (
+        Array.isArray(answer) &&
+        answer.length === correct.length &&
+        answer.every((n) => correct.includes(n))
+      );
+    case QuestionType.Numeric:
+      return (
+        typeof answer === 'number' &&
+        Math.abs(answer - (question.numericAnswer ?? 0)) <=
+          (question.tolerance ?? 0)
+      );
+    case QuestionType.FreeText: {
+      if (typeof answer !== 'string') return false;
+      const normalized = normalizeText(answer);
+      // Une réponse est acceptée dans n'importe quelle langue
+      return [
+        ...(question.acceptedAnswers ?? []),
+        ...Object.values(question.translations ?? {}).flatMap(
+          (translation) => translation.acceptedAnswers ?? [],
+        ),
+      ].some((accepted) => normalizeText(accepted) === normalized);
+    }
+    default:
+      return false;
+  }
+}
+
+/** Minuscules, sans accents, ponctuation ni espaces superflus. */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function isChoiceIndex(value: unknown, count: number): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= 1 &&
+    (value as number) <= count
+  );
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === 'string' && item.trim().length > 0)
+  );
+}
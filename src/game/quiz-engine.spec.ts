@@ -0,0 +1,384 @@
+import { ManualClock } from './manual-clock';
+import { LobbyEngine, LobbyOutcome } from './lobby-engine';
+import {
+  QuizEngine,
+  QuizEngineListener,
+  QuizOutcome,
+  QuizSettings,
+} from './quiz-engine';
+import { GameMode } from './game-modes';
+import { ScoringMode } from './scoring';
+import type { AnswerValue } from './question-types';
+import { MessageCode } from '../i18n/messages';
+import { Event, MinPlayersPolicy } from '../model/event.entity';
+import { Question, QuestionType } from '../model/question.entity';
+import type { EventLobby, GlobalQuiz, QuizSnapshot } from '../types';
+
+const QUESTION_DELAY_MS = 1000;
+const LATENCY_MS = 500;
+const TIME_LIMIT = 30;
+const REVEAL_SECONDS = 5;
+
+function makeQuestion(id: number, correct: number): Question {
+  return {
+    id,
+    theme: 'histoire',
+    type: QuestionType.SingleChoice,
+    questionText: `Question ${id}`,
+    choices: ['A', 'B', 'C', 'D'],
+    correctAnswers: [correct],
+  } as Question;
+}
+
+class RecordingListener implements QuizEngineListener {
+  questions: number[] = [];
+  eliminations: number[] = [];
+  ticks = 0;
+  extraQuestions: Question[] = [];
+  drawError?: Error;
+  completionError?: Error;
+  outcome?: QuizOutcome;
+  abandonError?: unknown;
+
+  questionStarted(quiz: GlobalQuiz) {
+    this.questions.push(quiz.questions[quiz.currentQuestionIndex].id);
+  }
+
+  timerTick() {
+    this.ticks++;
+  }
+
+  answersRevealed(quiz: GlobalQuiz) {
+    this.eliminations.push(quiz.reveal!.eliminated);
+  }
+
+  drawQuestions() {
+    if (this.drawError) return Promise.reject(this.drawError);
+    const questions = this.extraQuestions;
+    this.extraQuestions = [];
+    return Promise.resolve(questions);
+  }
+
+  quizCompleted(_quiz: GlobalQuiz, outcome: QuizOutcome): Promise<void> {
+    if (this.completionError) return Promise.reject(this.completionError);
+    this.outcome = outcome;
+    return Promise.resolve();
+  }
+
+  quizAbandoned(_quiz: GlobalQuiz, error: unknown) {
+    this.abandonError = error;
+  }
+}
+
+describe('QuizEngine', () => {
+  let clock: ManualClock;
+  let listener: RecordingListener;
+  let engine: QuizEngine;
+
+  const settings = (overrides: Partial<QuizSettings> = {}): QuizSettings => ({
+    roomId: 'public',
+    questions: [makeQuestion(1, 1), makeQuestion(2, 2), makeQuestion(3, 3)],
+    timeLimit: TIME_LIMIT,
+    scoringMode: ScoringMode.Classic,
+    gameMode: GameMode.Elimination,
+    lives: 3,
+    shuffleChoices: false,
+    maxAnswerChanges: 0,
+    revealSeconds: REVEAL_SECONDS,
+    reconnectGraceSeconds: 30,
+    ...overrides,
+  });
+
+  const addPlayers = (quiz: GlobalQuiz, playerIds: number[]) =>
+    playerIds.forEach((playerId) =>
+      engine.addPlayer(
+        quiz,
+        { playerId, nickname: `Joueur ${playerId}`, score: 0 },
+        false,
+      ),
+    );
+
+  /** Joue la question courante : pause, réponses, correction, révélation. */
+  const playQuestion = async (
+    quiz: GlobalQuiz,
+    answers: [number, AnswerValue][],
+  ) => {
+    await clock.advance(QUESTION_DELAY_MS);
+    const question = quiz.questions[quiz.currentQuestionIndex];
+    for (const [playerId, answer] of answers) {
+      expect(
+        engine.submitAnswer(quiz, playerId, question.id, answer),
+      ).toMatchObject({ accepted: true });
+    }
+    await clock.advance(TIME_LIMIT * 1000 + LATENCY_MS);
+    await clock.advance(REVEAL_SECONDS * 1000);
+  };
+
+  beforeEach(() => {
+    clock = new ManualClock();
+    listener = new RecordingListener();
+    engine = new QuizEngine(listener, clock, {
+      answerLatencyAllowanceMs: LATENCY_MS,
+      questionDelayMs: QUESTION_DELAY_MS,
+    });
+  });
+
+  it('simule un événement complet, du lobby au vainqueur', async () => {
+    const event = {
+      id: 7,
+      theme: 'histoire',
+      startDate: new Date(clock.now() + 60_000),
+      numberOfQuestions: 3,
+      minPlayers: 2,
+      minPlayersPolicy: MinPlayersPolicy.Cancel,
+      postponeCount: 0,
+      maxPostpones: 0,
+    } as Event;
+    const lobby: EventLobby = {
+      roomId: 'event-7',
+      event,
+      participants: new Set(),
+    };
+
+    let quiz: GlobalQuiz | undefined;
+    const countdown: number[] = [];
+    const outcomes: LobbyOutcome[] = [];
+    const lobbyEngine = new LobbyEngine(
+      {
+        countdown: (_lobby, timeLeft) => countdown.push(timeLeft),
+        countdownEnded: (endedLobby, outcome) => {
+          outcomes.push(outcome);
+          quiz = engine.createQuiz(
+            settings({ roomId: endedLobby.roomId, event }),
+          );
+          addPlayers(quiz, [...endedLobby.participants]);
+          engine.start(quiz);
+        },
+      },
+      clock,
+    );
+
+    lobbyEngine.startCountdown(lobby);
+    [1, 2, 3].forEach((playerId) => lobby.participants.add(playerId));
+    await clock.advance(59_000);
+    expect(outcomes).toHaveLength(0);
+    await clock.advance(1000);
+
+    expect(countdown[0]).toBe(60);
+    expect(countdown.at(-1)).toBe(0);
+    expect(outcomes).toEqual([{ action: 'start', belowMinimum: false }]);
+    expect(quiz?.sessions.size).toBe(3);
+
+    // Le joueur 3 se trompe à la première question, le joueur 2 à la deuxième
+    await playQuestion(quiz!, [
+      [1, 1],
+      [2, 1],
+      [3, 2],
+    ]);
+    expect(quiz!.sessions.get(3)?.isWatching).toBe(true);
+    expect(
+      engine.submitAnswer(quiz!, 3, quiz!.questions[1].id, 2),
+    ).toMatchObject({ accepted: false, code: MessageCode.WatchingOnly });
+
+    await playQuestion(quiz!, [
+      [1, 2],
+      [2, 1],
+    ]);
+    await playQuestion(quiz!, [[1, 3]]);
+
+    expect(listener.questions).toEqual([1, 2, 3]);
+    expect(listener.eliminations).toEqual([1, 1, 0]);
+    expect(listener.ticks).toBe(3 * TIME_LIMIT);
+    expect(listener.outcome).toEqual({
+      ranking: [1, 2, 3],
+      winner: { id: 1, nickname: 'Joueur 1' },
+    });
+    expect(quiz!.isActive).toBe(false);
+    expect(quiz!.participants.get(1)?.finishedAt).toEqual(
+      new Date(clock.now()),
+    );
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('refuse une réponse reçue après la marge de latence', async () => {
+    const quiz = engine.createQuiz(settings({ gameMode: GameMode.FullLength }));
+    addPlayers(quiz, [1]);
+    engine.start(quiz);
+
+    await clock.advance(QUESTION_DELAY_MS + TIME_LIMIT * 1000 + LATENCY_MS);
+    expect(engine.submitAnswer(quiz, 1, 1, 1)).toEqual({
+      accepted: false,
+      code: MessageCode.TimeExpired,
+    });
+    expect(quiz.sessions.get(1)?.answers).toEqual([
+      expect.objectContaining({ userAnswer: null, correct: false }),
+    ]);
+  });
+
+  it('compte une réponse dans la marge de latence au temps limite', async () => {
+    const quiz = engine.createQuiz(settings());
+    addPlayers(quiz, [1]);
+    engine.start(quiz);
+
+    await clock.advance(QUESTION_DELAY_MS + TIME_LIMIT * 1000 + 200);
+    expect(engine.submitAnswer(quiz, 1, 1, 1)).toMatchObject({
+      accepted: true,
+    });
+    await clock.advance(LATENCY_MS);
+    expect(quiz.sessions.get(1)?.answers[0]).toMatchObject({
+      correct: true,
+      responseTimeMs: TIME_LIMIT * 1000,
+    });
+  });
+
+  it('verrouille la réponse une fois les changements épuisés', async () => {
+    const quiz = engine.createQuiz(settings({ maxAnswerChanges: 1 }));
+    addPlayers(quiz, [1]);
+    engine.start(quiz);
+    await clock.advance(QUESTION_DELAY_MS);
+
+    expect(engine.submitAnswer(quiz, 1, 1, 2)).toMatchObject({
+      accepted: true,
+      first: true,
+    });
+    expect(engine.submitAnswer(quiz, 1, 1, 1)).toMatchObject({
+      accepted: true,
+      first: false,
+    });
+    expect(engine.submitAnswer(quiz, 1, 1, 3)).toEqual({
+      accepted: false,
+      code: MessageCode.AnswerLocked,
+    });
+
+    await clock.advance(TIME_LIMIT * 1000 + LATENCY_MS);
+    expect(quiz.sessions.get(1)?.answers[0].correct).toBe(true);
+  });
+
+  it('corrige une réponse dans l’ordre des choix vu par le joueur', async () => {
+    const quiz = engine.createQuiz(settings({ shuffleChoices: true }));
+    addPlayers(quiz, [1, 2]);
+    // Choix affichés C, A, D, B au premier joueur ; ordre d'origine au second
+    quiz.sessions.get(1)!.choiceOrders.set(1, [3, 1, 4, 2]);
+    engine.start(quiz);
+
+    // Les deux joueurs désignent « A », bonne réponse de la question 1
+    await playQuestion(quiz, [
+      [1, 2],
+      [2, 1],
+    ]);
+
+    const [shuffled] = quiz.sessions.get(1)!.answers;
+    expect(shuffled).toMatchObject({
+      userAnswer: 1,
+      choiceOrder: [3, 1, 4, 2],
+      correct: true,
+    });
+    expect(quiz.sessions.get(2)!.answers[0]).toMatchObject({
+      userAnswer: 1,
+      correct: true,
+    });
+    expect(quiz.reveal?.stats.choiceCounts).toEqual([2, 0, 0, 0]);
+  });
+
+  it('reprend une partie sauvegardée après la question corrigée', async () => {
+    const fullLength = settings({ gameMode: GameMode.FullLength });
+    const quiz = engine.createQuiz(fullLength);
+    addPlayers(quiz, [1, 2]);
+    engine.start(quiz);
+    await clock.advance(QUESTION_DELAY_MS);
+    engine.submitAnswer(quiz, 1, 1, 1);
+    engine.submitAnswer(quiz, 2, 1, 2);
+    await clock.advance(TIME_LIMIT * 1000 + LATENCY_MS);
+
+    // Sauvegarde pendant la correction, puis arrêt du serveur
+    const snapshot = JSON.parse(
+      JSON.stringify(engine.snapshot(quiz)),
+    ) as QuizSnapshot;
+    engine.stop(quiz);
+    expect(snapshot.playedQuestions).toBe(1);
+
+    const restored = engine.restoreQuiz(fullLength, snapshot);
+    expect(restored.gameId).toBe(quiz.gameId);
+    expect(restored.sessions.get(1)).toMatchObject({
+      score: quiz.sessions.get(1)?.score,
+      resumeToken: quiz.sessions.get(1)?.resumeToken,
+    });
+
+    void engine.resume(restored);
+    await playQuestion(restored, [
+      [1, 2],
+      [2, 2],
+    ]);
+    await playQuestion(restored, [
+      [1, 3],
+      [2, 1],
+    ]);
+    expect(listener.questions).toEqual([1, 2, 3]);
+    expect(
+      restored.sessions.get(1)?.answers.map((answer) => answer.correct),
+    ).toEqual([true, true, true]);
+    expect(listener.outcome?.ranking).toEqual([1, 2]);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('tire de nouvelles questions en survie jusqu’au dernier joueur', async () => {
+    const quiz = engine.createQuiz(
+      settings({
+        gameMode: GameMode.Survival,
+        questions: [makeQuestion(1, 1)],
+      }),
+    );
+    addPlayers(quiz, [1, 2]);
+    listener.extraQuestions = [makeQuestion(2, 2)];
+    engine.start(quiz);
+
+    await playQuestion(quiz, [
+      [1, 1],
+      [2, 1],
+    ]);
+    expect(quiz.questions.map((question) => question.id)).toEqual([1, 2]);
+
+    await playQuestion(quiz, [
+      [1, 2],
+      [2, 4],
+    ]);
+    expect(listener.outcome?.ranking).toEqual([1, 2]);
+    // Partie libre : pas de vainqueur désigné
+    expect(listener.outcome?.winner).toBeNull();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('abandonne la partie quand le tirage de questions échoue', async () => {
+    const quiz = engine.createQuiz(
+      settings({
+        gameMode: GameMode.Survival,
+        questions: [makeQuestion(1, 1)],
+      }),
+    );
+    addPlayers(quiz, [1, 2]);
+    listener.drawError = new Error('base indisponible');
+    engine.start(quiz);
+
+    await playQuestion(quiz, [
+      [1, 1],
+      [2, 1],
+    ]);
+    expect(listener.abandonError).toBe(listener.drawError);
+    expect(listener.outcome).toBeUndefined();
+    expect(quiz.isActive).toBe(false);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('abandonne la partie quand sa clôture échoue', async () => {
+    listener.completionError = new Error('écriture impossible');
+    const quiz = engine.createQuiz(
+      settings({ questions: [makeQuestion(1, 1)] }),
+    );
+    addPlayers(quiz, [1]);
+    engine.start(quiz);
+
+    await playQuestion(quiz, [[1, 1]]);
+    expect(listener.abandonError).toBe(listener.completionError);
+    expect(quiz.isActive).toBe(false);
+  });
+});
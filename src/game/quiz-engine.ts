@@ -0,0 +1,497 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type { GameClock } from './clock';
+import { getScoringStrategy } from './scoring';
+import { getGameModeRules } from './game-modes';
+import { computeAnswerStats } from './answer-stats';
+import {
+  AnswerValue,
+  evaluateAnswers,
+  isValidAnswer,
+  toCanonicalAnswer,
+} from './question-types';
+import { MessageCode } from '../i18n/messages';
+import { Question } from '../model/question.entity';
+import type {
+  GlobalQuiz,
+  PendingAnswer,
+  PlayerStats,
+  PlayerSummary,
+  QuizParticipant,
+  QuizSession,
+  QuizSnapshot,
+} from '../types';
+
+// Pause avant chaque question, le temps que les clients suivent
+export const QUESTION_DELAY_MS = 1000;
+
+export interface QuizEngineOptions {
+  // Délai accordé après la fin du temps pour compenser la latence réseau
+  answerLatencyAllowanceMs: number;
+  questionDelayMs: number;
+}
+
+/** Effets d'une partie, pris en charge par le GatewayService (ou un test). */
+export interface QuizEngineListener {
+  // Question ouverte : les sessions pointent déjà sur elle
+  questionStarted(quiz: GlobalQuiz): void;
+  timerTick(quiz: GlobalQuiz): void;
+  // Question corrigée : quiz.reveal est renseigné
+  answersRevealed(quiz: GlobalQuiz): void;
+  // Mode survie : questions supplémentaires quand la liste est épuisée
+  drawQuestions(quiz: GlobalQuiz): Promise<Question[]>;
+  quizCompleted(quiz: GlobalQuiz, outcome: QuizOutcome): void | Promise<void>;
+  // Enchaînement impossible (tirage ou clôture en échec) : la partie est arrêtée
+  quizAbandoned(quiz: GlobalQuiz, error: unknown): void | Promise<void>;
+}
+
+export interface QuizOutcome {
+  // Identifiants des joueurs, du premier au dernier
+  ranking: number[];
+  winner: PlayerSummary | null;
+}
+
+export type QuizSettings = Pick<
+  GlobalQuiz,
+  | 'roomId'
+  | 'theme'
+  | 'questions'
+  | 'timeLimit'
+  | 'scoringMode'
+  | 'gameMode'
+  | 'lives'
+  | 'shuffleChoices'
+  | 'maxAnswerChanges'
+  | 'revealSeconds'
+  | 'reconnectGraceSeconds'
+  | 'event'
+>;
+
+export type AnswerSubmission =
+  | { accepted: true; answer: PendingAnswer; first: boolean }
+  | { accepted: false; code: MessageCode };
+
+/**
+ * Déroulé d'une partie, indépendant de socket.io : questions, correction,
+ * éliminations et classement. Le temps vient uniquement de l'horloge injectée.
+ */
+export class QuizEngine {
+  constructor(
+    private readonly listener: QuizEngineListener,
+    private readonly clock: GameClock,
+    private readonly options: QuizEngineOptions,
+  ) {}
+
+  createQuiz(settings: QuizSettings): GlobalQuiz {
+    return {
+      ...settings,
+      gameId: randomUUID(),
+      isActive: true,
+      currentQuestionIndex: 0,
+      timeLeft: settings.timeLimit,
+      startingPlayers: 0,
+      answerTimings: [],
+      participants: new Map(),
+      sessions: new Map(),
+    };
+  }
+
+  /** Ajoute un joueur ; en cours de partie, il arrive en spectateur. */
+  addPlayer(
+    quiz: GlobalQuiz,
+    participant: QuizParticipant,
+    isWatching: boolean,
+  ): QuizSession {
+    const session: QuizSession = {
+      questions: quiz.questions,
+      currentIndex: quiz.currentQuestionIndex,
+      score: 0,
+      streak: 0,
+      correctResponseTimeMs: 0,
+      answers: [],
+      choiceOrders: new Map(),
+      isWatching,
+      livesLeft: getGameModeRules(quiz.gameMode).initialLives(quiz.lives),
+      timeLimit: quiz.timeLimit,
+      timeLeft: quiz.timeLeft,
+      joinedAt: quiz.currentQuestionIndex,
+      resumeToken: randomBytes(16).toString('hex'),
+    };
+    quiz.participants.set(participant.playerId, participant);
+    quiz.sessions.set(participant.playerId, session);
+    return session;
+  }
+
+  /**
+   * État à sauvegarder, pris à l'ouverture ou à la correction d'une question.
+   * Une réponse en attente n'est pas conservée : la question sera rejouée.
+   */
+  snapshot(quiz: GlobalQuiz): QuizSnapshot {
+    return {
+      gameId: quiz.gameId,
+      questionIds: quiz.questions.map((question) => question.id),
+      // Pendant la correction, la question courante compte comme jouée
+      playedQuestions: quiz.currentQuestionIndex + (quiz.reveal ? 1 : 0),
+      startingPlayers: quiz.startingPlayers,
+      players: Array.from(quiz.sessions, ([playerId, session]) => ({
+        playerId,
+        nickname: quiz.participants.get(playerId)?.nickname ?? '',
+        score: session.score,
+        streak: session.streak,
+        correctResponseTimeMs: session.correctResponseTimeMs,
+        answers: session.answers,
+        choiceOrders: Array.from(session.choiceOrders),
+        isWatching: session.isWatching,
+        livesLeft: session.livesLeft,
+        joinedAt: session.joinedAt,
+        eliminatedAt: session.eliminatedAt,
+        resumeToken: session.resumeToken,
+      })),
+    };
+  }
+
+  /** Reconstruit une partie sauvegardée, à relancer avec resume(). */
+  restoreQuiz(settings: QuizSettings, snapshot: QuizSnapshot): GlobalQuiz {
+    const quiz = this.createQuiz(settings);
+    quiz.gameId = snapshot.gameId;
+    quiz.currentQuestionIndex = snapshot.playedQuestions;
+    quiz.startingPlayers = snapshot.startingPlayers;
+    snapshot.players.forEach(
+      ({ playerId, nickname, choiceOrders, ...saved }) => {
+        quiz.participants.set(playerId, {
+          playerId,
+          nickname,
+          score: saved.score,
+        });
+        quiz.sessions.set(playerId, {
+          ...saved,
+          questions: quiz.questions,
+          currentIndex: quiz.currentQuestionIndex,
+          choiceOrders: new Map(choiceOrders),
+          timeLimit: quiz.timeLimit,
+          timeLeft: quiz.timeLeft,
+        });
+      },
+    );
+    return quiz;
+  }
+
+  /** Reprend une partie restaurée : question suivante ou fin de partie. */
+  resume(quiz: GlobalQuiz): Promise<void> {
+    return this.advanceOrAbandon(quiz);
+  }
+
+  removePlayer(quiz: GlobalQuiz, playerId: number) {
+    quiz.sessions.delete(playerId);
+    quiz.participants.delete(playerId);
+  }
+
+  /** Lance la question courante après la pause d'usage. */
+  start(quiz: GlobalQuiz) {
+    quiz.timer = this.clock.setTimeout(() => {
+      if (!quiz.isActive) return;
+
+      if (quiz.currentQuestionIndex === 0) {
+        quiz.startingPlayers = this.getPlayerStats(quiz).activePlayers;
+      }
+      this.openQuestion(quiz);
+
+      // Le décompte n'est qu'indicatif pour les clients
+      quiz.timerInterval = this.clock.setInterval(() => {
+        if (!quiz.isActive) return;
+        quiz.timeLeft = Math.max(0, quiz.timeLeft - 1);
+        this.listener.timerTick(quiz);
+      }, 1000);
+
+      // Correction après la marge de latence, pour ne pas perdre de réponse acceptée
+      quiz.timer = this.clock.setTimeout(
+        () => this.gradeQuestion(quiz),
+        quiz.timeLimit * 1000 + this.options.answerLatencyAllowanceMs,
+      );
+    }, this.options.questionDelayMs);
+  }
+
+  /** Enregistre la réponse d'un joueur à la question en cours. */
+  submitAnswer(
+    quiz: GlobalQuiz,
+    playerId: number,
+    questionId: number,
+    displayedAnswer: AnswerValue,
+  ): AnswerSubmission {
+    const session = quiz.sessions.get(playerId);
+    if (!quiz.isActive || !session) {
+      return { accepted: false, code: MessageCode.NoActiveSession };
+    }
+    if (session.isWatching) {
+      return { accepted: false, code: MessageCode.WatchingOnly };
+    }
+
+    const question = session.questions[session.currentIndex];
+    if (question?.id !== questionId) {
+      return { accepted: false, code: MessageCode.InvalidQuestion };
+    }
+    if (!isValidAnswer(question, displayedAnswer)) {
+      return { accepted: false, code: MessageCode.InvalidAnswerFormat };
+    }
+
+    // Horodatage serveur : seul compte l'instant de réception
+    const answeredAt = this.clock.monotonic();
+    if (
+      quiz.questionDeadline === undefined ||
+      answeredAt > quiz.questionDeadline + this.options.answerLatencyAllowanceMs
+    ) {
+      return { accepted: false, code: MessageCode.TimeExpired };
+    }
+
+    const previous =
+      session.pendingAnswer?.questionId === questionId
+        ? session.pendingAnswer
+        : undefined;
+    if (previous && previous.changes >= quiz.maxAnswerChanges) {
+      return { accepted: false, code: MessageCode.AnswerLocked };
+    }
+
+    session.pendingAnswer = {
+      questionId,
+      answer: toCanonicalAnswer(
+        displayedAnswer,
+        session.choiceOrders.get(questionId),
+      ),
+      displayedAnswer,
+      answeredAt,
+      changes: previous ? previous.changes + 1 : 0,
+    };
+    return { accepted: true, answer: session.pendingAnswer, first: !previous };
+  }
+
+  /** Arrête les minuteries de la partie ; elle n'évolue plus. */
+  stop(quiz: GlobalQuiz) {
+    this.clock.clear(quiz.timerInterval);
+    this.clock.clear(quiz.timer);
+    quiz.timerInterval = undefined;
+    quiz.timer = undefined;
+    quiz.isActive = false;
+  }
+
+  getPlayerStats(quiz: GlobalQuiz): PlayerStats {
+    const sessions = Array.from(quiz.sessions.values());
+    const activePlayers = sessions.filter((s) => !s.isWatching).length;
+    const watchingPlayers = sessions.filter((s) => s.isWatching).length;
+
+    return {
+      activePlayers,
+      watchingPlayers,
+      totalPlayers: activePlayers + watchingPlayers,
+    };
+  }
+
+  private openQuestion(quiz: GlobalQuiz) {
+    quiz.questionStartedAt = this.clock.monotonic();
+    quiz.questionDeadline = quiz.questionStartedAt + quiz.timeLimit * 1000;
+    quiz.answerTimings = [];
+    quiz.reveal = undefined;
+    quiz.sessions.forEach((session) => {
+      // Les sessions en période de grâce avancent aussi, pour être à jour à la reprise
+      session.currentIndex = quiz.currentQuestionIndex;
+      session.timeLeft = quiz.timeLeft;
+      session.pendingAnswer = undefined;
+    });
+    this.listener.questionStarted(quiz);
+  }
+
+  private gradeQuestion(quiz: GlobalQuiz) {
+    if (!quiz.isActive) return;
+
+    this.clock.clear(quiz.timerInterval);
+    this.clock.clear(quiz.timer);
+    // Question close : plus aucune réponse acceptée pendant la révélation
+    quiz.questionDeadline = undefined;
+
+    const scoring = getScoringStrategy(quiz.scoringMode);
+    const currentQuestion = quiz.questions[quiz.currentQuestionIndex];
+
+    // Correction groupée : une question numérique dépend de toutes les réponses
+    const submitted = new Map<number, AnswerValue>();
+    quiz.sessions.forEach((session, playerId) => {
+      if (
+        session.currentIndex === quiz.currentQuestionIndex &&
+        !session.isWatching &&
+        session.pendingAnswer?.questionId === currentQuestion.id
+      ) {
+        submitted.set(playerId, session.pendingAnswer.answer);
+      }
+    });
+    const results = evaluateAnswers(currentQuestion, submitted);
+
+    quiz.sessions.forEach((session, playerId) => {
+      if (session.currentIndex !== quiz.currentQuestionIndex) return;
+      const wasPlaying = !session.isWatching;
+
+      let userAnswer: AnswerValue | null = null;
+      let isCorrect = false;
+      let responseTimeMs: number | undefined;
+      let points = 0;
+
+      if (session.pendingAnswer && submitted.has(playerId)) {
+        userAnswer = session.pendingAnswer.answer;
+        isCorrect = results.get(playerId) ?? false;
+        // Une réponse reçue dans la marge de latence compte comme à la limite
+        responseTimeMs = Math.min(
+          quiz.timeLimit * 1000,
+          Math.round(
+            session.pendingAnswer.answeredAt -
+              (quiz.questionStartedAt ?? session.pendingAnswer.answeredAt),
+          ),
+        );
+      }
+
+      if (wasPlaying) {
+        points = scoring.score({
+          correct: isCorrect,
+          answered: userAnswer !== null,
+          responseTimeMs,
+          timeLimitMs: quiz.timeLimit * 1000,
+          streak: session.streak,
+        });
+        session.score += points;
+
+        const participant = quiz.participants.get(playerId);
+        if (participant) participant.score = session.score;
+
+        if (isCorrect) {
+          session.streak++;
+          session.correctResponseTimeMs += responseTimeMs ?? 0;
+        } else {
+          session.streak = 0;
+          if (session.livesLeft !== undefined) session.livesLeft--;
+          if (session.livesLeft !== undefined && session.livesLeft <= 0) {
+            session.isWatching = true;
+            session.eliminatedAt = quiz.currentQuestionIndex;
+          }
+        }
+      }
+
+      session.answers.push({
+        questionId: currentQuestion.id,
+        userAnswer,
+        choiceOrder: session.choiceOrders.get(currentQuestion.id),
+        correct: isCorrect,
+        points,
+        wasPlaying,
+        responseTimeMs,
+      });
+
+      session.pendingAnswer = undefined;
+    });
+
+    quiz.reveal = {
+      question: currentQuestion,
+      stats: computeAnswerStats(currentQuestion, submitted, results),
+      eliminated: [...quiz.sessions.values()].filter(
+        (session) => session.eliminatedAt === quiz.currentQuestionIndex,
+      ).length,
+    };
+    this.listener.answersRevealed(quiz);
+
+    // La question suivante attend la fin de la correction
+    quiz.timer = this.clock.setTimeout(() => {
+      if (!quiz.isActive) return;
+      quiz.currentQuestionIndex++;
+      void this.advanceOrAbandon(quiz);
+    }, quiz.revealSeconds * 1000);
+  }
+
+  // Appelé hors de toute requête : une erreur n'a personne d'autre à qui remonter
+  private async advanceOrAbandon(quiz: GlobalQuiz) {
+    try {
+      await this.advance(quiz);
+    } catch (error) {
+      this.stop(quiz);
+      try {
+        await this.listener.quizAbandoned(quiz, error);
+      } catch (failure) {
+        console.error(
+          `Abandon de la partie ${quiz.gameId} impossible:`,
+          failure,
+        );
+      }
+    }
+  }
+
+  /** Question suivante ou fin de partie, selon les règles du mode de jeu. */
+  private async advance(quiz: GlobalQuiz) {
+    const rules = getGameModeRules(quiz.gameMode);
+    let isOver = rules.isOver({
+      playedQuestions: quiz.currentQuestionIndex,
+      drawnQuestions: quiz.questions.length,
+      activePlayers: this.getPlayerStats(quiz).activePlayers,
+      startingPlayers: quiz.startingPlayers,
+    });
+
+    if (!isOver && quiz.currentQuestionIndex >= quiz.questions.length) {
+      if (rules.drawsMoreQuestions) {
+        // Les sessions partagent le tableau de questions de la partie
+        quiz.questions.push(...(await this.listener.drawQuestions(quiz)));
+      }
+      isOver = quiz.currentQuestionIndex >= quiz.questions.length;
+    }
+    if (!quiz.isActive) return;
+
+    if (isOver) {
+      await this.complete(quiz);
+    } else {
+      quiz.timeLeft = quiz.timeLimit;
+      this.start(quiz);
+    }
+  }
+
+  private async complete(quiz: GlobalQuiz) {
+    // Les joueurs encore en lice ont terminé la partie
+    const finishedAt = new Date(this.clock.now());
+    quiz.sessions.forEach((session, playerId) => {
+      const participant = quiz.participants.get(playerId);
+      if (participant && !session.isWatching) {
+        participant.finishedAt = finishedAt;
+      }
+    });
+    this.stop(quiz);
+
+    const ranking = this.rankPlayers(quiz);
+    let winner: PlayerSummary | null = null;
+    if (quiz.event) {
+      // Le vainqueur doit avoir survécu jusqu'à la dernière question
+      const winnerId = ranking.find(
+        (playerId) => quiz.participants.get(playerId)?.finishedAt,
+      );
+      const participant =
+        winnerId !== undefined ? quiz.participants.get(winnerId) : undefined;
+      if (participant) {
+        winner = { id: participant.playerId, nickname: participant.nickname };
+      }
+    }
+    await this.listener.quizCompleted(quiz, { ranking, winner });
+  }
+
+  /**
+   * Classement final : score, puis survie la plus longue, puis rapidité
+   * cumulée sur les bonnes réponses.
+   */
+  rankPlayers(quiz: GlobalQuiz): number[] {
+    const survivedUntil = (session: QuizSession) =>
+      session.eliminatedAt ?? quiz.questions.length;
+
+    return Array.from(quiz.sessions.entries())
+      .sort(([aId, a], [bId, b]) => {
+        if (a.score !== b.score) return b.score - a.score;
+        if (survivedUntil(a) !== survivedUntil(b)) {
+          return survivedUntil(b) - survivedUntil(a);
+        }
+        if (a.correctResponseTimeMs !== b.correctResponseTimeMs) {
+          return a.correctResponseTimeMs - b.correctResponseTimeMs;
+        }
+        const aFinished = quiz.participants.get(aId)?.finishedAt?.getTime();
+        const bFinished = quiz.participants.get(bId)?.finishedAt?.getTime();
+        return (aFinished ?? Infinity) - (bFinished ?? Infinity);
+      })
+      .map(([playerId]) => playerId);
+  }
+}
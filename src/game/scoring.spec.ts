@@ -0,0 +1,92 @@
+import {
+  getScoringStrategy,
+  ScoringContext,
+  ScoringMode,
+  TimeWeightedScoring,
+} from './scoring';
+
+const TIME_LIMIT_MS = 30_000;
+
+const context = (overrides: Partial<ScoringContext> = {}): ScoringContext => ({
+  correct: true,
+  answered: true,
+  responseTimeMs: 0,
+  timeLimitMs: TIME_LIMIT_MS,
+  streak: 0,
+  ...overrides,
+});
+
+describe('scoring', () => {
+  describe('classique', () => {
+    const scoring = getScoringStrategy(ScoringMode.Classic);
+
+    it('compte un point par bonne réponse, quelle que soit la rapidité', () => {
+      expect(scoring.score(context())).toBe(1);
+      expect(scoring.score(context({ responseTimeMs: TIME_LIMIT_MS }))).toBe(1);
+      expect(scoring.score(context({ correct: false }))).toBe(0);
+    });
+  });
+
+  describe('pondéré par le temps', () => {
+    const scoring = getScoringStrategy(ScoringMode.TimeWeighted);
+
+    it('donne 1000 points à une réponse immédiate et 500 à la limite', () => {
+      expect(scoring.score(context())).toBe(1000);
+      expect(
+        scoring.score(context({ responseTimeMs: TIME_LIMIT_MS / 2 })),
+      ).toBe(750);
+      expect(scoring.score(context({ responseTimeMs: TIME_LIMIT_MS }))).toBe(
+        500,
+      );
+    });
+
+    it('borne les temps hors de la question', () => {
+      // Réponse dans la marge de latence, ou horodatage incohérent
+      expect(
+        scoring.score(context({ responseTimeMs: TIME_LIMIT_MS + 400 })),
+      ).toBe(500);
+      expect(scoring.score(context({ responseTimeMs: -200 }))).toBe(1000);
+      expect(scoring.score(context({ responseTimeMs: undefined }))).toBe(500);
+    });
+
+    it('ne donne rien à une mauvaise réponse', () => {
+      expect(scoring.score(context({ correct: false }))).toBe(0);
+    });
+
+    it('accepte un barème et une question sans durée', () => {
+      const custom = new TimeWeightedScoring(200, 100);
+      expect(custom.score(context({ responseTimeMs: 7_500 }))).toBe(175);
+      expect(custom.score(context({ timeLimitMs: 0 }))).toBe(100);
+    });
+  });
+
+  describe('série', () => {
+    const scoring = getScoringStrategy(ScoringMode.Streak);
+
+    it('ajoute un bonus par bonne réponse consécutive, plafonné à 4', () => {
+      expect(scoring.score(context({ streak: 0 }))).toBe(1);
+      expect(scoring.score(context({ streak: 2 }))).toBe(3);
+      expect(scoring.score(context({ streak: 10 }))).toBe(5);
+      expect(scoring.score(context({ streak: 10, correct: false }))).toBe(0);
+    });
+  });
+
+  describe('points négatifs', () => {
+    const scoring = getScoringStrategy(ScoringMode.NegativeMarking);
+
+    it("retire un point par erreur, pas en l'absence de réponse", () => {
+      expect(scoring.score(context())).toBe(1);
+      expect(scoring.score(context({ correct: false }))).toBe(-1);
+      expect(scoring.score(context({ correct: false, answered: false }))).toBe(
+        0,
+      );
+    });
+  });
+
+  it('retombe sur le barème classique pour un mode inconnu', () => {
+    expect(getScoringStrategy().mode).toBe(ScoringMode.Classic);
+    expect(getScoringStrategy('bonus' as ScoringMode).mode).toBe(
+      ScoringMode.Classic,
+    );
+  });
+});
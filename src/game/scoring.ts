@@ -0,0 +1,98 @@
+export enum ScoringMode {
+  Classic = 'classic',
+  TimeWeighted = 'time-weighted',
+  Streak = 'streak',
+  NegativeMarking = 'negative-marking',
+}
+
+export interface ScoringContext {
+  correct: boolean;
+  answered: boolean;
+  // Délai entre l'envoi de la question et la réception de la réponse
+  responseTimeMs?: number;
+  timeLimitMs: number;
+  // Bonnes réponses consécutives avant cette question
+  streak: number;
+}
+
+export interface ScoringStrategy {
+  readonly mode: ScoringMode;
+  // Valeur d'une bonne réponse, pour comparer les scores d'un mode à l'autre
+  readonly pointsPerAnswer: number;
+  score(context: ScoringContext): number;
+}
+
+/** Un point par bonne réponse. */
+export class ClassicScoring implements ScoringStrategy {
+  readonly mode = ScoringMode.Classic;
+  readonly pointsPerAnswer = 1;
+
+  score({ correct }: ScoringContext): number {
+    return correct ? 1 : 0;
+  }
+}
+
+/** 1000 points pour une réponse immédiate, 500 à la dernière seconde. */
+export class TimeWeightedScoring implements ScoringStrategy {
+  readonly mode = ScoringMode.TimeWeighted;
+
+  constructor(
+    private readonly maxPoints = 1000,
+    private readonly minPoints = 500,
+  ) {}
+
+  get pointsPerAnswer(): number {
+    return this.maxPoints;
+  }
+
+  score({ correct, responseTimeMs, timeLimitMs }: ScoringContext): number {
+    if (!correct) return 0;
+    const elapsed = Math.min(
+      Math.max(responseTimeMs ?? timeLimitMs, 0),
+      timeLimitMs,
+    );
+    const remaining = timeLimitMs > 0 ? 1 - elapsed / timeLimitMs : 0;
+    return Math.round(
+      this.minPoints + (this.maxPoints - this.minPoints) * remaining,
+    );
+  }
+}
+
+/** Un point par bonne réponse plus un bonus par bonne réponse consécutive. */
+export class StreakScoring implements ScoringStrategy {
+  readonly mode = ScoringMode.Streak;
+  // Le bonus de série récompense la régularité, il n'est pas ramené à 1
+  readonly pointsPerAnswer = 1;
+
+  constructor(private readonly maxBonus = 4) {}
+
+  score({ correct, streak }: ScoringContext): number {
+    return correct ? 1 + Math.min(streak, this.maxBonus) : 0;
+  }
+}
+
+/** Une mauvaise réponse coûte un point ; l'absence de réponse ne coûte rien. */
+export class NegativeMarkingScoring implements ScoringStrategy {
+  readonly mode = ScoringMode.NegativeMarking;
+  readonly pointsPerAnswer = 1;
+
+  constructor(private readonly penalty = 1) {}
+
+  score({ correct, answered }: ScoringContext): number {
+    if (correct) return 1;
+    return answered ? -this.penalty : 0;
+  }
+}
+
+const STRATEGIES: Record<ScoringMode, ScoringStrategy> = {
+  [ScoringMode.Classic]: new ClassicScoring(),
+  [ScoringMode.TimeWeighted]: new TimeWeightedScoring(),
+  [ScoringMode.Streak]: new StreakScoring(),
+  [ScoringMode.NegativeMarking]: new NegativeMarkingScoring(),
+};
+
+export function getScoringStrategy(
+  mode: ScoringMode = ScoringMode.Classic,
+): ScoringStrategy {
+  return STRATEGIES[mode] ?? STRATEGIES[ScoringMode.Classic];
+}
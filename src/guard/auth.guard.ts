@@ -0,0 +1,43 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from '../service/auth.service';
+import { AdminRole } from '../model/admin-user.entity';
+import { ROLES_KEY } from './roles.decorator';
+import type { AuthenticatedRequest } from '../types';
+
+/** Exige un jeton d'administration « Bearer » et, le cas échéant, un rôle. */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    const admin =
+      scheme === 'Bearer' && token
+        ? await this.authService.authenticate(token)
+        : null;
+    if (!admin) {
+      throw new UnauthorizedException('Authentification requise');
+    }
+    request.admin = admin;
+
+    const roles = this.reflector.getAllAndOverride<AdminRole[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (roles?.length && !roles.includes(admin.role)) {
+      throw new ForbiddenException('Droits insuffisants pour cette action');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { AdminRole } from '../model/admin-user.entity';
+
+export const ROLES_KEY = 'roles';
+
+/** Rôles autorisés sur une route protégée par AuthGuard ; tous si absent. */
+export const Roles = (...roles: AdminRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,12 @@
+import { resolveLocale } from './locale';
+
+describe('locale', () => {
+  it('reconnaît la langue d’un client, ou rien', () => {
+    expect(resolveLocale('en-US')).toBe('en');
+    expect(resolveLocale('ES')).toBe('es');
+    expect(resolveLocale('pt_BR')).toBeUndefined();
+    // En-tête Accept-Language : première langue prise en charge
+    expect(resolveLocale('de-DE,es;q=0.9,fr;q=0.8')).toBe('es');
+    expect(resolveLocale(42)).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+export const SUPPORTED_LOCALES = ['fr', 'en', 'es'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Langue d'origine des contenus et langue de repli
+export const DEFAULT_LOCALE: Locale = 'fr';
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return (
+    typeof value === 'string' &&
+    (SUPPORTED_LOCALES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Ramène « en-US », « EN » ou un en-tête Accept-Language (« es-ES,es;q=0.9 »)
+ * à une locale prise en charge ; undefined si aucune ne correspond.
+ */
+export function resolveLocale(value: unknown): Locale | undefined {
+  if (typeof value !== 'string') return undefined;
+  for (const tag of value.split(',')) {
+    const language = tag.split(';')[0].trim().split(/[-_]/)[0].toLowerCase();
+    if (isSupportedLocale(language)) return language;
+  }
+  return undefined;
+}
@@ -0,0 +1,34 @@
+import { MessageCode, translate } from './messages';
+import { SUPPORTED_LOCALES } from './locale';
+
+const placeholders = (text: string) =>
+  [...text.matchAll(/\{(\w+)\}/g)].map(([, name]) => name).sort();
+
+describe('messages', () => {
+  it('remplit les paramètres dans la langue demandée', () => {
+    const params = { actual: 2, required: 5 };
+    expect(translate(MessageCode.NotEnoughPlayers, 'fr', params)).toBe(
+      'Pas assez de joueurs (2/5)',
+    );
+    expect(translate(MessageCode.NotEnoughPlayers, 'en', params)).toBe(
+      'Not enough players (2/5)',
+    );
+    // Paramètre absent : la marque reste visible plutôt qu'un texte tronqué
+    expect(translate(MessageCode.NotEnoughPlayers, 'es')).toBe(
+      'No hay suficientes jugadores ({actual}/{required})',
+    );
+  });
+
+  it('emploie les mêmes paramètres dans toutes les langues', () => {
+    for (const code of Object.values(MessageCode)) {
+      const expected = placeholders(translate(code, 'fr'));
+      for (const locale of SUPPORTED_LOCALES) {
+        expect([code, locale, placeholders(translate(code, locale))]).toEqual([
+          code,
+          locale,
+          expected,
+        ]);
+      }
+    }
+  });
+});
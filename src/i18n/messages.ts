@@ -0,0 +1,147 @@
+import { DEFAULT_LOCALE, Locale } from './locale';
+
+/** Codes stables des erreurs et motifs envoyés aux clients. */
+export enum MessageCode {
+  AuthRequired = 'AUTH_REQUIRED',
+  UnsupportedProtocol = 'UNSUPPORTED_PROTOCOL',
+  InvalidPayload = 'INVALID_PAYLOAD',
+  SessionInProgress = 'SESSION_IN_PROGRESS',
+  AlreadyInGame = 'ALREADY_IN_GAME',
+  RoomUnavailable = 'ROOM_UNAVAILABLE',
+  ThemeUnavailable = 'THEME_UNAVAILABLE',
+  NoQuestionsForTheme = 'NO_QUESTIONS_FOR_THEME',
+  NoActiveSession = 'NO_ACTIVE_SESSION',
+  WatchingOnly = 'WATCHING_ONLY',
+  InvalidQuestion = 'INVALID_QUESTION',
+  InvalidAnswerFormat = 'INVALID_ANSWER_FORMAT',
+  TimeExpired = 'TIME_EXPIRED',
+  AnswerLocked = 'ANSWER_LOCKED',
+  NoOpenLobby = 'NO_OPEN_LOBBY',
+  EventCancelled = 'EVENT_CANCELLED',
+  EventDeleted = 'EVENT_DELETED',
+  EventCancelledByAdmin = 'EVENT_CANCELLED_BY_ADMIN',
+  NoPlayers = 'NO_PLAYERS',
+  NotEnoughPlayers = 'NOT_ENOUGH_PLAYERS',
+  NoQuestionsAvailable = 'NO_QUESTIONS_AVAILABLE',
+  EventInterrupted = 'EVENT_INTERRUPTED',
+  GameAborted = 'GAME_ABORTED',
+  ServerUnavailable = 'SERVER_UNAVAILABLE',
+}
+
+export type MessageParams = Record<string, string | number>;
+
+// Les paramètres s'écrivent {nom} dans les messages
+const MESSAGES: Record<Locale, Record<MessageCode, string>> = {
+  fr: {
+    [MessageCode.AuthRequired]:
+      'Authentification requise - jeton joueur invalide',
+    [MessageCode.UnsupportedProtocol]:
+      'Version de protocole non prise en charge ({version}) - versions acceptées : {supported}',
+    [MessageCode.InvalidPayload]: 'Message invalide : {details}',
+    [MessageCode.SessionInProgress]:
+      'Une partie est déjà en cours pour ce joueur',
+    [MessageCode.AlreadyInGame]: 'Vous participez déjà à une partie',
+    [MessageCode.RoomUnavailable]: 'Cette room est indisponible',
+    [MessageCode.ThemeUnavailable]: 'Thème inconnu ou désactivé : {theme}',
+    [MessageCode.NoQuestionsForTheme]: 'Aucune question trouvée pour ce thème',
+    [MessageCode.NoActiveSession]: 'Aucune session de quiz active',
+    [MessageCode.WatchingOnly]:
+      'Vous êtes en mode surveillance - réponses bloquées',
+    [MessageCode.InvalidQuestion]: 'Question invalide',
+    [MessageCode.InvalidAnswerFormat]: 'Format de réponse invalide',
+    [MessageCode.TimeExpired]: 'Temps expiré - réponse non acceptée',
+    [MessageCode.AnswerLocked]:
+      'Réponse déjà enregistrée - plus de changement possible',
+    [MessageCode.NoOpenLobby]: 'Aucun lobby ouvert pour cet événement',
+    [MessageCode.EventCancelled]: 'Événement annulé : {reason}',
+    [MessageCode.EventDeleted]: 'Événement supprimé',
+    [MessageCode.EventCancelledByAdmin]:
+      'Événement annulé par un administrateur',
+    [MessageCode.NoPlayers]: 'Aucun joueur présent',
+    [MessageCode.NotEnoughPlayers]:
+      'Pas assez de joueurs ({actual}/{required})',
+    [MessageCode.NoQuestionsAvailable]: 'Aucune question disponible',
+    [MessageCode.EventInterrupted]:
+      'Partie interrompue par un redémarrage du serveur',
+    [MessageCode.GameAborted]: 'Partie interrompue par une erreur du serveur',
+    [MessageCode.ServerUnavailable]:
+      'Serveur de jeu momentanément injoignable - réessayez',
+  },
+  en: {
+    [MessageCode.AuthRequired]:
+      'Authentication required - invalid player token',
+    [MessageCode.UnsupportedProtocol]:
+      'Unsupported protocol version ({version}) - accepted versions: {supported}',
+    [MessageCode.InvalidPayload]: 'Invalid message: {details}',
+    [MessageCode.SessionInProgress]:
+      'A game is already in progress for this player',
+    [MessageCode.AlreadyInGame]: 'You are already taking part in a game',
+    [MessageCode.RoomUnavailable]: 'This room is unavailable',
+    [MessageCode.ThemeUnavailable]: 'Unknown or disabled theme: {theme}',
+    [MessageCode.NoQuestionsForTheme]: 'No questions found for this theme',
+    [MessageCode.NoActiveSession]: 'No active quiz session',
+    [MessageCode.WatchingOnly]: 'You are spectating - answers are blocked',
+    [MessageCode.InvalidQuestion]: 'Invalid question',
+    [MessageCode.InvalidAnswerFormat]: 'Invalid answer format',
+    [MessageCode.TimeExpired]: 'Time is up - answer not accepted',
+    [MessageCode.AnswerLocked]: 'Answer already recorded - no more changes',
+    [MessageCode.NoOpenLobby]: 'No open lobby for this event',
+    [MessageCode.EventCancelled]: 'Event cancelled: {reason}',
+    [MessageCode.EventDeleted]: 'Event deleted',
+    [MessageCode.EventCancelledByAdmin]: 'Event cancelled by an administrator',
+    [MessageCode.NoPlayers]: 'No players present',
+    [MessageCode.NotEnoughPlayers]: 'Not enough players ({actual}/{required})',
+    [MessageCode.NoQuestionsAvailable]: 'No questions available',
+    [MessageCode.EventInterrupted]: 'Game interrupted by a server restart',
+    [MessageCode.GameAborted]: 'Game interrupted by a server error',
+    [MessageCode.ServerUnavailable]:
+      'Game server temporarily unreachable - please retry',
+  },
+  es: {
+    [MessageCode.AuthRequired]:
+      'Autenticación requerida - token de jugador no válido',
+    [MessageCode.UnsupportedProtocol]:
+      'Versión de protocolo no compatible ({version}) - versiones aceptadas: {supported}',
+    [MessageCode.InvalidPayload]: 'Mensaje no válido: {details}',
+    [MessageCode.SessionInProgress]:
+      'Ya hay una partida en curso para este jugador',
+    [MessageCode.AlreadyInGame]: 'Ya participas en una partida',
+    [MessageCode.RoomUnavailable]: 'Esta sala no está disponible',
+    [MessageCode.ThemeUnavailable]: 'Tema desconocido o desactivado: {theme}',
+    [MessageCode.NoQuestionsForTheme]:
+      'No se encontraron preguntas para este tema',
+    [MessageCode.NoActiveSession]: 'No hay ninguna sesión de quiz activa',
+    [MessageCode.WatchingOnly]:
+      'Estás en modo espectador - respuestas bloqueadas',
+    [MessageCode.InvalidQuestion]: 'Pregunta no válida',
+    [MessageCode.InvalidAnswerFormat]: 'Formato de respuesta no válido',
+    [MessageCode.TimeExpired]: 'Tiempo agotado - respuesta no aceptada',
+    [MessageCode.AnswerLocked]:
+      'Respuesta ya registrada - no se admiten más cambios',
+    [MessageCode.NoOpenLobby]: 'No hay ningún lobby abierto para este evento',
+    [MessageCode.EventCancelled]: 'Evento cancelado: {reason}',
+    [MessageCode.EventDeleted]: 'Evento eliminado',
+    [MessageCode.EventCancelledByAdmin]:
+      'Evento cancelado por un administrador',
+    [MessageCode.NoPlayers]: 'Ningún jugador presente',
+    [MessageCode.NotEnoughPlayers]:
+      'No hay suficientes jugadores ({actual}/{required})',
+    [MessageCode.NoQuestionsAvailable]: 'No hay preguntas disponibles',
+    [MessageCode.EventInterrupted]:
+      'Partida interrumpida por un reinicio del servidor',
+    [MessageCode.GameAborted]: 'Partida interrumpida por un error del servidor',
+    [MessageCode.ServerUnavailable]:
+      'Servidor de juego inaccesible por el momento - inténtalo de nuevo',
+  },
+};
+
+export function translate(
+  code: MessageCode,
+  locale: Locale = DEFAULT_LOCALE,
+  params: MessageParams = {},
+): string {
+  const template = MESSAGES[locale][code] ?? MESSAGES[DEFAULT_LOCALE][code];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
@@ -1,18 +1,22 @@
 import { NestFactory } from '@nestjs/core';
 import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
-import { IoAdapter } from '@nestjs/platform-socket.io';
+import { corsConfig } from './config/cors.config';
+import { StoreIoAdapter } from './adapter/store-io.adapter';
+import { STATE_STORE } from './store/state-store';
+import type { StateStore } from './store/state-store';
 
 async function bootstrap() {
   try {
     const app = await NestFactory.create<NestExpressApplication>(AppModule);
-    app.enableCors({
-      origin: '*',
-      methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE', 'OPTIONS'],
-      credentials: true,
-    });
+    app.enableCors(corsConfig);
+    // Libère les baux de l'instance à l'arrêt
+    app.enableShutdownHooks();
 
-    app.useWebSocketAdapter(new IoAdapter(app));
+    // Diffusions socket.io relayées aux autres instances par le StateStore
+    app.useWebSocketAdapter(
+      new StoreIoAdapter(app, app.get<StateStore>(STATE_STORE)),
+    );
 
     const port = process.env.PORT || 3000;
     await app.listen(port);
@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Booléens isCompleted/lobbyOpen remplacés par le statut de l'événement.
+ * Les événements dont l'heure est passée seront expirés au démarrage.
+ */
+export class EventStatus1760781600000 implements MigrationInterface {
+  name = 'EventStatus1760781600000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    // Base créée après le changement : synchronize s'occupe du reste
+    if (!(await queryRunner.hasColumn('event', 'isCompleted'))) return;
+
+    if (!(await queryRunner.hasColumn('event', 'status'))) {
+      await queryRunner.query(
+        "ALTER TABLE `event` ADD `status` enum('scheduled', 'lobby', 'running', 'completed', 'cancelled', 'expired') NOT NULL DEFAULT 'scheduled'",
+      );
+    }
+    await queryRunner.query(
+      "UPDATE `event` SET `status` = CASE WHEN `isCompleted` = 1 THEN 'completed' WHEN `lobbyOpen` = 1 THEN 'lobby' ELSE 'scheduled' END",
+    );
+    await queryRunner.query(
+      'ALTER TABLE `event` DROP COLUMN `isCompleted`, DROP COLUMN `lobbyOpen`',
+    );
+
+    // L'ancien vainqueur était un identifiant de socket, qui ne désigne aucun
+    // joueur : winnerId reste vide pour ces événements
+    if (await queryRunner.hasColumn('event', 'winner')) {
+      await queryRunner.query('ALTER TABLE `event` DROP COLUMN `winner`');
+    }
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('event', 'isCompleted')) return;
+
+    await queryRunner.query(
+      'ALTER TABLE `event` ADD `isCompleted` tinyint NOT NULL DEFAULT 0, ADD `lobbyOpen` tinyint NOT NULL DEFAULT 0, ADD `winner` varchar(255) NULL',
+    );
+    await queryRunner.query(
+      "UPDATE `event` SET `isCompleted` = `status` IN ('completed', 'cancelled', 'expired'), `lobbyOpen` = `status` = 'lobby'",
+    );
+    await queryRunner.query('ALTER TABLE `event` DROP COLUMN `status`');
+  }
+}
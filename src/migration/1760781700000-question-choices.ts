@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const RESPONSE_COLUMNS = [
+  'response1',
+  'response2',
+  'response3',
+  'response4',
+  'correctResponse',
+];
+
+/**
+ * Colonnes response1..4/correctResponse reprises dans choices/correctAnswers.
+ * Les anciennes questions deviennent des questions à choix unique, le type
+ * par défaut ajouté par synchronize.
+ */
+export class QuestionChoices1760781700000 implements MigrationInterface {
+  name = 'QuestionChoices1760781700000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasColumn('question', 'response1'))) return;
+
+    if (!(await queryRunner.hasColumn('question', 'choices'))) {
+      await queryRunner.query(
+        'ALTER TABLE `question` ADD `choices` text NULL, ADD `correctAnswers` text NULL',
+      );
+    }
+    await queryRunner.query(
+      'UPDATE `question` SET `choices` = JSON_ARRAY(`response1`, `response2`, `response3`, `response4`), `correctAnswers` = JSON_ARRAY(`correctResponse`)',
+    );
+    await queryRunner.query(
+      `ALTER TABLE \`question\` ${RESPONSE_COLUMNS.map((column) => `DROP COLUMN \`${column}\``).join(', ')}`,
+    );
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('question', 'response1')) return;
+
+    await queryRunner.query(
+      "ALTER TABLE `question` ADD `response1` varchar(255) NOT NULL DEFAULT '', ADD `response2` varchar(255) NOT NULL DEFAULT '', ADD `response3` varchar(255) NOT NULL DEFAULT '', ADD `response4` varchar(255) NOT NULL DEFAULT '', ADD `correctResponse` int NOT NULL DEFAULT 1",
+    );
+    // Seules les questions à quatre choix ont un équivalent
+    await queryRunner.query(
+      "UPDATE `question` SET `response1` = JSON_UNQUOTE(JSON_EXTRACT(`choices`, '$[0]')), `response2` = JSON_UNQUOTE(JSON_EXTRACT(`choices`, '$[1]')), `response3` = JSON_UNQUOTE(JSON_EXTRACT(`choices`, '$[2]')), `response4` = JSON_UNQUOTE(JSON_EXTRACT(`choices`, '$[3]')), `correctResponse` = JSON_EXTRACT(`correctAnswers`, '$[0]') WHERE JSON_LENGTH(`choices`) = 4",
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { slugify } from '../utils/slug';
+
+const THEMED_TABLES = ['question', 'event'];
+const FALLBACK_SLUG = 'divers';
+
+/**
+ * Thèmes en texte libre remplacés par des slugs du catalogue. Chaque thème
+ * encore inconnu devient une entrée du catalogue, pour que synchronize puisse
+ * poser les clés étrangères sur theme.slug.
+ */
+export class ThemeCatalogue1760781800000 implements MigrationInterface {
+  name = 'ThemeCatalogue1760781800000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    const tables: string[] = [];
+    for (const table of THEMED_TABLES) {
+      if (await queryRunner.hasTable(table)) tables.push(table);
+    }
+    if (tables.length === 0) return;
+
+    if (!(await queryRunner.hasTable('theme'))) {
+      await queryRunner.query(
+        'CREATE TABLE `theme` (`slug` varchar(64) NOT NULL, `name` varchar(100) NOT NULL, `description` text NULL, `icon` varchar(255) NULL, `active` tinyint NOT NULL DEFAULT 1, `translations` text NULL, `createdAt` datetime(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6), PRIMARY KEY (`slug`)) ENGINE=InnoDB',
+      );
+    }
+
+    for (const table of tables) {
+      const rows = (await queryRunner.query(
+        `SELECT DISTINCT \`theme\` FROM \`${table}\` WHERE \`theme\` NOT IN (SELECT \`slug\` FROM \`theme\`)`,
+      )) as { theme: string }[];
+      for (const { theme } of rows) {
+        const slug = slugify(theme).slice(0, 64) || FALLBACK_SLUG;
+        await queryRunner.query(
+          'INSERT IGNORE INTO `theme` (`slug`, `name`) VALUES (?, ?)',
+          [slug, theme.slice(0, 100) || slug],
+        );
+        await queryRunner.query(
+          `UPDATE \`${table}\` SET \`theme\` = ? WHERE \`theme\` = ?`,
+          [slug, theme],
+        );
+      }
+    }
+  }
+
+  // Les slugs restent en place : ils sont aussi des thèmes valides en texte libre
+  async down(): Promise<void> {}
+}
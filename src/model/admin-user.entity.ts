@@ -0,0 +1,39 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+
+export enum AdminRole {
+  Admin = 'admin',
+  // Gère les questions et les thèmes
+  Editor = 'editor',
+  // Consultation seule
+  Viewer = 'viewer',
+}
+
+@Entity('admin_user')
+export class AdminUser {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 255, unique: true })
+  email: string;
+
+  // Empreinte scrypt, jamais renvoyée par l'API
+  @Column({ length: 255, select: false })
+  passwordHash: string;
+
+  @Column({ type: 'enum', enum: AdminRole, default: AdminRole.Viewer })
+  role: AdminRole;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastLoginAt?: Date;
+}
@@ -0,0 +1,49 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum SuspicionReason {
+  // Réponse plus rapide que le seuil humain
+  FastAnswer = 'fast-answer',
+  // Même temps de réponse qu'un autre joueur de la même adresse IP
+  SharedTiming = 'shared-timing',
+}
+
+@Entity('answer_audit')
+@Index(['eventId', 'createdAt'])
+export class AnswerAudit {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 36 })
+  gameId: string;
+
+  @Column({ nullable: true })
+  eventId?: number;
+
+  @Column()
+  playerId: number;
+
+  @Column()
+  questionId: number;
+
+  @Column({ type: 'enum', enum: SuspicionReason })
+  reason: SuspicionReason;
+
+  @Column()
+  responseTimeMs: number;
+
+  @Column({ length: 64, nullable: true })
+  ip?: string;
+
+  // Contexte propre au motif (joueur au temps identique...)
+  @Column({ type: 'simple-json', nullable: true })
+  details?: Record<string, unknown>;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { GameResult } from './game-result.entity';
+import { Question } from './question.entity';
+import type { AnswerValue } from '../game/question-types';
+
+@Entity('answer_record')
+export class AnswerRecord {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  gameResultId: number;
+
+  @ManyToOne(() => GameResult, (result) => result.answers, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'gameResultId' })
+  gameResult: GameResult;
+
+  @Column()
+  playerId: number;
+
+  @Column({ nullable: true })
+  questionId?: number;
+
+  @ManyToOne(() => Question, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'questionId' })
+  question?: Question;
+
+  @Column()
+  round: number;
+
+  @Column({ type: 'simple-json', nullable: true })
+  chosenAnswer?: AnswerValue;
+
+  // Ordre dans lequel le joueur a vu les choix (numéros canoniques)
+  @Column({ type: 'simple-json', nullable: true })
+  choiceOrder?: number[];
+
+  @Column()
+  correct: boolean;
+
+  @Column({ default: 0 })
+  points: number;
+
+  @Column({ nullable: true })
+  responseTimeMs?: number;
+}
@@ -0,0 +1,20 @@
+import { Entity, Column, PrimaryColumn, OneToOne, JoinColumn } from 'typeorm';
+import { Event } from './event.entity';
+import type { QuizSnapshot } from '../types/quiz.interface';
+
+/** Dernier état connu de la partie d'un événement, écrasé à chaque question. */
+@Entity('event_snapshot')
+export class EventSnapshot {
+  @PrimaryColumn()
+  eventId: number;
+
+  @OneToOne(() => Event, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'eventId' })
+  event?: Event;
+
+  @Column({ type: 'json' })
+  state: QuizSnapshot;
+
+  @Column({ type: 'datetime' })
+  takenAt: Date;
+}
@@ -1,13 +1,44 @@
-import { Entity, Column, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Player } from './player.entity';
+import { Theme } from './theme.entity';
+import { ScoringMode } from '../game/scoring';
+import { DEFAULT_LIVES, GameMode } from '../game/game-modes';
+
+export enum EventStatus {
+  Scheduled = 'scheduled',
+  Lobby = 'lobby',
+  Running = 'running',
+  Completed = 'completed',
+  Cancelled = 'cancelled',
+  Expired = 'expired',
+}
+
+/** Que faire quand minPlayers n'est pas atteint à l'heure de départ. */
+export enum MinPlayersPolicy {
+  Cancel = 'cancel',
+  Postpone = 'postpone',
+  StartAnyway = 'start',
+}
 
 @Entity('event')
 export class Event {
   @PrimaryGeneratedColumn()
   id: number;
 
-  @Column()
+  // Slug du thème
+  @Column({ length: 64 })
   theme: string;
 
+  @ManyToOne(() => Theme, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'theme', referencedColumnName: 'slug' })
+  themeDetails?: Theme;
+
   @Column({ type: 'datetime' })
   startDate: Date;
 
@@ -15,14 +46,78 @@ export class Event {
   numberOfQuestions: number;
 
   @Column({ nullable: true })
-  winner?: string;
+  winnerId?: number;
 
-  @Column({ default: false })
-  isCompleted: boolean;
+  @ManyToOne(() => Player, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'winnerId' })
+  winner?: Player;
+
+  @Column({ type: 'enum', enum: EventStatus, default: EventStatus.Scheduled })
+  status: EventStatus;
+
+  @Column({ type: 'datetime', nullable: true })
+  lobbyOpenedAt?: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  startedAt?: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  completedAt?: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  cancelledAt?: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  expiredAt?: Date;
+
+  @Column({ nullable: true })
+  cancelReason?: string;
 
   @Column({ default: 2 })
   minPlayers: number;
 
+  @Column({
+    type: 'enum',
+    enum: MinPlayersPolicy,
+    default: MinPlayersPolicy.Cancel,
+  })
+  minPlayersPolicy: MinPlayersPolicy;
+
+  @Column({ default: 5 })
+  postponeMinutes: number;
+
+  @Column({ default: 1 })
+  maxPostpones: number;
+
+  @Column({ default: 0 })
+  postponeCount: number;
+
+  @Column({ default: 30 })
+  reconnectGraceSeconds: number;
+
+  @Column({ type: 'enum', enum: ScoringMode, default: ScoringMode.Classic })
+  scoringMode: ScoringMode;
+
+  @Column({ type: 'enum', enum: GameMode, default: GameMode.Elimination })
+  gameMode: GameMode;
+
+  // Utilisé par le mode à vies
+  @Column({ default: DEFAULT_LIVES })
+  lives: number;
+
+  // Questions de plus en plus difficiles au fil de l'événement
+  @Column({ default: false })
+  difficultyCurve: boolean;
+
+  // Ordre des choix propre à chaque joueur
   @Column({ default: false })
-  lobbyOpen: boolean;
-}
\ No newline at end of file
+  shuffleChoices: boolean;
+
+  // Changements de réponse permis par question ; 0 = première réponse définitive
+  @Column({ default: 0 })
+  maxAnswerChanges: number;
+
+  // Durée d'affichage de la correction entre deux questions
+  @Column({ default: 5 })
+  revealSeconds: number;
+}
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Player } from './player.entity';
+import { Event } from './event.entity';
+import { AnswerRecord } from './answer-record.entity';
+import { ScoringMode } from '../game/scoring';
+import { GameMode } from '../game/game-modes';
+
+@Entity('game_result')
+export class GameResult {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ length: 36 })
+  gameId: string;
+
+  @Column()
+  roomId: string;
+
+  @Column()
+  playerId: number;
+
+  @ManyToOne(() => Player, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'playerId' })
+  player: Player;
+
+  @Column({ nullable: true })
+  eventId?: number;
+
+  @ManyToOne(() => Event, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'eventId' })
+  event?: Event;
+
+  @Column({ nullable: true })
+  theme?: string;
+
+  @Column({ type: 'enum', enum: ScoringMode, default: ScoringMode.Classic })
+  scoringMode: ScoringMode;
+
+  @Column({ type: 'enum', enum: GameMode, default: GameMode.Elimination })
+  gameMode: GameMode;
+
+  @Column()
+  score: number;
+
+  @Column()
+  rank: number;
+
+  @Column({ default: false })
+  isWinner: boolean;
+
+  @Column()
+  totalQuestions: number;
+
+  @Column({ default: 0 })
+  joinedAt: number;
+
+  @Column({ nullable: true })
+  eliminatedAtRound?: number;
+
+  @CreateDateColumn()
+  playedAt: Date;
+
+  @OneToMany(() => AnswerRecord, (answer) => answer.gameResult, {
+    cascade: true,
+  })
+  answers: AnswerRecord[];
+}
@@ -0,0 +1,24 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity('player')
+export class Player {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 32 })
+  nickname: string;
+
+  @Column({ length: 64, unique: true, select: false })
+  token: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastSeenAt?: Date;
+}
@@ -1,28 +1,96 @@
-import { Entity, Column, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  DeleteDateColumn,
+} from 'typeorm';
+import { Theme } from './theme.entity';
+
+export enum QuestionType {
+  TrueFalse = 'true-false',
+  SingleChoice = 'single-choice',
+  MultiSelect = 'multi-select',
+  Numeric = 'numeric',
+  FreeText = 'free-text',
+}
+
+export interface QuestionTranslation {
+  questionText: string;
+  // Mêmes choix, dans le même ordre que l'original
+  choices?: string[];
+  // Ajoutées aux réponses acceptées, quelle que soit la langue du joueur
+  acceptedAnswers?: string[];
+}
+
+export enum QuestionDifficulty {
+  Easy = 'easy',
+  Medium = 'medium',
+  Hard = 'hard',
+}
 
 @Entity('question')
 export class Question {
   @PrimaryGeneratedColumn()
   id: number;
 
-  @Column()
+  // Identifiant côté équipe contenu, clé des imports
+  @Column({ length: 64, nullable: true, unique: true })
+  externalId?: string;
+
+  // Slug du thème
+  @Column({ length: 64 })
   theme: string;
 
+  @ManyToOne(() => Theme, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'theme', referencedColumnName: 'slug' })
+  themeDetails?: Theme;
+
+  @Column({
+    type: 'enum',
+    enum: QuestionType,
+    default: QuestionType.SingleChoice,
+  })
+  type: QuestionType;
+
+  @Column({
+    type: 'enum',
+    enum: QuestionDifficulty,
+    default: QuestionDifficulty.Medium,
+  })
+  difficulty: QuestionDifficulty;
+
+  @Column({ type: 'simple-array', nullable: true })
+  tags?: string[];
+
   @Column({ type: 'text' })
   questionText: string;
 
-  @Column()
-  response1: string;
+  // Choix proposés (types à choix), numérotés à partir de 1
+  @Column({ type: 'simple-json', nullable: true })
+  choices?: string[];
+
+  // Numéros des bonnes réponses (types à choix)
+  @Column({ type: 'simple-json', nullable: true })
+  correctAnswers?: number[];
+
+  @Column({ type: 'double', nullable: true })
+  numericAnswer?: number;
 
-  @Column()
-  response2: string;
+  // Écart toléré pour une réponse numérique, en plus de la plus proche
+  @Column({ type: 'double', nullable: true })
+  tolerance?: number;
 
-  @Column()
-  response3: string;
+  // Réponses acceptées pour le texte libre, comparées après normalisation
+  @Column({ type: 'simple-json', nullable: true })
+  acceptedAnswers?: string[];
 
-  @Column()
-  response4: string;
+  // Contenu par locale (« en », « es »...) ; l'original est en français
+  @Column({ type: 'simple-json', nullable: true })
+  translations?: Record<string, QuestionTranslation>;
 
-  @Column()
-  correctResponse: number;
+  // Suppression logique : les résultats passés gardent leur question
+  @DeleteDateColumn({ nullable: true })
+  deletedAt?: Date | null;
 }
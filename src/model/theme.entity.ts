@@ -0,0 +1,33 @@
+import { Entity, Column, PrimaryColumn, CreateDateColumn } from 'typeorm';
+
+export interface ThemeTranslation {
+  name?: string;
+  description?: string;
+}
+
+@Entity('theme')
+export class Theme {
+  // Référencé par question.theme et event.theme
+  @PrimaryColumn({ length: 64 })
+  slug: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  // Emoji ou URL d'icône
+  @Column({ nullable: true })
+  icon?: string;
+
+  @Column({ default: true })
+  active: boolean;
+
+  // Nom et description par locale (« en », « es »...)
+  @Column({ type: 'simple-json', nullable: true })
+  translations?: Record<string, ThemeTranslation>;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,82 @@
+import { socketValidationPipe } from './socket-validation.pipe';
+import { SocketException } from '../filter/socket.exception';
+import { MessageCode } from '../i18n/messages';
+import { StartQuizDto } from '../dto/start-quiz.dto';
+import { SubmitAnswerDto } from '../dto/submit-answer.dto';
+import { JoinLobbyDto } from '../dto/join-lobby.dto';
+import { GameMode } from '../game/game-modes';
+
+const validate = (metatype: new () => object, value: unknown) =>
+  socketValidationPipe.transform(value, { type: 'body', metatype });
+
+// Refus attendu : le code du message et la liste des contraintes violées
+const rejection = async (metatype: new () => object, value: unknown) => {
+  const error: unknown = await validate(metatype, value).catch(
+    (caught: unknown) => caught,
+  );
+  expect(error).toBeInstanceOf(SocketException);
+  const { code, details } = error as SocketException;
+  expect(code).toBe(MessageCode.InvalidPayload);
+  return details;
+};
+
+describe('socketValidationPipe', () => {
+  describe('startQuiz', () => {
+    it('accepte une partie paramétrée et retire les champs inconnus', async () => {
+      await expect(
+        validate(StartQuizDto, {
+          theme: 'histoire',
+          limit: 10,
+          gameMode: GameMode.Lives,
+          lives: 3,
+          admin: true,
+        }),
+      ).resolves.toEqual({
+        theme: 'histoire',
+        limit: 10,
+        gameMode: GameMode.Lives,
+        lives: 3,
+      });
+      await expect(validate(StartQuizDto, {})).resolves.toEqual({});
+    });
+
+    it('refuse les valeurs hors bornes', async () => {
+      await expect(
+        rejection(StartQuizDto, { limit: 100_000 }),
+      ).resolves.toHaveLength(1);
+      await expect(
+        rejection(StartQuizDto, { timeLimit: 1, gameMode: 'relais' }),
+      ).resolves.toHaveLength(2);
+    });
+  });
+
+  describe('submitAnswer', () => {
+    it.each([[3], [[1, 2]], [1789.5], ['Victor Hugo']])(
+      'accepte la réponse %j',
+      async (answer) => {
+        await expect(
+          validate(SubmitAnswerDto, { questionId: 1, answer }),
+        ).resolves.toEqual({ questionId: 1, answer });
+      },
+    );
+
+    it.each([[null], ['   '], ['x'.repeat(201)], [[]], [[0]], [[1.5]]])(
+      'refuse la réponse %j',
+      async (answer) => {
+        await rejection(SubmitAnswerDto, { questionId: 1, answer });
+      },
+    );
+
+    it('exige une question identifiée', async () => {
+      await rejection(SubmitAnswerDto, { questionId: '1', answer: 1 });
+    });
+  });
+
+  it('joinLobby : exige un identifiant d’événement', async () => {
+    await expect(validate(JoinLobbyDto, { eventId: 4 })).resolves.toEqual({
+      eventId: 4,
+    });
+    await rejection(JoinLobbyDto, { eventId: 0 });
+    await rejection(JoinLobbyDto, undefined);
+  });
+});
@@ -0,0 +1,24 @@
+import { ValidationError, ValidationPipe } from '@nestjs/common';
+import { SocketException } from '../filter/socket.exception';
+import { MessageCode } from '../i18n/messages';
+
+function listConstraints(errors: ValidationError[]): string[] {
+  return errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}),
+    ...listConstraints(error.children ?? []),
+  ]);
+}
+
+/** Validation des messages WebSocket, refusés avec le code INVALID_PAYLOAD. */
+export const socketValidationPipe = new ValidationPipe({
+  whitelist: true,
+  transform: true,
+  exceptionFactory: (errors) => {
+    const details = listConstraints(errors);
+    return new SocketException(
+      MessageCode.InvalidPayload,
+      { details: details.join(', ') },
+      details,
+    );
+  },
+});
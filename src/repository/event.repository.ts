@@ -1,15 +1,21 @@
-import { Repository } from 'typeorm';
-import { Event } from '../model/event.entity';
+import { In, Repository } from 'typeorm';
+import { Event, EventStatus } from '../model/event.entity';
 
 export class EventRepository extends Repository<Event> {
   async findActiveEvents(): Promise<Event[]> {
     return this.find({
-      where: { isCompleted: false },
-      order: { startDate: 'ASC' }
+      where: {
+        status: In([
+          EventStatus.Scheduled,
+          EventStatus.Lobby,
+          EventStatus.Running,
+        ]),
+      },
+      order: { startDate: 'ASC' },
     });
   }
 
   async findByTheme(theme: string): Promise<Event[]> {
     return this.find({ where: { theme } });
   }
-}
\ No newline at end of file
+}
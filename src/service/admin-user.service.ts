@@ -0,0 +1,95 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AdminRole, AdminUser } from '../model/admin-user.entity';
+import { CreateAdminUserDto } from '../dto/create-admin-user.dto';
+import { UpdateAdminUserDto } from '../dto/update-admin-user.dto';
+import { authConfig } from '../config/auth.config';
+import { hashPassword } from '../utils/password';
+
+@Injectable()
+export class AdminUserService {
+  constructor(
+    @InjectRepository(AdminUser)
+    private readonly adminUserRepository: Repository<AdminUser>,
+  ) {}
+
+  async onApplicationBootstrap() {
+    const { initialAdminEmail, initialAdminPassword } = authConfig;
+    if ((await this.adminUserRepository.count()) > 0) return;
+    if (!initialAdminEmail || !initialAdminPassword) {
+      console.warn(
+        'Aucun compte administrateur - définir ADMIN_EMAIL et ADMIN_PASSWORD',
+      );
+      return;
+    }
+    await this.create({
+      email: initialAdminEmail,
+      password: initialAdminPassword,
+      role: AdminRole.Admin,
+    });
+    console.log(`Compte administrateur ${initialAdminEmail} créé`);
+  }
+
+  async findAll(): Promise<AdminUser[]> {
+    return this.adminUserRepository.find({ order: { email: 'ASC' } });
+  }
+
+  async findActive(id: number): Promise<AdminUser | null> {
+    return this.adminUserRepository.findOne({ where: { id, active: true } });
+  }
+
+  /** Compte avec son empreinte de mot de passe, pour la connexion. */
+  async findForLogin(email: string): Promise<AdminUser | null> {
+    return this.adminUserRepository
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.email = :email', { email: email.toLowerCase() })
+      .getOne();
+  }
+
+  async create(createAdminUserDto: CreateAdminUserDto): Promise<AdminUser> {
+    const { password, ...data } = createAdminUserDto;
+    const email = data.email.toLowerCase();
+    if (await this.adminUserRepository.exists({ where: { email } })) {
+      throw new ConflictException(`Le compte ${email} existe déjà`);
+    }
+    const saved = await this.adminUserRepository.save(
+      this.adminUserRepository.create({
+        ...data,
+        email,
+        passwordHash: await hashPassword(password),
+      }),
+    );
+    return this.findOneOrFail(saved.id);
+  }
+
+  async update(
+    id: number,
+    updateAdminUserDto: UpdateAdminUserDto,
+  ): Promise<AdminUser> {
+    await this.findOneOrFail(id);
+    const { password, ...data } = updateAdminUserDto;
+    await this.adminUserRepository.update(id, {
+      ...data,
+      ...(password && { passwordHash: await hashPassword(password) }),
+    });
+    return this.findOneOrFail(id);
+  }
+
+  async touchLogin(id: number): Promise<void> {
+    await this.adminUserRepository.update(id, { lastLoginAt: new Date() });
+  }
+
+  private async findOneOrFail(id: number): Promise<AdminUser> {
+    const user = await this.adminUserRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`Compte ${id} introuvable`);
+    }
+    return user;
+  }
+}
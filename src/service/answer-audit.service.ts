@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AnswerAudit } from '../model/answer-audit.entity';
+import { ListAnswerAuditsQueryDto } from '../dto/list-answer-audits-query.dto';
+import type { Paginated } from '../types';
+
+@Injectable()
+export class AnswerAuditService {
+  constructor(
+    @InjectRepository(AnswerAudit)
+    private readonly answerAuditRepository: Repository<AnswerAudit>,
+  ) {}
+
+  async record(entries: Partial<AnswerAudit>[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.answerAuditRepository.save(
+      entries.map((entry) => this.answerAuditRepository.create(entry)),
+    );
+  }
+
+  async findAll(
+    query: ListAnswerAuditsQueryDto,
+  ): Promise<Paginated<AnswerAudit>> {
+    const { eventId, playerId, gameId, reason, page, limit } = query;
+    const [items, total] = await this.answerAuditRepository.findAndCount({
+      where: { eventId, playerId, gameId, reason },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { items, total, page, limit };
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { AdminUserService } from './admin-user.service';
+import { AdminUser } from '../model/admin-user.entity';
+import { LoginDto } from '../dto/login.dto';
+import { authConfig } from '../config/auth.config';
+import { clusterConfig } from '../config/cluster.config';
+import { signJwt, verifyJwt } from '../utils/jwt';
+import { hashPassword, verifyPassword } from '../utils/password';
+import type {
+  AccessTokenPayload,
+  AuthenticatedAdmin,
+  LoginResponse,
+} from '../types';
+
+@Injectable()
+export class AuthService {
+  private readonly secret: string;
+  // Comparée quand l'e-mail est inconnu : même coût scrypt qu'un vrai compte,
+  // la durée de la réponse ne révèle pas les adresses enregistrées
+  private readonly unknownUserHash = hashPassword(
+    randomBytes(16).toString('hex'),
+  );
+
+  constructor(private readonly adminUserService: AdminUserService) {
+    this.secret = authConfig.jwtSecret;
+    if (!this.secret && clusterConfig.redisUrl) {
+      // Chaque instance tirerait son secret : un jeton ne vaudrait que sur l'une d'elles
+      throw new Error('JWT_SECRET est requis quand REDIS_URL est défini');
+    }
+    if (!this.secret) {
+      // Les jetons émis ne survivent pas à un redémarrage
+      this.secret = randomBytes(32).toString('hex');
+      console.warn('JWT_SECRET absent - secret aléatoire utilisé');
+    }
+  }
+
+  async login(loginDto: LoginDto): Promise<LoginResponse> {
+    const user = await this.adminUserService.findForLogin(loginDto.email);
+    const valid = await verifyPassword(
+      loginDto.password,
+      user?.passwordHash ?? (await this.unknownUserHash),
+    );
+    if (!user?.active || !valid) {
+      throw new UnauthorizedException('Identifiants invalides');
+    }
+
+    await this.adminUserService.touchLogin(user.id);
+    const payload: AccessTokenPayload = { sub: user.id, role: user.role };
+    return {
+      accessToken: signJwt(
+        payload,
+        this.secret,
+        authConfig.jwtExpiresInSeconds,
+      ),
+      tokenType: 'Bearer',
+      expiresIn: authConfig.jwtExpiresInSeconds,
+      user: this.toAuthenticated(user),
+    };
+  }
+
+  /**
+   * Compte correspondant à un jeton valide. Le rôle est relu en base : un
+   * compte désactivé ou rétrogradé l'est immédiatement.
+   */
+  async authenticate(token: string): Promise<AuthenticatedAdmin | null> {
+    const payload = verifyJwt<AccessTokenPayload>(token, this.secret);
+    if (!payload) return null;
+    const user = await this.adminUserService.findActive(payload.sub);
+    return user ? this.toAuthenticated(user) : null;
+  }
+
+  private toAuthenticated(user: AdminUser): AuthenticatedAdmin {
+    return { id: user.id, email: user.email, role: user.role };
+  }
+}
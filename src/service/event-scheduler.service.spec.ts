@@ -0,0 +1,177 @@
+import { Subject } from 'rxjs';
+import {
+  EventSchedulerListener,
+  EventSchedulerService,
+} from './event-scheduler.service';
+import { LeaderElectionService } from './leader-election.service';
+import { ManualClock } from '../game/manual-clock';
+import { InMemoryStateStore } from '../store/in-memory-state-store';
+import { clusterConfig } from '../config/cluster.config';
+import { Event, EventStatus } from '../model/event.entity';
+import type { EventChange } from '../types';
+
+const LEASE_MS = clusterConfig.leaderLeaseMs;
+
+describe('EventSchedulerService', () => {
+  let clock: ManualClock;
+  let store: InMemoryStateStore;
+  let leaders: LeaderElectionService;
+  // Instance voisine : son horloge n'avance pas, elle cesse donc de prolonger
+  // ses baux comme si elle s'était arrêtée
+  let other: LeaderElectionService;
+  let events: Map<number, Event>;
+  let eventService: Record<string, jest.Mock | Subject<EventChange>>;
+  let openLobby: jest.Mock;
+  let recoverEvent: jest.Mock;
+  let scheduler: EventSchedulerService;
+
+  const event = (id: number, status: EventStatus, startsIn: number) => {
+    const created = {
+      id,
+      theme: 'histoire',
+      status,
+      startDate: new Date(clock.now() + startsIn),
+    } as Event;
+    events.set(id, created);
+    return created;
+  };
+
+  const byStatus = (...statuses: EventStatus[]) =>
+    jest.fn(() =>
+      Promise.resolve(
+        [...events.values()].filter((candidate) =>
+          statuses.includes(candidate.status),
+        ),
+      ),
+    );
+
+  const stateOf = (eventId: number) =>
+    scheduler.getSchedule().find((info) => info.eventId === eventId)?.state;
+
+  beforeEach(() => {
+    clock = new ManualClock();
+    store = new InMemoryStateStore(clock);
+    leaders = new LeaderElectionService(store, clock, 'instance-a');
+    other = new LeaderElectionService(store, new ManualClock(), 'instance-b');
+    events = new Map();
+    eventService = {
+      changes: new Subject<EventChange>(),
+      findMissedEvents: jest.fn(() =>
+        Promise.resolve(
+          [...events.values()].filter(
+            (candidate) =>
+              [EventStatus.Scheduled, EventStatus.Lobby].includes(
+                candidate.status,
+              ) && candidate.startDate.getTime() <= clock.now(),
+          ),
+        ),
+      ),
+      expireEvent: jest.fn((expired: Event) => {
+        expired.status = EventStatus.Expired;
+        return Promise.resolve(expired);
+      }),
+      findPendingEvents: byStatus(EventStatus.Scheduled),
+      findRunningEvents: byStatus(EventStatus.Running),
+      findOne: jest.fn((id: number) => Promise.resolve(events.get(id) ?? null)),
+    };
+    openLobby = jest.fn();
+    // Reprise possible dès que la room de l'événement est libre
+    recoverEvent = jest.fn((recovered: Event) =>
+      leaders.acquire(LeaderElectionService.roomKey(`event-${recovered.id}`)),
+    );
+    const listener: EventSchedulerListener = {
+      openLobby,
+      lobbyEventChanged: jest.fn(),
+      scheduleChanged: jest.fn(),
+      leadershipLost: jest.fn(),
+      recoverEvent,
+    };
+    scheduler = new EventSchedulerService(
+      eventService as never,
+      leaders,
+      clock,
+      store,
+      'instance-a',
+    );
+    scheduler.setListener(listener);
+  });
+
+  afterEach(async () => {
+    await scheduler.onModuleDestroy();
+    await leaders.onModuleDestroy();
+    await other.onModuleDestroy();
+    await store.close();
+  });
+
+  it("n'expire au démarrage que les lobbies manqués que personne ne tient", async () => {
+    event(1, EventStatus.Lobby, -1000);
+    event(2, EventStatus.Lobby, -1000);
+    event(3, EventStatus.Scheduled, -1000);
+    // Lobby ouvert ailleurs, et partie en train de démarrer ailleurs
+    await other.acquire(LeaderElectionService.eventKey(1));
+    await other.acquire(LeaderElectionService.roomKey('event-2'));
+
+    await scheduler.onApplicationBootstrap();
+
+    expect(eventService.expireEvent).toHaveBeenCalledTimes(1);
+    expect(events.get(3)?.status).toBe(EventStatus.Expired);
+    expect(events.get(1)?.status).toBe(EventStatus.Lobby);
+  });
+
+  it("reprend une partie en cours quand l'instance qui la pilote disparaît", async () => {
+    event(7, EventStatus.Running, -60_000);
+    await other.acquire(LeaderElectionService.roomKey('event-7'));
+
+    await scheduler.onApplicationBootstrap();
+    expect(stateOf(7)).toBe('standby');
+
+    // Tant que la voisine prolonge son bail (ici jusqu'à son échéance), on attend
+    await clock.advance(LEASE_MS - 1);
+    expect(stateOf(7)).toBe('standby');
+
+    await clock.advance(LEASE_MS);
+    expect(recoverEvent).toHaveBeenCalledTimes(2);
+    expect(stateOf(7)).toBe('running');
+  });
+
+  it('garde en attente un lobby qui démarre sur une autre instance', async () => {
+    const lobby = event(5, EventStatus.Scheduled, 60_000);
+    // Voisine en vie : elle prolonge son bail sur la même horloge
+    const alive = new LeaderElectionService(store, clock, 'instance-c');
+    await alive.acquire(LeaderElectionService.eventKey(5));
+    await scheduler.onApplicationBootstrap();
+
+    // Bail de l'événement tenu ailleurs : ce lobby n'ouvre pas ici
+    await clock.advance(60_000);
+    expect(openLobby).not.toHaveBeenCalled();
+    expect(stateOf(5)).toBe('standby');
+
+    lobby.status = EventStatus.Running;
+    (eventService.changes as Subject<EventChange>).next({
+      type: 'updated',
+      eventId: 5,
+      event: lobby,
+    });
+    await clock.advance(0);
+    expect(stateOf(5)).toBe('standby');
+    await alive.onModuleDestroy();
+  });
+
+  it('journalise une relecture en échec et réessaie plus tard', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation();
+    event(7, EventStatus.Running, -60_000);
+    await other.acquire(LeaderElectionService.roomKey('event-7'));
+    await scheduler.onApplicationBootstrap();
+
+    (eventService.findOne as jest.Mock).mockRejectedValueOnce(
+      new Error('base indisponible'),
+    );
+    await clock.advance(LEASE_MS);
+    expect(error).toHaveBeenCalled();
+    expect(stateOf(7)).toBe('standby');
+
+    await clock.advance(LEASE_MS);
+    expect(stateOf(7)).toBe('running');
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,420 @@
+import {
+  Inject,
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { EventService } from './event.service';
+import { LeaderElectionService } from './leader-election.service';
+import { RoomRegistryService } from './room-registry.service';
+import { Event, EventStatus } from '../model/event.entity';
+import { GAME_CLOCK } from '../game/clock';
+import type { GameClock, TimerHandle } from '../game/clock';
+import { INSTANCE_ID, STATE_STORE } from '../store/state-store';
+import type { StateStore } from '../store/state-store';
+import { clusterConfig } from '../config/cluster.config';
+import type {
+  EventChange,
+  ScheduleState,
+  ScheduledEventInfo,
+} from '../types/event.interface';
+
+export const LOBBY_LEAD_TIME_MS = 5 * 60 * 1000;
+// setTimeout ne supporte pas de délai au-delà de ~24,8 jours
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// Modifications d'événements faites sur une instance, relayées aux autres
+const EVENT_CHANGES_CHANNEL = 'event-changes';
+
+export interface EventSchedulerListener {
+  openLobby(event: Event): void | Promise<void>;
+  lobbyEventChanged(change: EventChange): void | Promise<void>;
+  scheduleChanged(): void;
+  // Le bail de l'événement a expiré : une autre instance peut le reprendre
+  leadershipLost(eventId: number): void;
+  // Partie interrompue par un arrêt, ici ou chez son leader : vrai si elle
+  // reprend (ou se poursuit) sur cette instance
+  recoverEvent(event: Event): Promise<boolean>;
+}
+
+interface SharedEventChange {
+  origin: string;
+  type: EventChange['type'];
+  eventId: number;
+}
+
+interface ScheduleEntry {
+  event: Event;
+  state: ScheduleState;
+  timer?: TimerHandle;
+}
+
+/**
+ * Suit tous les événements à venir et ouvre leur lobby au bon moment.
+ * Le GatewayService s'enregistre comme listener et prend le relais à
+ * l'ouverture du lobby. Chaque instance planifie tous les événements, mais
+ * seule celle qui obtient le bail de l'événement ouvre son lobby ; les autres
+ * restent en attente pour reprendre le lobby, ou la partie lancée depuis sa
+ * dernière sauvegarde, si elle disparaît.
+ */
+@Injectable()
+export class EventSchedulerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private entries = new Map<number, ScheduleEntry>();
+  private listener?: EventSchedulerListener;
+  private changesSubscription?: Subscription;
+  private unsubscribeShared?: () => Promise<void>;
+
+  constructor(
+    private readonly eventService: EventService,
+    private readonly leaders: LeaderElectionService,
+    @Inject(GAME_CLOCK) private readonly clock: GameClock,
+    @Inject(STATE_STORE) private readonly store: StateStore,
+    @Inject(INSTANCE_ID) private readonly instanceId: string,
+  ) {}
+
+  setListener(listener: EventSchedulerListener) {
+    this.listener = listener;
+  }
+
+  async onApplicationBootstrap() {
+    const missed = await this.expireMissedEvents();
+    if (missed.length > 0) {
+      console.log(
+        `Événements expirés pendant l'arrêt du serveur: ${missed.map((e) => e.id).join(', ')}`,
+      );
+    }
+
+    this.changesSubscription = this.eventService.changes.subscribe((change) => {
+      this.handleChange(change).catch((error) => {
+        console.error(`Changement de l'événement ${change.eventId}:`, error);
+      });
+      void this.shareChange(change);
+    });
+    this.unsubscribeShared = await this.store.subscribe(
+      EVENT_CHANGES_CHANNEL,
+      (message) => void this.handleSharedChange(message),
+    );
+    await this.reload();
+    await this.recoverRunningEvents();
+  }
+
+  async onModuleDestroy() {
+    this.changesSubscription?.unsubscribe();
+    await this.unsubscribeShared?.();
+    this.entries.forEach((entry) => this.clearTimer(entry));
+    this.entries.clear();
+  }
+
+  async reload() {
+    const pending = await this.eventService.findPendingEvents();
+    this.entries.forEach((entry, eventId) => {
+      if (entry.state === 'scheduled' || entry.state === 'standby') {
+        this.clearTimer(entry);
+        this.entries.delete(eventId);
+      }
+    });
+    pending.forEach((event) => this.plan(event));
+    this.listener?.scheduleChanged();
+  }
+
+  getSchedule(): ScheduledEventInfo[] {
+    return Array.from(this.entries.values())
+      .map(({ event, state }) => ({
+        eventId: event.id,
+        theme: event.theme,
+        lobbyOpensAt: new Date(this.getLobbyOpensAt(event)),
+        startsAt: new Date(event.startDate),
+        state,
+      }))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  markRunning(eventId: number) {
+    const entry = this.entries.get(eventId);
+    if (entry) entry.state = 'running';
+  }
+
+  /** Met à jour l'événement suivi sans le replanifier (lobby repoussé). */
+  syncEvent(event: Event) {
+    const entry = this.entries.get(event.id);
+    if (!entry) return;
+    entry.event = event;
+    this.listener?.scheduleChanged();
+  }
+
+  requeue(event: Event) {
+    // Le lobby rouvrira chez la première instance qui reprendra le bail
+    void this.releaseLeadership(event.id);
+    this.plan(event);
+    this.listener?.scheduleChanged();
+  }
+
+  release(eventId: number) {
+    void this.releaseLeadership(eventId);
+    const entry = this.entries.get(eventId);
+    if (!entry) return;
+    this.clearTimer(entry);
+    this.entries.delete(eventId);
+    this.listener?.scheduleChanged();
+  }
+
+  /**
+   * Lobby qui n'a pas pu démarrer ici (room tenue ailleurs) : le bail est
+   * rendu et l'événement sera repris par la prochaine instance qui l'obtient.
+   */
+  handOff(eventId: number) {
+    void this.releaseLeadership(eventId);
+    const entry = this.entries.get(eventId);
+    if (!entry) return;
+    this.standBy(entry);
+  }
+
+  /**
+   * Événements manqués pendant l'arrêt de l'instance. Un lobby dont une autre
+   * instance tient encore le bail est en train de démarrer : il n'expire pas.
+   */
+  private async expireMissedEvents(): Promise<Event[]> {
+    const expired: Event[] = [];
+    for (const event of await this.eventService.findMissedEvents()) {
+      const holders = await Promise.all([
+        this.leaders.holder(LeaderElectionService.eventKey(event.id)),
+        this.leaders.holder(
+          LeaderElectionService.roomKey(
+            RoomRegistryService.eventRoomId(event.id),
+          ),
+        ),
+      ]);
+      if (holders.some(Boolean)) continue;
+      expired.push(await this.eventService.expireEvent(event));
+    }
+    return expired;
+  }
+
+  // Parties en cours au démarrage : reprises ici, closes, ou surveillées
+  private async recoverRunningEvents() {
+    const running = await this.eventService.findRunningEvents();
+    for (const event of running) {
+      const entry: ScheduleEntry = { event, state: 'standby' };
+      this.entries.set(event.id, entry);
+      await this.takeOverRunningEvent(entry);
+    }
+    if (running.length > 0) this.listener?.scheduleChanged();
+  }
+
+  /**
+   * Reprise d'une partie lancée par une autre instance, possible seulement
+   * quand celle-ci a perdu le bail de sa room. Sinon, nouvel essai plus tard.
+   */
+  private async takeOverRunningEvent(entry: ScheduleEntry) {
+    const eventId = entry.event.id;
+    let recovered = false;
+    try {
+      recovered = (await this.listener?.recoverEvent(entry.event)) ?? false;
+    } catch (error) {
+      console.error(`Reprise de l'événement ${eventId} impossible:`, error);
+    }
+    if (this.entries.get(eventId) !== entry) return;
+    if (recovered) {
+      entry.state = 'running';
+      this.listener?.scheduleChanged();
+    } else {
+      this.standBy(entry);
+    }
+  }
+
+  private async handleChange(change: EventChange) {
+    const entry = this.entries.get(change.eventId);
+    // Un événement déjà en lobby est piloté par le gateway, qui peut le
+    // rendre au planificateur via requeue()
+    if (entry?.state === 'lobby') {
+      await this.listener?.lobbyEventChanged(change);
+      return;
+    }
+    if (entry?.state === 'running') return;
+    // Une instance en attente suit les changements comme un événement planifié
+
+    if (change.type === 'deleted') {
+      this.release(change.eventId);
+      return;
+    }
+
+    const event =
+      change.event ?? (await this.eventService.findOne(change.eventId));
+    // Partie lancée ailleurs : surveillée pour la reprendre si son leader disparaît
+    if (event?.status === EventStatus.Running) {
+      if (entry) this.standBy(entry);
+      return;
+    }
+    if (
+      !event ||
+      ![EventStatus.Scheduled, EventStatus.Lobby].includes(event.status)
+    ) {
+      this.release(change.eventId);
+      return;
+    }
+    this.plan(event);
+    this.listener?.scheduleChanged();
+  }
+
+  private plan(event: Event) {
+    const existing = this.entries.get(event.id);
+    if (existing) this.clearTimer(existing);
+
+    if (new Date(event.startDate).getTime() <= this.clock.now()) {
+      this.entries.delete(event.id);
+      return;
+    }
+
+    const entry: ScheduleEntry = { event, state: 'scheduled' };
+    this.entries.set(event.id, entry);
+    this.armTimer(entry);
+  }
+
+  private armTimer(entry: ScheduleEntry) {
+    const delay = Math.max(
+      0,
+      this.getLobbyOpensAt(entry.event) - this.clock.now(),
+    );
+    entry.timer = this.clock.setTimeout(
+      () => {
+        if (this.entries.get(entry.event.id) !== entry) return;
+        if (delay > MAX_TIMER_DELAY_MS) {
+          this.armTimer(entry);
+          return;
+        }
+        entry.timer = undefined;
+        void this.claimLobby(entry);
+      },
+      Math.min(delay, MAX_TIMER_DELAY_MS),
+    );
+  }
+
+  /** Ouvre le lobby si cette instance devient leader de l'événement. */
+  private async claimLobby(entry: ScheduleEntry) {
+    const eventId = entry.event.id;
+    const key = LeaderElectionService.eventKey(eventId);
+    let leader = false;
+    try {
+      leader = await this.leaders.acquire(key, () =>
+        this.handleLeadershipLost(eventId),
+      );
+    } catch (error) {
+      console.error(`Élection du leader de l'événement ${eventId}:`, error);
+    }
+
+    if (this.entries.get(eventId) !== entry) {
+      if (leader) await this.leaders.release(key);
+      return;
+    }
+    if (leader) {
+      entry.state = 'lobby';
+      try {
+        await this.listener?.openLobby(entry.event);
+      } catch (error) {
+        console.error(`Ouverture du lobby ${eventId} impossible:`, error);
+      }
+      return;
+    }
+
+    entry.state = 'standby';
+    entry.timer = this.clock.setTimeout(
+      () => void this.retryClaim(entry),
+      clusterConfig.leaderLeaseMs,
+    );
+  }
+
+  // En attente : l'événement est repris s'il est à venir, en lobby ou en cours
+  private async retryClaim(entry: ScheduleEntry) {
+    entry.timer = undefined;
+    let event: Event | null;
+    try {
+      event = await this.eventService.findOne(entry.event.id);
+    } catch (error) {
+      // Nouvel essai au prochain tour d'attente
+      console.error(`Relecture de l'événement ${entry.event.id}:`, error);
+      if (this.entries.get(entry.event.id) === entry) this.standBy(entry);
+      return;
+    }
+    if (this.entries.get(entry.event.id) !== entry) return;
+    if (event?.status === EventStatus.Running) {
+      entry.event = event;
+      await this.takeOverRunningEvent(entry);
+      return;
+    }
+    if (
+      !event ||
+      ![EventStatus.Scheduled, EventStatus.Lobby].includes(event.status)
+    ) {
+      this.release(entry.event.id);
+      return;
+    }
+    entry.event = event;
+    await this.claimLobby(entry);
+  }
+
+  private handleLeadershipLost(eventId: number) {
+    this.listener?.leadershipLost(eventId);
+    const entry = this.entries.get(eventId);
+    if (!entry) return;
+    this.standBy(entry);
+  }
+
+  private standBy(entry: ScheduleEntry) {
+    this.clearTimer(entry);
+    entry.state = 'standby';
+    entry.timer = this.clock.setTimeout(
+      () => void this.retryClaim(entry),
+      clusterConfig.leaderLeaseMs,
+    );
+    this.listener?.scheduleChanged();
+  }
+
+  private async releaseLeadership(eventId: number) {
+    try {
+      await this.leaders.release(LeaderElectionService.eventKey(eventId));
+    } catch (error) {
+      console.error(`Libération du bail de l'événement ${eventId}:`, error);
+    }
+  }
+
+  private async shareChange({ type, eventId }: EventChange) {
+    const change: SharedEventChange = {
+      origin: this.instanceId,
+      type,
+      eventId,
+    };
+    try {
+      await this.store.publish(EVENT_CHANGES_CHANNEL, JSON.stringify(change));
+    } catch (error) {
+      console.error('Diffusion du changement aux autres instances:', error);
+    }
+  }
+
+  // L'événement est relu en base : l'entité ne circule pas entre instances
+  private async handleSharedChange(message: string) {
+    try {
+      const { origin, type, eventId } = JSON.parse(
+        message,
+      ) as SharedEventChange;
+      if (origin === this.instanceId) return;
+      const event =
+        type === 'deleted'
+          ? undefined
+          : ((await this.eventService.findOne(eventId)) ?? undefined);
+      await this.handleChange({ type, eventId, event });
+    } catch (error) {
+      console.error("Changement reçu d'une autre instance:", error);
+    }
+  }
+
+  private clearTimer(entry: ScheduleEntry) {
+    this.clock.clear(entry.timer);
+    entry.timer = undefined;
+  }
+
+  private getLobbyOpensAt(event: Event): number {
+    return new Date(event.startDate).getTime() - LOBBY_LEAD_TIME_MS;
+  }
+}
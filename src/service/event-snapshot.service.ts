@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventSnapshot } from '../model/event-snapshot.entity';
+import type { QuizSnapshot } from '../types';
+
+@Injectable()
+export class EventSnapshotService {
+  constructor(
+    @InjectRepository(EventSnapshot)
+    private readonly snapshotRepository: Repository<EventSnapshot>,
+  ) {}
+
+  // Une seule ligne par événement : la sauvegarde précédente est remplacée
+  async save(eventId: number, state: QuizSnapshot): Promise<void> {
+    await this.snapshotRepository.upsert(
+      { eventId, state, takenAt: new Date() },
+      ['eventId'],
+    );
+  }
+
+  async find(eventId: number): Promise<EventSnapshot | null> {
+    return this.snapshotRepository.findOne({ where: { eventId } });
+  }
+
+  async delete(eventId: number): Promise<void> {
+    await this.snapshotRepository.delete({ eventId });
+  }
+}
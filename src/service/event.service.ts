@@ -1,52 +1,314 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Event } from '../model/event.entity';
+import {
+  FindOptionsWhere,
+  In,
+  LessThanOrEqual,
+  MoreThan,
+  Repository,
+} from 'typeorm';
+import { Subject } from 'rxjs';
+import { Event, EventStatus } from '../model/event.entity';
+import { ThemeService } from './theme.service';
+import { GAME_CLOCK } from '../game/clock';
+import type { GameClock } from '../game/clock';
+import { CreateEventDto } from '../dto/create-event.dto';
+import { UpdateEventDto } from '../dto/update-event.dto';
+import { ListEventsQueryDto } from '../dto/list-events-query.dto';
+import type { EventChange, EventStatusFilter, Paginated } from '../types';
+
+// Transitions autorisées du cycle de vie d'un événement
+const EVENT_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  [EventStatus.Scheduled]: [
+    EventStatus.Lobby,
+    EventStatus.Cancelled,
+    EventStatus.Expired,
+  ],
+  [EventStatus.Lobby]: [
+    EventStatus.Running,
+    EventStatus.Scheduled,
+    EventStatus.Cancelled,
+    EventStatus.Expired,
+  ],
+  [EventStatus.Running]: [EventStatus.Completed, EventStatus.Cancelled],
+  [EventStatus.Completed]: [],
+  [EventStatus.Cancelled]: [],
+  [EventStatus.Expired]: [],
+};
+
+const STATUS_FILTERS: Record<EventStatusFilter, EventStatus[]> = {
+  upcoming: [EventStatus.Scheduled],
+  live: [EventStatus.Lobby, EventStatus.Running],
+  completed: [EventStatus.Completed],
+  cancelled: [EventStatus.Cancelled],
+  expired: [EventStatus.Expired],
+};
+
+const PENDING_STATUSES = [EventStatus.Scheduled, EventStatus.Lobby];
 
 @Injectable()
 export class EventService {
   constructor(
     @InjectRepository(Event)
     private readonly eventRepository: Repository<Event>,
+    private readonly themeService: ThemeService,
+    @Inject(GAME_CLOCK) private readonly clock: GameClock,
   ) {}
 
+  /** Flux des créations/modifications/suppressions, écouté par le planificateur. */
+  readonly changes = new Subject<EventChange>();
+
+  async findOne(id: number): Promise<Event | null> {
+    return this.eventRepository.findOne({ where: { id } });
+  }
+
+  async findOneOrFail(id: number): Promise<Event> {
+    const event = await this.eventRepository.findOne({
+      where: { id },
+      relations: { winner: true },
+    });
+    if (!event) {
+      throw new NotFoundException(`Événement ${id} introuvable`);
+    }
+    return event;
+  }
+
+  async findAll(query: ListEventsQueryDto): Promise<Paginated<Event>> {
+    const { status, page, limit } = query;
+    const where: FindOptionsWhere<Event> = status
+      ? { status: In(STATUS_FILTERS[status]) }
+      : {};
+
+    const [items, total] = await this.eventRepository.findAndCount({
+      where,
+      relations: { winner: true },
+      order: { startDate: status === 'completed' ? 'DESC' : 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { items, total, page, limit };
+  }
+
   async findActiveEvents(): Promise<Event[]> {
     return this.eventRepository.find({
-      where: { isCompleted: false },
-      order: { startDate: 'ASC' }
+      where: {
+        status: In([...PENDING_STATUSES, EventStatus.Running]),
+      },
+      order: { startDate: 'ASC' },
     });
   }
 
-  async completeEvent(eventId: number, winner: string): Promise<Event | null> {
-    await this.eventRepository.update(eventId, { 
-      winner, 
-      isCompleted: true 
+  async findPendingEvents(): Promise<Event[]> {
+    return this.eventRepository.find({
+      where: {
+        status: In(PENDING_STATUSES),
+        startDate: MoreThan(new Date(this.clock.now())),
+      },
+      order: { startDate: 'ASC' },
     });
-    return this.eventRepository.findOne({ where: { id: eventId } });
   }
 
-  async createEvent(theme: string, startDate: Date, numberOfQuestions: number, minPlayers: number = 2): Promise<Event> {
-    const event = this.eventRepository.create({
+  // Parties interrompues par un arrêt du serveur
+  async findRunningEvents(): Promise<Event[]> {
+    return this.eventRepository.find({
+      where: { status: EventStatus.Running },
+    });
+  }
+
+  // Heure de départ passée sans que la partie ait commencé
+  async findMissedEvents(): Promise<Event[]> {
+    return this.eventRepository.find({
+      where: {
+        status: In(PENDING_STATUSES),
+        startDate: LessThanOrEqual(new Date(this.clock.now())),
+      },
+    });
+  }
+
+  async expireEvent(event: Event): Promise<Event> {
+    return this.transition(event, EventStatus.Expired);
+  }
+
+  async createEvent(createEventDto: CreateEventDto): Promise<Event> {
+    const theme = await this.themeService.resolveSlug(createEventDto.theme);
+    await this.themeService.assertEnoughQuestions(
       theme,
-      startDate,
-      numberOfQuestions,
-      minPlayers
+      createEventDto.numberOfQuestions,
+    );
+
+    const event = this.eventRepository.create({ ...createEventDto, theme });
+    const saved = await this.eventRepository.save(event);
+    this.changes.next({ type: 'created', eventId: saved.id, event: saved });
+    return saved;
+  }
+
+  async updateEvent(
+    id: number,
+    updateEventDto: UpdateEventDto,
+  ): Promise<Event> {
+    const event = await this.findOneOrFail(id);
+    this.assertEditable(event);
+
+    const theme = updateEventDto.theme
+      ? await this.themeService.resolveSlug(updateEventDto.theme)
+      : event.theme;
+    if (updateEventDto.theme || updateEventDto.numberOfQuestions) {
+      await this.themeService.assertEnoughQuestions(
+        theme,
+        updateEventDto.numberOfQuestions ?? event.numberOfQuestions,
+      );
+    }
+
+    await this.eventRepository.update(id, { ...updateEventDto, theme });
+    const updated = await this.findOneOrFail(id);
+    this.changes.next({ type: 'updated', eventId: id, event: updated });
+    return updated;
+  }
+
+  async removeEvent(id: number): Promise<void> {
+    const event = await this.findOneOrFail(id);
+    if (event.status === EventStatus.Running) {
+      throw new ConflictException(
+        'Impossible de supprimer un événement en cours de partie',
+      );
+    }
+
+    await this.eventRepository.delete(id);
+    this.changes.next({ type: 'deleted', eventId: id });
+  }
+
+  async cancelEvent(id: number, reason?: string): Promise<Event> {
+    const event = await this.findOneOrFail(id);
+    this.assertEditable(event);
+
+    // Sans motif, les joueurs reçoivent un message traduit (EVENT_CANCELLED_BY_ADMIN)
+    const cancelled = await this.transition(event, EventStatus.Cancelled, {
+      cancelReason: reason,
     });
-    return this.eventRepository.save(event);
+    this.changes.next({ type: 'updated', eventId: id, event: cancelled });
+    return cancelled;
   }
 
   async getNextEvent(): Promise<Event | null> {
-    const now = new Date();
-    return this.eventRepository
-      .createQueryBuilder('event')
-      .where('event.isCompleted = :isCompleted', { isCompleted: false })
-      .andWhere('event.startDate > :now', { now })
-      .orderBy('event.startDate', 'ASC')
-      .getOne();
+    return this.eventRepository.findOne({
+      where: {
+        status: In(PENDING_STATUSES),
+        startDate: MoreThan(new Date(this.clock.now())),
+      },
+      order: { startDate: 'ASC' },
+    });
+  }
+
+  async openLobby(eventId: number): Promise<Event> {
+    return this.transition(
+      await this.findOneOrFail(eventId),
+      EventStatus.Lobby,
+    );
+  }
+
+  async closeLobby(eventId: number): Promise<Event> {
+    return this.transition(
+      await this.findOneOrFail(eventId),
+      EventStatus.Scheduled,
+    );
+  }
+
+  async startEvent(eventId: number): Promise<Event> {
+    return this.transition(
+      await this.findOneOrFail(eventId),
+      EventStatus.Running,
+    );
+  }
+
+  async completeEvent(
+    eventId: number,
+    winnerId: number | null,
+  ): Promise<Event> {
+    return this.transition(
+      await this.findOneOrFail(eventId),
+      EventStatus.Completed,
+      { winnerId: winnerId ?? undefined },
+    );
+  }
+
+  /** Repousse le départ d'un événement en lobby de postponeMinutes. */
+  async postponeEvent(eventId: number): Promise<Event> {
+    const event = await this.findOneOrFail(eventId);
+    if (event.status !== EventStatus.Lobby) {
+      throw new ConflictException(
+        `Seul un événement en lobby peut être repoussé (${event.status})`,
+      );
+    }
+
+    const startDate = new Date(
+      Math.max(new Date(event.startDate).getTime(), this.clock.now()) +
+        event.postponeMinutes * 60 * 1000,
+    );
+    await this.eventRepository.update(event.id, {
+      startDate,
+      postponeCount: event.postponeCount + 1,
+    });
+    return this.findOneOrFail(event.id);
+  }
+
+  /** Annulation décidée par le serveur (lobby vide, aucune question...). */
+  async abortEvent(eventId: number, reason: string): Promise<Event> {
+    return this.transition(
+      await this.findOneOrFail(eventId),
+      EventStatus.Cancelled,
+      { cancelReason: reason },
+    );
+  }
+
+  private async transition(
+    event: Event,
+    to: EventStatus,
+    patch: Partial<Event> = {},
+  ): Promise<Event> {
+    if (!EVENT_TRANSITIONS[event.status].includes(to)) {
+      throw new ConflictException(
+        `Transition invalide pour l'événement ${event.id}: ${event.status} -> ${to}`,
+      );
+    }
+
+    const now = new Date(this.clock.now());
+    const timestamps: Partial<Event> = {};
+    switch (to) {
+      case EventStatus.Lobby:
+        timestamps.lobbyOpenedAt = now;
+        break;
+      case EventStatus.Running:
+        timestamps.startedAt = now;
+        break;
+      case EventStatus.Completed:
+        timestamps.completedAt = now;
+        break;
+      case EventStatus.Cancelled:
+        timestamps.cancelledAt = now;
+        break;
+      case EventStatus.Expired:
+        timestamps.expiredAt = now;
+        break;
+    }
+
+    await this.eventRepository.update(event.id, {
+      ...patch,
+      ...timestamps,
+      status: to,
+    });
+    return this.findOneOrFail(event.id);
   }
 
-  async openLobby(eventId: number): Promise<Event | null> {
-    await this.eventRepository.update(eventId, { lobbyOpen: true });
-    return this.eventRepository.findOne({ where: { id: eventId } });
+  private assertEditable(event: Event) {
+    if (!PENDING_STATUSES.includes(event.status)) {
+      throw new ConflictException(
+        `L'événement ${event.id} n'est plus modifiable (${event.status})`,
+      );
+    }
   }
-}
\ No newline at end of file
+}
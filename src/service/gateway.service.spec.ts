@@ -0,0 +1,456 @@
+import { GatewayService } from './gateway.service';
+import { LeaderElectionService } from './leader-election.service';
+import { RoomRegistryService } from './room-registry.service';
+import { ManualClock } from '../game/manual-clock';
+import { GameMode } from '../game/game-modes';
+import { ScoringMode } from '../game/scoring';
+import { LobbyOutcome } from '../game/lobby-engine';
+import { InMemoryStateStore } from '../store/in-memory-state-store';
+import { gameConfig } from '../config/game.config';
+import { Event, EventStatus, MinPlayersPolicy } from '../model/event.entity';
+import { MessageCode, translate } from '../i18n/messages';
+import { Question, QuestionType } from '../model/question.entity';
+import type {
+  EventLobby,
+  PlayerEngagement,
+  QuizServer,
+  QuizSocket,
+} from '../types';
+
+const START: LobbyOutcome = { action: 'start', belowMinimum: false };
+
+const question = {
+  id: 1,
+  theme: 'histoire',
+  type: QuestionType.SingleChoice,
+  questionText: 'Question 1',
+  choices: ['A', 'B', 'C', 'D'],
+  correctAnswers: [1],
+} as Question;
+
+// Diffusions socket.io sans effet : seuls les effets en base sont vérifiés
+const createServer = () => {
+  const room = {
+    emit: jest.fn(),
+    disconnectSockets: jest.fn(),
+    socketsJoin: jest.fn(),
+    socketsLeave: jest.fn(),
+  };
+  return {
+    to: () => room,
+    in: () => room,
+    emit: jest.fn(),
+    on: jest.fn(),
+    serverSideEmit: jest.fn(),
+  } as unknown as QuizServer;
+};
+
+describe('GatewayService', () => {
+  let clock: ManualClock;
+  let store: InMemoryStateStore;
+  let leaders: LeaderElectionService;
+  let rooms: RoomRegistryService;
+  let event: Event;
+  let questions: Question[];
+  let eventService: Record<string, jest.Mock>;
+  let scheduler: Record<string, jest.Mock>;
+  let snapshots: Record<string, jest.Mock>;
+  let service: GatewayService;
+  let server: QuizServer;
+
+  beforeEach(() => {
+    clock = new ManualClock();
+    store = new InMemoryStateStore(clock);
+    leaders = new LeaderElectionService(store, clock, 'instance-a');
+    rooms = new RoomRegistryService(store, leaders);
+    event = {
+      id: 7,
+      theme: 'histoire',
+      status: EventStatus.Lobby,
+      startDate: new Date(clock.now()),
+      numberOfQuestions: 1,
+      minPlayers: 1,
+      minPlayersPolicy: MinPlayersPolicy.Cancel,
+      scoringMode: ScoringMode.Classic,
+      gameMode: GameMode.FullLength,
+      lives: 3,
+      shuffleChoices: false,
+      maxAnswerChanges: 0,
+      revealSeconds: 5,
+      reconnectGraceSeconds: 30,
+    } as Event;
+    questions = [question];
+
+    eventService = {
+      startEvent: jest.fn(() =>
+        Promise.resolve({ ...event, status: EventStatus.Running }),
+      ),
+      completeEvent: jest.fn(() => Promise.resolve(event)),
+      abortEvent: jest.fn(() => Promise.resolve(event)),
+      getNextEvent: jest.fn(() => Promise.resolve(null)),
+    };
+    scheduler = {
+      setListener: jest.fn(),
+      markRunning: jest.fn(),
+      release: jest.fn(),
+      handOff: jest.fn(),
+    };
+    snapshots = {
+      save: jest.fn(() => Promise.resolve()),
+      find: jest.fn(() => Promise.resolve(null)),
+      delete: jest.fn(() => Promise.resolve()),
+    };
+
+    service = new GatewayService(
+      {
+        selectQuestions: () => Promise.resolve(questions),
+        findByIds: () => Promise.resolve(questions),
+      } as never,
+      eventService as never,
+      {} as never,
+      rooms,
+      scheduler as never,
+      {
+        findRecentQuestionIds: () => Promise.resolve([]),
+        recordGame: () => Promise.resolve(),
+      } as never,
+      { getLeaderboard: () => Promise.resolve({}) } as never,
+      {} as never,
+      {} as never,
+      leaders,
+      snapshots as never,
+      clock,
+    );
+    server = createServer();
+    service.setServer(server);
+  });
+
+  afterEach(async () => {
+    await leaders.onModuleDestroy();
+    await store.close();
+  });
+
+  const openLobby = async (participants: number[]): Promise<EventLobby> => {
+    const lobby: EventLobby = {
+      roomId: RoomRegistryService.eventRoomId(event.id),
+      event,
+      participants: new Set(participants),
+    };
+    rooms.addLobby(lobby);
+    await rooms.saveLobbyParticipants(lobby);
+    return lobby;
+  };
+
+  it('clôt un événement terminé sans aucun joueur', async () => {
+    // Le seul inscrit est déjà engagé dans une partie libre
+    await leaders.acquire(LeaderElectionService.roomKey('public'));
+    await rooms.assignPlayer(1, { roomId: 'public', resumeToken: 'jeton' });
+
+    await service['startEventIfReady'](await openLobby([1]), START);
+    expect(eventService.startEvent).toHaveBeenCalledWith(7);
+
+    await clock.advance(1000 + 30_000 + 500 + 5000);
+    expect(eventService.completeEvent).toHaveBeenCalledWith(7, null);
+    expect(scheduler.release).toHaveBeenCalledWith(7);
+    expect(leaders.isLeader(LeaderElectionService.roomKey('event-7'))).toBe(
+      false,
+    );
+  });
+
+  it("passe la main quand la room de l'événement est tenue ailleurs", async () => {
+    const other = new LeaderElectionService(store, clock, 'instance-b');
+    await other.acquire(LeaderElectionService.roomKey('event-7'));
+
+    await service['startEventIfReady'](await openLobby([1]), START);
+
+    expect(scheduler.handOff).toHaveBeenCalledWith(7);
+    expect(eventService.startEvent).not.toHaveBeenCalled();
+    expect(rooms.getLobby(7)).toBeUndefined();
+    // Les inscrits restent en commun pour l'instance qui reprendra le lobby
+    await expect(rooms.loadLobbyParticipants(7)).resolves.toEqual([1]);
+    await other.onModuleDestroy();
+  });
+
+  const addPlayer = (id: number) =>
+    service['players'].set(id, {
+      id,
+      nickname: `Joueur ${id}`,
+      locale: 'fr',
+      socketId: `socket-${id}`,
+    });
+
+  it('rend la room quand aucune question ne peut être tirée', async () => {
+    questions = [];
+    addPlayer(1);
+
+    await service['startEventIfReady'](await openLobby([1]), START);
+
+    expect(rooms.getLobby(7)).toBeUndefined();
+    expect(service['players'].has(1)).toBe(false);
+
+    expect(eventService.abortEvent).toHaveBeenCalledWith(7, expect.any(String));
+    expect(scheduler.release).toHaveBeenCalledWith(7);
+    expect(leaders.isLeader(LeaderElectionService.roomKey('event-7'))).toBe(
+      false,
+    );
+    await expect(
+      leaders.holder(LeaderElectionService.roomKey('event-7')),
+    ).resolves.toBeUndefined();
+  });
+
+  describe('lancement en échec', () => {
+    const roomKey = LeaderElectionService.roomKey('event-7');
+    const abortReason = 'Partie interrompue par une erreur du serveur';
+
+    beforeEach(() => jest.spyOn(console, 'error').mockImplementation());
+    afterEach(() => jest.restoreAllMocks());
+
+    it("annule l'événement quand il ne peut pas démarrer en base", async () => {
+      eventService.startEvent.mockRejectedValue(new Error('base indisponible'));
+      addPlayer(1);
+
+      await service['startEventIfReady'](await openLobby([1]), START);
+
+      expect(eventService.abortEvent).toHaveBeenCalledWith(7, abortReason);
+      expect(scheduler.release).toHaveBeenCalledWith(7);
+      expect(rooms.getLobby(7)).toBeUndefined();
+      expect(service['players'].has(1)).toBe(false);
+      await expect(leaders.holder(roomKey)).resolves.toBeUndefined();
+    });
+
+    it('abandonne la partie et libère les joueurs déjà engagés', async () => {
+      // Le second joueur ne peut pas être engagé dans la partie
+      jest
+        .spyOn(rooms, 'assignPlayer')
+        .mockImplementation((playerId: number, engagement: PlayerEngagement) =>
+          playerId === 2
+            ? Promise.reject(new Error('store indisponible'))
+            : store.set(`player:${playerId}:room`, engagement),
+        );
+      addPlayer(1);
+      addPlayer(2);
+
+      await service['startEventIfReady'](await openLobby([1, 2]), START);
+
+      expect(eventService.abortEvent).toHaveBeenCalledWith(7, abortReason);
+      expect(rooms.getQuiz('event-7')).toBeUndefined();
+      await expect(store.get('player:1:room')).resolves.toBeUndefined();
+      expect(service['players'].size).toBe(0);
+      await expect(leaders.holder(roomKey)).resolves.toBeUndefined();
+    });
+
+    it("annule l'événement quand il ne peut pas être repoussé", async () => {
+      eventService.postponeEvent = jest.fn(() =>
+        Promise.reject(new Error('base indisponible')),
+      );
+
+      await service['startEventIfReady'](await openLobby([1]), {
+        action: 'postpone',
+      });
+
+      expect(eventService.abortEvent).toHaveBeenCalledWith(7, abortReason);
+      expect(scheduler.release).toHaveBeenCalledWith(7);
+      expect(rooms.getLobby(7)).toBeUndefined();
+    });
+  });
+
+  it('montre à chaque joueur la correction et la répartition des réponses', async () => {
+    addPlayer(1);
+    addPlayer(2);
+    await service['startEventIfReady'](await openLobby([1, 2]), START);
+    await clock.advance(1000);
+    const quiz = rooms.getQuiz('event-7')!;
+    service['quizEngine'].submitAnswer(quiz, 1, 1, 1);
+    service['quizEngine'].submitAnswer(quiz, 2, 1, 3);
+
+    await clock.advance(
+      gameConfig.questionTimeSeconds * 1000 +
+        gameConfig.answerLatencyAllowanceMs,
+    );
+
+    const reveals = (
+      server.to('') as unknown as { emit: jest.Mock }
+    ).emit.mock.calls
+      .filter(([name]) => name === 'answerReveal')
+      .map(([, payload]: [string, unknown]) => payload);
+    expect(reveals).toHaveLength(2);
+    expect(reveals[0]).toMatchObject({
+      questionId: 1,
+      questionNumber: 1,
+      correctAnswer: 1,
+      distribution: [
+        { choice: 'A', count: 1, percentage: 50, correct: true },
+        { choice: 'B', count: 0, percentage: 0, correct: false },
+        { choice: 'C', count: 1, percentage: 50, correct: false },
+        { choice: 'D', count: 0, percentage: 0, correct: false },
+      ],
+      answered: 2,
+      correctCount: 1,
+      result: { answer: 1, correct: true, points: 1 },
+    });
+    expect(reveals[1]).toMatchObject({
+      result: { answer: 3, correct: false, points: 0 },
+    });
+  });
+
+  describe('reprise après un arrêt', () => {
+    const savedPlayer = (playerId: number) => ({
+      playerId,
+      nickname: `Joueur ${playerId}`,
+      score: 1,
+      streak: 1,
+      correctResponseTimeMs: 2000,
+      answers: [],
+      choiceOrders: [],
+      isWatching: false,
+      joinedAt: clock.now(),
+      resumeToken: `jeton-${playerId}`,
+    });
+
+    beforeEach(() => {
+      questions = [
+        question,
+        { ...question, id: 2, questionText: 'Question 2' },
+      ];
+      event.status = EventStatus.Running;
+      // Première question corrigée avant l'arrêt
+      snapshots.find.mockResolvedValue({
+        eventId: 7,
+        takenAt: new Date(clock.now()),
+        state: {
+          gameId: 'partie-7',
+          questionIds: [1, 2],
+          playedQuestions: 1,
+          startingPlayers: 2,
+          players: [savedPlayer(1), savedPlayer(2)],
+        },
+      });
+    });
+
+    const emitted = (name: string) =>
+      (server.to('') as unknown as { emit: jest.Mock }).emit.mock.calls
+        .filter(([emittedName]) => emittedName === name)
+        .map(([, payload]: [string, unknown]) => payload);
+
+    it("fait patienter le joueur revenu jusqu'à la relance", async () => {
+      await expect(service['recoverEvent'](event)).resolves.toBe(true);
+      await clock.advance(10_000);
+      addPlayer(1);
+      service['handlePlayerConnected'](service['players'].get(1)!);
+
+      expect(emitted('sessionResumed')).toEqual([
+        expect.objectContaining({
+          score: 1,
+          pendingAnswer: null,
+          timeLeft: 0,
+          resumesIn: 20,
+        }),
+      ]);
+      expect(emitted('quizQuestion')).toEqual([]);
+
+      await clock.advance(20_000 + 1000);
+      expect(emitted('quizQuestion')).toEqual([
+        expect.objectContaining({
+          questionNumber: 2,
+          timeLeft: gameConfig.questionTimeSeconds,
+        }),
+      ]);
+    });
+
+    it('retire les joueurs absents à la fin de la fenêtre de reconnexion', async () => {
+      await service['recoverEvent'](event);
+      addPlayer(1);
+      service['handlePlayerConnected'](service['players'].get(1)!);
+
+      await clock.advance(30_000);
+      const quiz = rooms.getQuiz('event-7')!;
+      expect([...quiz.sessions.keys()]).toEqual([1]);
+      await expect(store.get('player:2:room')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('adresse du client', () => {
+    const socket = (forwarded?: string) =>
+      ({
+        handshake: {
+          address: '10.0.0.2',
+          headers: forwarded ? { 'x-forwarded-for': forwarded } : {},
+        },
+      }) as QuizSocket;
+
+    afterEach(() => {
+      gameConfig.trustedProxies = 0;
+    });
+
+    it('ignore X-Forwarded-For sans proxy de confiance', () => {
+      expect(service['getClientAddress'](socket('1.2.3.4'))).toBe('10.0.0.2');
+    });
+
+    it("prend l'adresse vue par le premier proxy de confiance", () => {
+      gameConfig.trustedProxies = 1;
+      // « 6.6.6.6 » est fourni par le client, le proxy a ajouté « 1.2.3.4 »
+      expect(service['getClientAddress'](socket('6.6.6.6, 1.2.3.4'))).toBe(
+        '1.2.3.4',
+      );
+      expect(service['getClientAddress'](socket())).toBe('10.0.0.2');
+
+      gameConfig.trustedProxies = 2;
+      expect(
+        service['getClientAddress'](socket('6.6.6.6, 1.2.3.4, 10.0.0.1')),
+      ).toBe('1.2.3.4');
+    });
+  });
+
+  it('décrit une erreur par son code et dans la langue du client', () => {
+    const client = { id: 'socket-1' } as QuizSocket;
+    service['socketLocales'].set('socket-1', 'en');
+
+    expect(
+      service.describeError(client, MessageCode.NotEnoughPlayers, {
+        actual: 1,
+        required: 3,
+      }),
+    ).toEqual({
+      code: MessageCode.NotEnoughPlayers,
+      message: 'Not enough players (1/3)',
+    });
+    expect(
+      service.describeError(
+        { id: 'socket-2' } as QuizSocket,
+        MessageCode.TimeExpired,
+      ),
+    ).toMatchObject({ message: translate(MessageCode.TimeExpired, 'fr') });
+  });
+
+  it('traduit pour chaque langue une annulation sans motif', async () => {
+    await openLobby([1]);
+    const emit = server.to('') as unknown as { emit: jest.Mock };
+
+    await service['handleLobbyEventChange']({
+      type: 'updated',
+      eventId: 7,
+      event: { ...event, status: EventStatus.Cancelled },
+    });
+
+    const reasons = emit.emit.mock.calls
+      .filter(([name]) => name === 'eventCancelled')
+      .map(([, payload]: [string, { code: string; reason: string }]) => [
+        payload.code,
+        payload.reason,
+      ]);
+    expect(reasons).toEqual([
+      [
+        MessageCode.EventCancelledByAdmin,
+        'Événement annulé par un administrateur',
+      ],
+      [
+        MessageCode.EventCancelledByAdmin,
+        'Event cancelled by an administrator',
+      ],
+      [
+        MessageCode.EventCancelledByAdmin,
+        'Evento cancelado por un administrador',
+      ],
+    ]);
+  });
+});
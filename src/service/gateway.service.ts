@@ -1,9 +1,55 @@
-import { Injectable } from '@nestjs/common';
-import { Server, Socket } from 'socket.io';
+import { Inject, Injectable } from '@nestjs/common';
 import { QuestionService } from './question.service';
 import { EventService } from './event.service';
+import { PlayerService } from './player.service';
+import { RoomRegistryService } from './room-registry.service';
+import { ResultService } from './result.service';
+import { LeaderboardService } from './leaderboard.service';
+import { ThemeService } from './theme.service';
+import { AnswerAuditService } from './answer-audit.service';
+import { EventSnapshotService } from './event-snapshot.service';
+import { LeaderElectionService } from './leader-election.service';
+import {
+  EventSchedulerService,
+  LOBBY_LEAD_TIME_MS,
+} from './event-scheduler.service';
+import { ScoringMode } from '../game/scoring';
+import { DEFAULT_LIVES, GameMode } from '../game/game-modes';
+import { detectSuspiciousAnswer } from '../game/anti-cheat';
+import { GAME_CLOCK } from '../game/clock';
+import type { GameClock, TimerHandle } from '../game/clock';
+import {
+  QUESTION_DELAY_MS,
+  QuizEngine,
+  QuizOutcome,
+  QuizSettings,
+} from '../game/quiz-engine';
+import { LobbyEngine, LobbyOutcome } from '../game/lobby-engine';
+import { gameConfig } from '../config/game.config';
+import { SocketException } from '../filter/socket.exception';
+import {
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION,
+  supportedProtocolVersions,
+} from '../utils/protocol';
+import {
+  createChoiceOrder,
+  getChoices,
+  getCorrectAnswer,
+  localizeQuestion,
+  toDisplayedAnswer,
+  toPublicQuestion,
+} from '../game/question-types';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  resolveLocale,
+  SUPPORTED_LOCALES,
+} from '../i18n/locale';
+import { MessageCode, MessageParams, translate } from '../i18n/messages';
 import { Question } from '../model/question.entity';
-import { Event } from '../model/event.entity';
+import { Event, EventStatus } from '../model/event.entity';
+import { Player } from '../model/player.entity';
 import type {
   QuizSession,
   GlobalQuiz,
@@ -11,230 +57,573 @@ import type {
   QuizParticipant,
   StartQuizPayload,
   SubmitAnswerPayload,
-  PlayerStats
+  JoinLobbyPayload,
+  EventChange,
+  LeaderboardUpdate,
+  QuestionSelectionOptions,
+  AnswerRevealResponse,
+  AnswerQueuedResponse,
+  EventAnnouncement,
+  HandshakeAuth,
+  LobbyJoinedResponse,
+  LocalizedReason,
+  QuizJoinedResponse,
+  PlayerRef,
+  QuizServer,
+  QuizSocket,
+  RemoteResult,
+  ServerToClientEvents,
+  SocketError,
 } from '../types';
 
+const DEFAULT_RECONNECT_GRACE_SECONDS = 30;
+const DEFAULT_ROOM_ID = 'public';
+const DEFAULT_REVEAL_SECONDS = 5;
+// Questions tirées à chaque relance du mode survie
+const SURVIVAL_BATCH_SIZE = 10;
+// Les questions vues dans cette période ne sont reprises qu'à défaut d'autres
+const RECENTLY_SEEN_MS = 7 * 24 * 60 * 60 * 1000;
+// Parties terminées dans cet intervalle regroupées en une diffusion des classements
+const LEADERBOARD_BROADCAST_DELAY_MS = 10_000;
+
+interface PendingLeaderboardUpdate {
+  gameIds: string[];
+  // Thème de la dernière partie
+  theme: string | null;
+  themes: Set<string>;
+  timer: TimerHandle;
+}
+
 @Injectable()
 export class GatewayService {
-  private quizSessions = new Map<string, QuizSession>();
-  private globalQuiz: GlobalQuiz | null = null;
-  private eventCheckInterval?: NodeJS.Timeout;
-  private server: Server;
-  private currentLobby: EventLobby | null = null;
-  private nextEventTimer?: NodeJS.Timeout;
+  private server: QuizServer;
+  // socket.id -> joueur authentifié, et joueur -> socket courante
+  private socketPlayers = new Map<string, Player>();
+  private playerSockets = new Map<number, string>();
+  // socket.id -> langue choisie par le client
+  private socketLocales = new Map<string, Locale>();
+  // Joueurs des parties et lobbies pilotés par cette instance
+  private players = new Map<number, PlayerRef>();
+  private readonly quizEngine: QuizEngine;
+  private readonly lobbyEngine: LobbyEngine;
+  private pendingLeaderboardUpdate?: PendingLeaderboardUpdate;
 
   constructor(
     private readonly questionService: QuestionService,
     private readonly eventService: EventService,
+    private readonly playerService: PlayerService,
+    private readonly rooms: RoomRegistryService,
+    private readonly scheduler: EventSchedulerService,
+    private readonly resultService: ResultService,
+    private readonly leaderboardService: LeaderboardService,
+    private readonly themeService: ThemeService,
+    private readonly answerAuditService: AnswerAuditService,
+    private readonly leaders: LeaderElectionService,
+    private readonly snapshots: EventSnapshotService,
+    @Inject(GAME_CLOCK) private readonly clock: GameClock,
   ) {
-    this.initializeNextEvent();
+    // Les moteurs déroulent le jeu ; ce service fait le lien avec les sockets
+    this.quizEngine = new QuizEngine(
+      {
+        questionStarted: (quiz) => {
+          quiz.resumesAt = undefined;
+          this.broadcastCurrentQuestion(quiz);
+          this.saveSnapshot(quiz);
+        },
+        timerTick: (quiz) =>
+          this.server
+            .to(quiz.roomId)
+            .emit('timerUpdate', { timeLeft: quiz.timeLeft }),
+        answersRevealed: (quiz) => {
+          this.broadcastAnswerReveal(quiz);
+          this.saveSnapshot(quiz);
+        },
+        drawQuestions: (quiz) => this.drawMoreQuestions(quiz),
+        quizCompleted: (quiz, outcome) =>
+          this.completeGlobalQuiz(quiz, outcome),
+        quizAbandoned: (quiz, error) => this.abandonGlobalQuiz(quiz, error),
+      },
+      clock,
+      {
+        answerLatencyAllowanceMs: gameConfig.answerLatencyAllowanceMs,
+        questionDelayMs: QUESTION_DELAY_MS,
+      },
+    );
+    this.lobbyEngine = new LobbyEngine(
+      {
+        countdown: (lobby, timeLeft) =>
+          this.server.emit('eventCountdown', {
+            eventId: lobby.event.id,
+            timeLeft,
+            participants: lobby.participants.size,
+            minPlayers: lobby.event.minPlayers,
+          }),
+        countdownEnded: (lobby, outcome) =>
+          void this.startEventIfReady(lobby, outcome),
+      },
+      clock,
+    );
+    this.scheduler.setListener({
+      openLobby: (event) => this.openEventLobby(event),
+      lobbyEventChanged: (change) => this.handleLobbyEventChange(change),
+      scheduleChanged: () => this.broadcastNextEvent(),
+      leadershipLost: (eventId) => this.abandonEvent(eventId),
+      recoverEvent: (event) => this.recoverEvent(event),
+    });
   }
 
-  setServer(server: Server) {
+  setServer(server: QuizServer) {
     this.server = server;
+
+    // Commandes des autres instances : seule celle qui pilote la partie ou le lobby répond
+    server.on('playerConnected', (player) =>
+      this.handlePlayerConnected(player),
+    );
+    server.on('playerDisconnected', (playerId, socketId) =>
+      this.handlePlayerDisconnected(playerId, socketId),
+    );
+    server.on('joinQuiz', (player, roomId, ack) => {
+      const quiz = this.rooms.getQuiz(roomId);
+      if (!quiz) return ack(null);
+      void this.respond(ack, () => this.joinQuiz(player, quiz));
+    });
+    server.on('submitAnswer', (player, payload, ack) => {
+      const quiz = this.rooms.getPlayerQuiz(player.id);
+      if (!quiz) return ack(null);
+      void this.respond(ack, () => this.recordAnswer(player, quiz, payload));
+    });
+    server.on('joinLobby', (player, eventId, ack) => {
+      const lobby = this.rooms.getLobby(eventId);
+      if (!lobby) return ack(null);
+      void this.respond(ack, () => this.addToLobby(player, lobby));
+    });
   }
 
-  async getQuestionsByTheme(
-    theme?: string,
-    limit: number = 10,
+  /** Tire les questions d'une partie en évitant celles vues récemment par ses joueurs. */
+  async selectQuestions(
+    options: QuestionSelectionOptions,
+    playerIds: number[],
   ): Promise<Question[]> {
-    if (theme) {
-      const themeQuestions = await this.questionService.findByTheme(theme);
-      return themeQuestions.slice(0, limit);
+    const recentIds = await this.resultService.findRecentQuestionIds(
+      playerIds,
+      new Date(this.clock.now() - RECENTLY_SEEN_MS),
+    );
+    return this.questionService.selectQuestions({
+      ...options,
+      avoidIds: [...(options.avoidIds ?? []), ...recentIds],
+    });
+  }
+
+  async handleConnection(client: QuizSocket) {
+    const auth = client.handshake.auth as Partial<HandshakeAuth> | undefined;
+    // Langue explicite du client, sinon celle du navigateur
+    this.socketLocales.set(
+      client.id,
+      resolveLocale(auth?.locale) ??
+        resolveLocale(client.handshake.headers['accept-language']) ??
+        DEFAULT_LOCALE,
+    );
+
+    const requestedVersion = auth?.protocolVersion;
+    const protocolVersion = negotiateProtocolVersion(requestedVersion);
+    if (protocolVersion === null) {
+      this.emitError(client, MessageCode.UnsupportedProtocol, {
+        version: String(requestedVersion ?? 1),
+        supported: supportedProtocolVersions().join(', '),
+      });
+      this.socketLocales.delete(client.id);
+      client.disconnect(true);
+      return;
     }
-    return this.questionService.findRandomQuestions(limit);
+
+    const token = typeof auth?.token === 'string' ? auth.token : undefined;
+    const player = token ? await this.playerService.findByToken(token) : null;
+
+    if (!player) {
+      this.emitError(client, MessageCode.AuthRequired);
+      this.socketLocales.delete(client.id);
+      client.disconnect(true);
+      return;
+    }
+
+    // Une partie en cours ne peut être reprise qu'avec son jeton de reprise
+    const engagement = await this.rooms.getEngagement(player.id);
+    if (engagement && auth?.resumeToken !== engagement.resumeToken) {
+      this.emitError(client, MessageCode.SessionInProgress);
+      this.socketLocales.delete(client.id);
+      client.disconnect(true);
+      return;
+    }
+
+    // Un seul socket actif par joueur, toutes instances confondues : l'ancien onglet est fermé
+    const previousClientId = this.playerSockets.get(player.id);
+    this.socketPlayers.set(client.id, player);
+    this.playerSockets.set(player.id, client.id);
+    if (previousClientId && previousClientId !== client.id) {
+      this.socketPlayers.delete(previousClientId);
+    }
+    this.server
+      .in(RoomRegistryService.playerRoom(player.id))
+      .disconnectSockets(true);
+    await client.join([
+      RoomRegistryService.playerRoom(player.id),
+      RoomRegistryService.localeRoom(this.getLocale(client)),
+    ]);
+
+    await this.playerService.touch(player.id);
+    console.log(`Client connected: ${client.id} (joueur ${player.id})`);
+    client.emit('welcome', {
+      protocolVersion,
+      serverProtocolVersion: PROTOCOL_VERSION,
+      locale: this.getLocale(client),
+    });
+    // Session et lobbies sont repris par les instances qui les pilotent
+    const ref = this.toPlayerRef(client, player);
+    this.server.serverSideEmit('playerConnected', ref);
+    this.handlePlayerConnected(ref);
+    this.sendNextEventInfo(player.id);
   }
 
-  handleConnection(clientId: string) {
-    console.log(`Client connected: ${clientId}`);
-    this.sendNextEventInfo(clientId);
-    if (this.currentLobby) {
-      this.sendLobbyInfo(clientId);
+  private handlePlayerConnected(player: PlayerRef) {
+    const quiz = this.rooms.getPlayerQuiz(player.id);
+    const session = quiz?.sessions.get(player.id);
+    if (quiz && session) {
+      this.players.set(player.id, player);
+      this.resumeSession(player.id, quiz, session);
     }
-    this.broadcastPlayerStats();
+    this.rooms.getLobbies().forEach((lobby) => {
+      if (lobby.participants.has(player.id)) {
+        this.players.set(player.id, player);
+        this.joinPlayerSockets(player.id, lobby.roomId);
+      }
+      this.sendLobbyInfo(player.id, lobby);
+    });
   }
 
   handleDisconnection(clientId: string) {
     console.log(`Client disconnected: ${clientId}`);
-    const session = this.quizSessions.get(clientId);
-    if (session?.timer) clearTimeout(session.timer);
-    if (session?.timerInterval) clearInterval(session.timerInterval);
-    this.quizSessions.delete(clientId);
-    if (this.globalQuiz?.participants) {
-      this.globalQuiz.participants.delete(clientId);
+    const player = this.socketPlayers.get(clientId);
+    this.socketPlayers.delete(clientId);
+    this.socketLocales.delete(clientId);
+    if (!player || this.playerSockets.get(player.id) !== clientId) return;
+
+    this.playerSockets.delete(player.id);
+    this.server.serverSideEmit('playerDisconnected', player.id, clientId);
+    this.handlePlayerDisconnected(player.id, clientId);
+  }
+
+  private handlePlayerDisconnected(playerId: number, socketId: string) {
+    const quiz = this.rooms.getPlayerQuiz(playerId);
+    const session = quiz?.sessions.get(playerId);
+    // Socket déjà remplacée par une reconnexion sur une autre instance
+    if (
+      !quiz ||
+      !session ||
+      this.players.get(playerId)?.socketId !== socketId
+    ) {
+      return;
     }
+
+    // Fenêtre de grâce : la session reste en place le temps de se reconnecter
+    const graceSeconds = quiz.reconnectGraceSeconds;
+    session.disconnectedAt = this.clock.now();
+    session.graceTimer = this.clock.setTimeout(
+      () => this.removeSession(quiz, playerId),
+      graceSeconds * 1000,
+    );
+    console.log(
+      `Joueur ${playerId} déconnecté - reprise possible pendant ${graceSeconds}s`,
+    );
     // Ne pas supprimer du lobby lors de la déconnexion
-    this.broadcastPlayerStats();
+    this.broadcastPlayerStats(quiz);
+  }
+
+  private removeSession(quiz: GlobalQuiz, playerId: number) {
+    this.clock.clear(quiz.sessions.get(playerId)?.graceTimer);
+    this.quizEngine.removePlayer(quiz, playerId);
+    this.forgetPlayer(playerId);
+    this.rooms.releasePlayer(playerId, quiz.roomId).catch((error) => {
+      console.error(`Libération du joueur ${playerId} impossible:`, error);
+    });
+    this.broadcastPlayerStats(quiz);
+  }
+
+  private resumeSession(
+    playerId: number,
+    quiz: GlobalQuiz,
+    session: QuizSession,
+  ) {
+    this.clock.clear(session.graceTimer);
+    session.graceTimer = undefined;
+    session.disconnectedAt = undefined;
+    this.joinPlayerSockets(playerId, quiz.roomId);
+    console.log(
+      `Joueur ${playerId} a repris sa session dans la room ${quiz.roomId}`,
+    );
+
+    // Question restaurée pas encore rouverte : le joueur attend la relance
+    if (quiz.resumesAt !== undefined) {
+      this.toPlayer(playerId).emit('sessionResumed', {
+        ...this.toResumedSession(quiz, session),
+        pendingAnswer: null,
+        timeLeft: 0,
+        resumesIn: Math.ceil(
+          Math.max(0, quiz.resumesAt - this.clock.now()) / 1000,
+        ),
+      });
+      this.broadcastPlayerStats(quiz);
+      return;
+    }
+
+    session.currentIndex = quiz.currentQuestionIndex;
+    session.timeLeft = quiz.timeLeft;
+    this.toPlayer(playerId).emit('sessionResumed', {
+      ...this.toResumedSession(quiz, session),
+      // Réponse telle que le joueur l'a saisie, dans son ordre d'affichage
+      pendingAnswer: session.pendingAnswer
+        ? {
+            questionId: session.pendingAnswer.questionId,
+            answer: session.pendingAnswer.displayedAnswer,
+          }
+        : null,
+      timeLeft: session.timeLeft,
+      resumesIn: null,
+    });
+    this.sendCurrentQuestion(playerId, quiz, session);
+    this.sendAnswerReveal(playerId, quiz, session);
+    this.broadcastPlayerStats(quiz);
+  }
+
+  private toResumedSession(quiz: GlobalQuiz, session: QuizSession) {
+    return {
+      roomId: quiz.roomId,
+      score: session.score,
+      answers: session.answers,
+      isWatching: session.isWatching,
+    };
   }
 
   async startQuiz(
     clientId: string,
     payload: StartQuizPayload,
-  ) {
-    const { theme, limit = 10, timeLimit = 30 } = payload || {};
+  ): Promise<QuizJoinedResponse> {
+    const roomId = payload?.roomId ?? DEFAULT_ROOM_ID;
     const client = this.server.sockets.sockets.get(clientId);
+    const player = this.socketPlayers.get(clientId);
+    if (!client || !player) {
+      throw new SocketException(MessageCode.AuthRequired);
+    }
 
-    if (this.globalQuiz?.isActive) {
-      const session: QuizSession = {
-        questions: this.globalQuiz.questions,
-        currentIndex: this.globalQuiz.currentQuestionIndex,
-        score: 0,
-        answers: [],
-        isWatching: true,
-        timeLimit: this.globalQuiz.timeLimit,
-        timeLeft: this.globalQuiz.timeLeft,
-        joinedAt: this.globalQuiz.currentQuestionIndex,
-      };
+    const locale = resolveLocale(payload?.locale);
+    if (locale) await this.setLocale(client, locale);
 
-      this.quizSessions.set(clientId, session);
-      if (this.globalQuiz.participants) {
-        this.globalQuiz.participants.set(clientId, {
-          clientId,
-          score: 0,
-        } as QuizParticipant);
-      }
-      this.sendCurrentQuestion(client!, session);
-      this.broadcastPlayerStats();
-      return;
+    if (await this.rooms.getEngagement(player.id)) {
+      throw new SocketException(MessageCode.AlreadyInGame);
     }
 
-    const questions = await this.getQuestionsByTheme(theme, limit);
+    const ref = this.toPlayerRef(client, player);
+    const existingQuiz = this.rooms.getQuiz(roomId);
+    if (existingQuiz) return this.joinQuiz(ref, existingQuiz);
 
-    if (questions.length === 0) {
-      client?.emit('error', {
-        message: 'Aucune question trouvée pour ce thème',
-      });
-      return;
+    // Partie pilotée par une autre instance
+    const joined = await this.forward(
+      this.server.serverSideEmitWithAck('joinQuiz', ref, roomId),
+    );
+    if (joined) return joined;
+
+    // Les rooms d'événements ne se créent que depuis leur lobby
+    if (roomId.startsWith('event-')) {
+      throw new SocketException(MessageCode.RoomUnavailable);
     }
 
-    this.globalQuiz = {
-      isActive: true,
-      currentQuestionIndex: 0,
-      questions,
-      timeLimit,
-      timeLeft: timeLimit,
-      participants: new Map(),
-    };
+    // Une seule instance crée et pilote la room
+    const roomKey = LeaderElectionService.roomKey(roomId);
+    if (
+      !(await this.leaders.acquire(roomKey, () => this.abandonQuiz(roomId)))
+    ) {
+      throw new SocketException(MessageCode.RoomUnavailable);
+    }
 
-    this.globalQuiz.participants.set(clientId, {
-      clientId,
-      score: 0,
-    } as QuizParticipant);
+    let quiz: GlobalQuiz;
+    try {
+      quiz = await this.createFreeQuiz(roomId, payload, player.id);
+    } catch (error) {
+      await this.leaders.release(roomKey);
+      throw error;
+    }
+    this.rooms.addQuiz(quiz);
+    this.players.set(ref.id, ref);
+
+    const session = this.quizEngine.addPlayer(
+      quiz,
+      this.createParticipant(ref),
+      false,
+    );
+    await this.openSession(quiz, ref.id, session);
+    this.quizEngine.start(quiz);
+    return { roomId, isWatching: false };
+  }
+
+  private async createFreeQuiz(
+    roomId: string,
+    payload: StartQuizPayload,
+    playerId: number,
+  ): Promise<GlobalQuiz> {
+    const {
+      theme,
+      limit = 10,
+      timeLimit = gameConfig.questionTimeSeconds,
+      scoringMode = ScoringMode.Classic,
+      gameMode = GameMode.Elimination,
+      lives = DEFAULT_LIVES,
+      shuffleChoices = false,
+      maxAnswerChanges = 0,
+      revealSeconds = DEFAULT_REVEAL_SECONDS,
+    } = payload || {};
+
+    let themeSlug: string | undefined;
+    if (theme) {
+      try {
+        themeSlug = await this.themeService.resolveSlug(theme);
+      } catch {
+        throw new SocketException(MessageCode.ThemeUnavailable, { theme });
+      }
+    }
+
+    const questions = await this.selectQuestions(
+      {
+        theme: themeSlug,
+        count: limit,
+        difficulty: payload.difficulty,
+        difficultyCurve: payload.difficultyCurve,
+        tags: payload.tags,
+      },
+      [playerId],
+    );
+
+    if (questions.length === 0) {
+      throw new SocketException(MessageCode.NoQuestionsForTheme);
+    }
 
-    const session: QuizSession = {
+    return this.quizEngine.createQuiz({
+      roomId,
+      theme: themeSlug,
       questions,
-      currentIndex: 0,
-      score: 0,
-      answers: [],
-      isWatching: false,
       timeLimit,
-      timeLeft: timeLimit,
-      joinedAt: 0,
-    };
+      scoringMode,
+      gameMode,
+      lives,
+      shuffleChoices,
+      maxAnswerChanges,
+      revealSeconds,
+      reconnectGraceSeconds: DEFAULT_RECONNECT_GRACE_SECONDS,
+    });
+  }
 
-    this.quizSessions.set(clientId, session);
-    this.startGlobalQuiz();
+  // Arrivée en spectateur dans une partie pilotée par cette instance
+  private async joinQuiz(
+    player: PlayerRef,
+    quiz: GlobalQuiz,
+  ): Promise<QuizJoinedResponse> {
+    if (!quiz.isActive) {
+      throw new SocketException(MessageCode.RoomUnavailable);
+    }
+    this.players.set(player.id, player);
+    const session = this.quizEngine.addPlayer(
+      quiz,
+      this.createParticipant(player),
+      true,
+    );
+    await this.openSession(quiz, player.id, session);
+    this.sendCurrentQuestion(player.id, quiz, session);
+    this.sendAnswerReveal(player.id, quiz, session);
+    this.broadcastPlayerStats(quiz);
+    return { roomId: quiz.roomId, isWatching: true };
   }
 
-  submitAnswer(
+  async submitAnswer(
     clientId: string,
     payload: SubmitAnswerPayload,
-  ) {
-    const session = this.quizSessions.get(clientId);
+  ): Promise<AnswerQueuedResponse> {
     const client = this.server.sockets.sockets.get(clientId);
-
-    if (!session) {
-      client?.emit('error', { message: 'Aucune session de quiz active' });
-      return;
+    const player = this.socketPlayers.get(clientId);
+    if (!client || !player) {
+      throw new SocketException(MessageCode.NoActiveSession);
     }
 
-    if (session.isWatching) {
-      client?.emit('error', {
-        message: 'Vous êtes en mode surveillance - réponses bloquées',
-      });
-      return;
+    const ref = this.toPlayerRef(client, player);
+    const quiz = this.rooms.getPlayerQuiz(player.id);
+    if (quiz) return this.recordAnswer(ref, quiz, payload);
+
+    // Partie pilotée par une autre instance
+    const response = (await this.rooms.getEngagement(player.id))
+      ? await this.forward(
+          this.server.serverSideEmitWithAck('submitAnswer', ref, payload),
+        )
+      : null;
+    if (!response) {
+      throw new SocketException(MessageCode.NoActiveSession);
     }
+    return response;
+  }
 
-    const currentQuestion = session.questions[session.currentIndex];
-    if (currentQuestion.id !== payload.questionId) {
-      client?.emit('error', { message: 'Question invalide' });
-      return;
+  private recordAnswer(
+    player: PlayerRef,
+    quiz: GlobalQuiz,
+    payload: SubmitAnswerPayload,
+  ): AnswerQueuedResponse {
+    const submission = this.quizEngine.submitAnswer(
+      quiz,
+      player.id,
+      payload.questionId,
+      payload.answer,
+    );
+    if (!submission.accepted) {
+      throw new SocketException(submission.code);
     }
-
-    if (session.timeLeft <= 0) {
-      client?.emit('error', { message: 'Temps expiré - réponse non acceptée' });
-      return;
+    if (submission.first) {
+      this.auditAnswer(
+        quiz,
+        player.id,
+        player.address,
+        submission.answer.answeredAt,
+      );
     }
 
-    session.pendingAnswer = {
+    const response: AnswerQueuedResponse = {
       questionId: payload.questionId,
       answer: payload.answer,
+      timeLeft: quiz.sessions.get(player.id)?.timeLeft ?? quiz.timeLeft,
+      changesLeft: quiz.maxAnswerChanges - submission.answer.changes,
     };
+    this.toPlayer(player.id).emit('answerQueued', response);
 
-    client?.emit('answerQueued', {
-      questionId: payload.questionId,
-      answer: payload.answer,
-      timeLeft: session.timeLeft,
-    });
-
-    this.broadcastPlayerStats();
-  }
-
-  private startGlobalQuiz() {
-    if (!this.globalQuiz) return;
-
-    // Attendre un peu pour que les clients reçoivent l'événement autoStartQuiz
-    setTimeout(() => {
-      this.broadcastCurrentQuestion();
-
-      this.globalQuiz!.timerInterval = setInterval(() => {
-        if (!this.globalQuiz) return;
-
-        this.globalQuiz.timeLeft--;
-        this.server.emit('timerUpdate', {
-          timeLeft: this.globalQuiz.timeLeft,
-          ...this.getPlayerStats(),
-        });
-
-        if (this.globalQuiz.timeLeft <= 0) {
-          this.handleGlobalTimeExpired();
-        }
-      }, 1000);
-
-      this.globalQuiz!.timer = setTimeout(() => {
-        this.handleGlobalTimeExpired();
-      }, this.globalQuiz!.timeLimit * 1000);
-    }, 1000);
+    this.broadcastPlayerStats(quiz);
+    return response;
   }
 
-  private broadcastCurrentQuestion() {
-    if (!this.globalQuiz) return;
-
-    this.quizSessions.forEach((session, clientId) => {
-      const client = this.server.sockets.sockets.get(clientId);
-      if (client) {
-        session.currentIndex = this.globalQuiz!.currentQuestionIndex;
-        session.timeLeft = this.globalQuiz!.timeLeft;
-        session.pendingAnswer = undefined;
-
-        this.sendCurrentQuestion(client, session);
-      }
-    });
+  private broadcastCurrentQuestion(quiz: GlobalQuiz) {
+    quiz.sessions.forEach((session, playerId) =>
+      this.sendCurrentQuestion(playerId, quiz, session),
+    );
+    this.broadcastPlayerStats(quiz);
   }
 
-  private sendCurrentQuestion(client: Socket, session: QuizSession) {
+  private sendCurrentQuestion(
+    playerId: number,
+    quiz: GlobalQuiz,
+    session: QuizSession,
+  ) {
     const currentQuestion = session.questions[session.currentIndex];
-
-    client.emit('quizQuestion', {
-      question: {
-        id: currentQuestion.id,
-        theme: currentQuestion.theme,
-        questionText: currentQuestion.questionText,
-        response1: currentQuestion.response1,
-        response2: currentQuestion.response2,
-        response3: currentQuestion.response3,
-        response4: currentQuestion.response4,
-      },
+    // Partie reprise après sa dernière question : seule la fin reste à venir
+    if (!currentQuestion) return;
+
+    this.toPlayer(playerId).emit('quizQuestion', {
+      roomId: quiz.roomId,
+      question: toPublicQuestion(
+        localizeQuestion(currentQuestion, this.playerLocale(playerId)),
+        this.getChoiceOrder(quiz, session, currentQuestion),
+      ),
       questionNumber: session.currentIndex + 1,
       totalQuestions: session.questions.length,
       previousAnswer:
@@ -242,277 +631,562 @@ export class GatewayService {
           ? session.answers[session.answers.length - 1]
           : null,
       isWatching: session.isWatching,
+      livesLeft: session.livesLeft ?? null,
       timeLeft: session.timeLeft,
-      ...this.getPlayerStats(),
     });
   }
 
-  private handleGlobalTimeExpired() {
-    if (!this.globalQuiz) return;
-
-    if (this.globalQuiz.timerInterval)
-      clearInterval(this.globalQuiz.timerInterval);
-    if (this.globalQuiz.timer) clearTimeout(this.globalQuiz.timer);
-
-    this.quizSessions.forEach((session, clientId) => {
-      if (session.currentIndex === this.globalQuiz!.currentQuestionIndex) {
-        const currentQuestion = session.questions[session.currentIndex];
-
-        let userAnswer = 0;
-        let isCorrect = false;
-
-        if (
-          !session.isWatching &&
-          session.pendingAnswer &&
-          session.pendingAnswer.questionId === currentQuestion.id
-        ) {
-          userAnswer = session.pendingAnswer.answer;
-          isCorrect = currentQuestion.correctResponse === userAnswer;
-          if (isCorrect) {
-            session.score++;
-            const participant = this.globalQuiz!.participants?.get(clientId);
-            if (participant) {
-              participant.score = session.score;
-              if (
-                this.globalQuiz!.currentQuestionIndex ===
-                this.globalQuiz!.questions.length - 1
-              ) {
-                participant.finishedAt = new Date();
-              }
-            }
-          } else {
-            session.isWatching = true;
-          }
-        } else if (!session.isWatching) {
-          session.isWatching = true;
-        }
-
-        session.answers.push({
-          questionId: currentQuestion.id,
-          userAnswer,
-          correct: isCorrect,
-        });
-
-        session.pendingAnswer = undefined;
-      }
-    });
-
-    this.globalQuiz.currentQuestionIndex++;
-
-    if (
-      this.globalQuiz.currentQuestionIndex >= this.globalQuiz.questions.length
-    ) {
-      this.completeGlobalQuiz();
-    } else {
-      this.globalQuiz.timeLeft = this.globalQuiz.timeLimit;
-      this.startGlobalQuiz();
-    }
+  private broadcastAnswerReveal(quiz: GlobalQuiz) {
+    quiz.sessions.forEach((session, playerId) =>
+      this.sendAnswerReveal(playerId, quiz, session),
+    );
+    this.broadcastPlayerStats(quiz);
   }
 
-  private async completeGlobalQuiz() {
-    if (!this.globalQuiz) return;
+  /** Correction de la question, dans l'ordre des choix et la langue du joueur. */
+  private sendAnswerReveal(
+    playerId: number,
+    quiz: GlobalQuiz,
+    session: QuizSession,
+  ) {
+    if (!quiz.reveal) return;
+    const { question, stats, eliminated } = quiz.reveal;
+    const localized = localizeQuestion(question, this.playerLocale(playerId));
+    const choiceOrder = session.choiceOrders.get(question.id);
+    const choices = getChoices(localized);
+    const correctAnswer = getCorrectAnswer(localized);
+    const own = session.answers.find(
+      (answer) => answer.questionId === question.id,
+    );
 
-    if (this.globalQuiz.timerInterval)
-      clearInterval(this.globalQuiz.timerInterval);
-    if (this.globalQuiz.timer) clearTimeout(this.globalQuiz.timer);
+    const response: AnswerRevealResponse = {
+      roomId: quiz.roomId,
+      questionId: question.id,
+      questionNumber: quiz.currentQuestionIndex + 1,
+      correctAnswer:
+        correctAnswer === null
+          ? null
+          : toDisplayedAnswer(correctAnswer, choiceOrder),
+      distribution:
+        choices && stats.choiceCounts
+          ? (choiceOrder ?? choices.map((_, index) => index + 1)).map(
+              (choice) => ({
+                choice: choices[choice - 1],
+                count: stats.choiceCounts![choice - 1],
+                percentage: stats.choicePercentages![choice - 1],
+                correct: question.correctAnswers?.includes(choice) ?? false,
+              }),
+            )
+          : null,
+      answered: stats.answered,
+      correctCount: stats.correct,
+      eliminated,
+      result: own
+        ? {
+            answer:
+              own.userAnswer === null
+                ? null
+                : toDisplayedAnswer(own.userAnswer, own.choiceOrder),
+            correct: own.correct,
+            points: own.points,
+            wasPlaying: own.wasPlaying,
+            score: session.score,
+            livesLeft: session.livesLeft ?? null,
+            eliminated: session.eliminatedAt === quiz.currentQuestionIndex,
+          }
+        : null,
+      revealSeconds: quiz.revealSeconds,
+    };
+    this.toPlayer(playerId).emit('answerReveal', response);
+  }
 
-    let winner: string | null = null;
-    if (this.globalQuiz.event && this.globalQuiz.participants.size > 0) {
-      const participants = Array.from(this.globalQuiz.participants.values())
-        .filter((p: QuizParticipant) => p.finishedAt)
-        .sort((a: QuizParticipant, b: QuizParticipant) => {
-          if (a.score !== b.score) return b.score - a.score;
-          return a.finishedAt!.getTime() - b.finishedAt!.getTime();
-        });
+  private drawMoreQuestions(quiz: GlobalQuiz): Promise<Question[]> {
+    return this.selectQuestions(
+      {
+        theme: quiz.theme,
+        count: SURVIVAL_BATCH_SIZE,
+        excludeIds: quiz.questions.map((question) => question.id),
+      },
+      Array.from(quiz.sessions.keys()),
+    );
+  }
 
-      if (participants.length > 0) {
-        winner = participants[0].clientId;
-        await this.eventService.completeEvent(this.globalQuiz.event.id, winner!);
+  private async completeGlobalQuiz(
+    quiz: GlobalQuiz,
+    { ranking, winner }: QuizOutcome,
+  ) {
+    this.releaseGlobalQuiz(quiz);
+
+    // Même sans joueur restant, l'événement est clos en base
+    if (quiz.event) {
+      const eventId = quiz.event.id;
+      try {
+        await this.eventService.completeEvent(eventId, winner?.id ?? null);
+        this.server.to(quiz.roomId).emit('eventCompleted', { eventId, winner });
+      } catch (error) {
+        console.error(`Clôture de l'événement ${eventId} impossible:`, error);
       }
+    }
 
-      this.server.emit('eventCompleted', {
-        eventId: this.globalQuiz.event.id,
-        winner,
-      });
+    try {
+      await this.resultService.recordGame(quiz, ranking, winner?.id ?? null);
+      this.scheduleLeaderboardUpdate(quiz);
+    } catch (error) {
+      console.error(
+        `Enregistrement des résultats impossible pour ${quiz.gameId}:`,
+        error,
+      );
     }
 
-    this.quizSessions.forEach((session, clientId) => {
-      const client = this.server.sockets.sockets.get(clientId);
-      if (client) {
-        client.emit('quizCompleted', {
-          score: session.score,
-          totalQuestions: session.questions.length,
-          answers: session.answers,
-          joinedAt: session.joinedAt,
-          winner,
-          isWinner: clientId === winner,
-        });
-      }
+    quiz.sessions.forEach((session, playerId) => {
+      this.clock.clear(session.graceTimer);
+      this.toPlayer(playerId).emit('quizCompleted', {
+        roomId: quiz.roomId,
+        score: session.score,
+        totalQuestions: session.questions.length,
+        answers: session.answers,
+        joinedAt: session.joinedAt,
+        winner,
+        isWinner: playerId === winner?.id,
+      });
+      this.forgetPlayer(playerId);
     });
 
-    setTimeout(() => {
-      this.server.disconnectSockets(true);
+    this.clock.setTimeout(() => {
+      this.server.in(quiz.roomId).disconnectSockets(true);
     }, 5000);
-
-    this.globalQuiz = null;
-    this.quizSessions.clear();
   }
 
-  private getPlayerStats(): PlayerStats {
-    const activePlayers = Array.from(this.quizSessions.values()).filter(
-      (s) => !s.isWatching,
-    ).length;
-    const watchingPlayers = Array.from(this.quizSessions.values()).filter(
-      (s) => s.isWatching,
-    ).length;
+  /**
+   * Partie arrêtée en cours de route par une erreur : résultats gardés sans
+   * vainqueur, événement annulé, joueurs prévenus et libérés.
+   */
+  private async abandonGlobalQuiz(quiz: GlobalQuiz, error: unknown) {
+    console.error(`Partie ${quiz.gameId} (${quiz.roomId}) abandonnée:`, error);
+    this.releaseGlobalQuiz(quiz);
+
+    if (quiz.event) {
+      const eventId = quiz.event.id;
+      try {
+        // Motif conservé en base dans la langue par défaut
+        await this.eventService.abortEvent(
+          eventId,
+          translate(MessageCode.GameAborted, DEFAULT_LOCALE),
+        );
+      } catch (failure) {
+        console.error(
+          `Annulation de l'événement ${eventId} impossible:`,
+          failure,
+        );
+      }
+    }
 
-    return {
-      activePlayers,
-      watchingPlayers,
-      totalPlayers: activePlayers + watchingPlayers,
-    };
-  }
+    try {
+      await this.resultService.recordGame(
+        quiz,
+        this.quizEngine.rankPlayers(quiz),
+        null,
+      );
+    } catch (failure) {
+      console.error(
+        `Enregistrement des résultats impossible pour ${quiz.gameId}:`,
+        failure,
+      );
+    }
 
-  private broadcastPlayerStats() {
-    this.server.emit('playerStats', this.getPlayerStats());
+    quiz.sessions.forEach((session, playerId) => {
+      this.clock.clear(session.graceTimer);
+      this.toPlayer(playerId).emit('error', {
+        code: MessageCode.GameAborted,
+        message: translate(
+          MessageCode.GameAborted,
+          this.playerLocale(playerId),
+        ),
+      });
+      this.forgetPlayer(playerId);
+    });
+    this.server.in(quiz.roomId).disconnectSockets(true);
   }
 
-  private async initializeNextEvent() {
-    const nextEvent = await this.eventService.getNextEvent();
-    if (nextEvent) {
-      this.scheduleEventCountdown(nextEvent);
+  // Room, joueurs, sauvegarde et planning rendus, en fin de partie comme à l'abandon
+  private releaseGlobalQuiz(quiz: GlobalQuiz) {
+    this.rooms.removeQuiz(quiz.roomId).catch((error) => {
+      console.error(
+        `Libération des joueurs de ${quiz.roomId} impossible:`,
+        error,
+      );
+    });
+    this.leaders
+      .release(LeaderElectionService.roomKey(quiz.roomId))
+      .catch((error) => {
+        console.error(
+          `Libération de la room ${quiz.roomId} impossible:`,
+          error,
+        );
+      });
+
+    if (quiz.event) {
+      const eventId = quiz.event.id;
+      this.snapshots.delete(eventId).catch((error) => {
+        console.error(
+          `Suppression de la sauvegarde ${eventId} impossible:`,
+          error,
+        );
+      });
+      this.scheduler.release(eventId);
     }
   }
 
-  private scheduleEventCountdown(event: Event) {
-    const now = new Date().getTime();
-    const eventTime = new Date(event.startDate).getTime();
-    const lobbyTime = eventTime - 5 * 60 * 1000;
+  /** Classements touchés par la partie, diffusés avec ceux des parties voisines. */
+  private scheduleLeaderboardUpdate(quiz: GlobalQuiz) {
+    if (quiz.sessions.size === 0) return;
+    const pending = (this.pendingLeaderboardUpdate ??= {
+      gameIds: [],
+      theme: null,
+      themes: new Set(),
+      timer: this.clock.setTimeout(
+        () => void this.broadcastLeaderboards(),
+        LEADERBOARD_BROADCAST_DELAY_MS,
+      ),
+    });
+    pending.gameIds.push(quiz.gameId);
+    pending.theme = quiz.theme ?? null;
+    quiz.questions
+      .slice(0, quiz.currentQuestionIndex)
+      .forEach((question) => pending.themes.add(question.theme));
+  }
 
-    if (lobbyTime > now) {
-      this.nextEventTimer = setTimeout(() => {
-        this.openEventLobby(event);
-      }, lobbyTime - now);
-    } else if (eventTime > now) {
-      this.openEventLobby(event);
+  private async broadcastLeaderboards() {
+    const pending = this.pendingLeaderboardUpdate;
+    if (!pending) return;
+    this.pendingLeaderboardUpdate = undefined;
+    try {
+      const leaderboards = await Promise.all([
+        this.leaderboardService.getLeaderboard('all'),
+        this.leaderboardService.getLeaderboard('week'),
+        this.leaderboardService.getLeaderboard('month'),
+        ...[...pending.themes].map((theme) =>
+          this.leaderboardService.getLeaderboard('all', theme),
+        ),
+      ]);
+      const update: LeaderboardUpdate = {
+        gameId: pending.gameIds[pending.gameIds.length - 1],
+        theme: pending.theme,
+        gameIds: pending.gameIds,
+        leaderboards,
+      };
+      this.server.emit('leaderboardUpdate', update);
+    } catch (error) {
+      console.error('Calcul des classements impossible:', error);
     }
+  }
 
-    this.broadcastNextEvent(event);
+  private broadcastPlayerStats(quiz: GlobalQuiz) {
+    this.server
+      .to(quiz.roomId)
+      .emit('playerStats', this.quizEngine.getPlayerStats(quiz));
   }
 
-  private async openEventLobby(event: Event) {
-    await this.eventService.openLobby(event.id);
+  private async openEventLobby(scheduledEvent: Event) {
+    if (this.rooms.getLobby(scheduledEvent.id)) return;
+
+    let event: Event;
+    let participants: number[] = [];
+    try {
+      // Lobby ouvert par une instance disparue : il est repris en l'état
+      const current = await this.eventService.findOne(scheduledEvent.id);
+      if (current?.status === EventStatus.Lobby) {
+        event = current;
+        participants = await this.rooms.loadLobbyParticipants(event.id);
+      } else {
+        event = await this.eventService.openLobby(scheduledEvent.id);
+      }
+    } catch (error) {
+      console.error(
+        `Ouverture du lobby impossible pour l'événement ${scheduledEvent.id}:`,
+        error,
+      );
+      this.scheduler.release(scheduledEvent.id);
+      return;
+    }
 
-    this.currentLobby = {
+    const lobby: EventLobby = {
+      roomId: RoomRegistryService.eventRoomId(event.id),
       event,
-      participants: new Set(),
-      countdownTimer: undefined,
-      lobbyTimer: undefined,
+      participants: new Set(participants),
     };
+    this.rooms.addLobby(lobby);
 
-    this.startEventCountdown();
+    this.lobbyEngine.startCountdown(lobby);
 
-    this.server.emit('lobbyOpened', {
-      event: {
-        id: event.id,
-        theme: event.theme,
-        numberOfQuestions: event.numberOfQuestions,
-        startDate: event.startDate,
-        minPlayers: event.minPlayers,
-      },
-    });
+    this.server.emit('lobbyOpened', { event: this.toAnnouncement(event) });
   }
 
-  private startEventCountdown() {
-    if (!this.currentLobby) return;
-
-    const updateCountdown = () => {
-      if (!this.currentLobby) return;
+  private async handleLobbyEventChange(change: EventChange) {
+    const lobby = this.rooms.getLobby(change.eventId);
+    if (!lobby) return;
 
-      const now = new Date().getTime();
-      const eventTime = new Date(this.currentLobby.event.startDate).getTime();
-      const timeLeft = Math.max(0, Math.floor((eventTime - now) / 1000));
+    const event = change.event;
+    if (
+      change.type === 'deleted' ||
+      !event ||
+      event.status === EventStatus.Cancelled
+    ) {
+      console.log(`Lobby ${lobby.roomId} fermé - événement annulé`);
+      this.closeLobby(lobby);
+      this.scheduler.release(lobby.event.id);
+      this.emitLocalized(
+        'eventCancelled',
+        {
+          eventId: lobby.event.id,
+          required: lobby.event.minPlayers,
+          actual: lobby.participants.size,
+        },
+        this.cancellationCode(change.type === 'deleted' ? undefined : event),
+        { reason: event?.cancelReason ?? '' },
+      );
+      return;
+    }
 
-      this.server.emit('eventCountdown', {
-        timeLeft,
-        participants: this.currentLobby.participants.size,
-        minPlayers: this.currentLobby.event.minPlayers,
+    lobby.event = event;
+    const timeUntilStart =
+      new Date(event.startDate).getTime() - this.clock.now();
+    if (timeUntilStart > LOBBY_LEAD_TIME_MS) {
+      // Événement repoussé : le lobby rouvrira à la nouvelle heure
+      console.log(`Lobby ${lobby.roomId} fermé - événement repoussé`);
+      this.closeLobby(lobby);
+      await this.eventService.closeLobby(event.id);
+      this.server.emit('lobbyClosed', {
+        eventId: event.id,
+        startDate: new Date(event.startDate).toISOString(),
       });
+      this.scheduler.requeue(event);
+      return;
+    }
 
-      if (timeLeft <= 0) {
-        this.startEventIfReady();
-      }
-    };
+    this.broadcastLobbyUpdate(lobby);
+  }
 
-    updateCountdown();
-    this.currentLobby.countdownTimer = setInterval(updateCountdown, 1000);
+  private closeLobby(lobby: EventLobby) {
+    this.lobbyEngine.stopCountdown(lobby);
+    this.removeLobby(lobby.event.id);
+    this.server.in(lobby.roomId).socketsLeave(lobby.roomId);
+    lobby.participants.forEach((playerId) => this.forgetPlayer(playerId));
   }
 
-  private async startEventIfReady() {
-    if (!this.currentLobby) return;
+  private removeLobby(eventId: number) {
+    this.rooms.removeLobby(eventId);
+    this.rooms.forgetLobby(eventId).catch((error) => {
+      console.error(`Oubli du lobby ${eventId} impossible:`, error);
+    });
+  }
 
-    if (this.currentLobby.countdownTimer) {
-      clearInterval(this.currentLobby.countdownTimer);
-    }
+  private async startEventIfReady(lobby: EventLobby, outcome: LobbyOutcome) {
+    if (this.rooms.getLobby(lobby.event.id) !== lobby) return;
 
+    const { event } = lobby;
+    const actual = lobby.participants.size;
     console.log(
-      `Vérification finale des participants: ${this.currentLobby.participants.size}`,
-    );
-    console.log('Participants:', Array.from(this.currentLobby.participants));
-
-    if (this.currentLobby.participants.size > 0) {
-      console.log("Démarrage de l'événement avec les joueurs présents");
-      const lobbyParticipants = new Set(this.currentLobby.participants);
-      await this.startEventQuiz(this.currentLobby.event, lobbyParticipants as Set<string>);
-    } else {
-      console.log('Événement annulé - aucun joueur');
-      this.server.emit('eventCancelled', {
-        reason: 'Aucun joueur présent',
-        required: this.currentLobby.event.minPlayers,
-        actual: this.currentLobby.participants.size,
+      `Vérification finale des participants: ${actual}/${event.minPlayers}`,
+    );
+    console.log('Participants:', Array.from(lobby.participants));
+
+    try {
+      switch (outcome.action) {
+        case 'start':
+          console.log(
+            outcome.belowMinimum
+              ? "Démarrage de l'événement malgré le minimum non atteint"
+              : "Démarrage de l'événement avec les joueurs présents",
+          );
+          await this.startEventQuiz(lobby);
+          return;
+        case 'postpone':
+          await this.postponeLobbyEvent(lobby);
+          return;
+        case 'cancel':
+          console.log(
+            `Événement annulé - ${actual}/${event.minPlayers} joueurs`,
+          );
+          this.closeLobby(lobby);
+          await this.cancelLobbyEvent(lobby, outcome.code, outcome.params);
+      }
+    } catch (error) {
+      await this.failLobbyEvent(lobby, error);
+    }
+  }
+
+  /**
+   * Fin de compte à rebours en échec : partie abandonnée si elle a démarré,
+   * sinon lobby fermé, room rendue et événement annulé.
+   */
+  private async failLobbyEvent(lobby: EventLobby, error: unknown) {
+    const quiz = this.rooms.getQuiz(lobby.roomId);
+    if (quiz) {
+      await this.abandonGlobalQuiz(quiz, error);
+      return;
+    }
+
+    const eventId = lobby.event.id;
+    console.error(`Lancement de l'événement ${eventId} impossible:`, error);
+    this.closeLobby(lobby);
+    this.scheduler.release(eventId);
+    this.leaders
+      .release(LeaderElectionService.roomKey(lobby.roomId))
+      .catch((failure) => {
+        console.error(
+          `Libération de la room ${lobby.roomId} impossible:`,
+          failure,
+        );
       });
+
+    try {
+      // Motif conservé en base dans la langue par défaut
+      await this.eventService.abortEvent(
+        eventId,
+        translate(MessageCode.GameAborted, DEFAULT_LOCALE),
+      );
+    } catch (failure) {
+      console.error(
+        `Annulation de l'événement ${eventId} impossible:`,
+        failure,
+      );
     }
+    this.emitLocalized(
+      'eventCancelled',
+      {
+        eventId,
+        policy: lobby.event.minPlayersPolicy,
+        required: lobby.event.minPlayers,
+        actual: lobby.participants.size,
+      },
+      MessageCode.GameAborted,
+    );
+  }
+
+  private async postponeLobbyEvent(lobby: EventLobby) {
+    const event = await this.eventService.postponeEvent(lobby.event.id);
+    lobby.event = event;
+    this.scheduler.syncEvent(event);
+
+    console.log(
+      `Événement ${event.id} repoussé (${event.postponeCount}/${event.maxPostpones}) au ${new Date(event.startDate).toISOString()}`,
+    );
+    const actual = lobby.participants.size;
+    this.emitLocalized(
+      'eventPostponed',
+      {
+        eventId: event.id,
+        startDate: new Date(event.startDate).toISOString(),
+        postponeCount: event.postponeCount,
+        maxPostpones: event.maxPostpones,
+        required: event.minPlayers,
+        actual,
+      },
+      MessageCode.NotEnoughPlayers,
+      { actual, required: event.minPlayers },
+    );
+    this.lobbyEngine.startCountdown(lobby);
+  }
+
+  private cancellationCode(event?: Event): MessageCode {
+    if (!event) return MessageCode.EventDeleted;
+    return event.cancelReason
+      ? MessageCode.EventCancelled
+      : MessageCode.EventCancelledByAdmin;
+  }
 
-    this.currentLobby = null;
-    this.initializeNextEvent();
+  private async cancelLobbyEvent(
+    lobby: EventLobby,
+    code: MessageCode,
+    params: MessageParams = {},
+  ) {
+    this.scheduler.release(lobby.event.id);
+    // Motif conservé en base dans la langue par défaut
+    await this.eventService.abortEvent(
+      lobby.event.id,
+      translate(code, DEFAULT_LOCALE, params),
+    );
+    this.emitLocalized(
+      'eventCancelled',
+      {
+        eventId: lobby.event.id,
+        policy: lobby.event.minPlayersPolicy,
+        required: lobby.event.minPlayers,
+        actual: lobby.participants.size,
+      },
+      code,
+      params,
+    );
   }
 
-  private async startEventQuiz(event: Event, participants: Set<string>) {
-    const questions = await this.getQuestionsByTheme(
-      event.theme,
-      event.numberOfQuestions,
+  private async startEventQuiz(lobby: EventLobby) {
+    const { participants } = lobby;
+    const roomKey = LeaderElectionService.roomKey(lobby.roomId);
+    let acquired = false;
+    try {
+      acquired = await this.leaders.acquire(roomKey, () =>
+        this.abandonQuiz(lobby.roomId),
+      );
+    } catch (error) {
+      console.error(`Élection du leader de la room ${lobby.roomId}:`, error);
+    }
+    if (!acquired) {
+      // Participants gardés en commun : l'instance qui reprendra l'événement les retrouve
+      console.error(`Room ${lobby.roomId} déjà pilotée par une autre instance`);
+      this.lobbyEngine.stopCountdown(lobby);
+      this.rooms.removeLobby(lobby.event.id);
+      participants.forEach((playerId) => this.forgetPlayer(playerId));
+      this.scheduler.handOff(lobby.event.id);
+      return;
+    }
+    this.removeLobby(lobby.event.id);
+
+    const questions = await this.selectQuestions(
+      {
+        theme: lobby.event.theme,
+        count: lobby.event.numberOfQuestions,
+        difficultyCurve: lobby.event.difficultyCurve,
+      },
+      Array.from(participants),
     );
 
-    this.globalQuiz = {
-      isActive: true,
-      currentQuestionIndex: 0,
-      questions,
-      timeLimit: 30,
-      timeLeft: 30,
-      event,
-      participants: new Map(),
-    };
+    if (questions.length === 0) {
+      console.log('Événement annulé - aucune question');
+      this.closeLobby(lobby);
+      await this.leaders.release(roomKey);
+      await this.cancelLobbyEvent(lobby, MessageCode.NoQuestionsAvailable);
+      return;
+    }
 
-    participants.forEach((clientId) => {
-      this.globalQuiz!.participants.set(clientId, {
-        clientId,
-        score: 0,
-      } as QuizParticipant);
-
-      const session: QuizSession = {
-        questions,
-        currentIndex: 0,
-        score: 0,
-        answers: [],
-        isWatching: false,
-        timeLimit: 30,
-        timeLeft: 30,
-        joinedAt: 0,
-      };
-      this.quizSessions.set(clientId, session);
-    });
+    this.scheduler.markRunning(lobby.event.id);
+    const event = await this.eventService.startEvent(lobby.event.id);
 
-    console.log(`Quiz démarré avec ${participants.size} participants`);
+    const quiz = this.quizEngine.createQuiz(
+      this.eventQuizSettings(event, questions),
+    );
+    this.rooms.addQuiz(quiz);
+
+    for (const playerId of participants) {
+      // Un joueur déjà engagé dans une partie libre reste dans sa room
+      if (await this.rooms.getEngagement(playerId)) continue;
+
+      const player = this.players.get(playerId);
+      const session = this.quizEngine.addPlayer(
+        quiz,
+        {
+          playerId,
+          nickname: player?.nickname ?? `Joueur ${playerId}`,
+          score: 0,
+        },
+        false,
+      );
+      await this.openSession(quiz, playerId, session);
+    }
+
+    console.log(
+      `Quiz démarré avec ${quiz.sessions.size} participants dans la room ${quiz.roomId}`,
+    );
 
     this.server.emit('eventStarted', {
       event: {
@@ -523,88 +1197,482 @@ export class GatewayService {
     });
 
     // Démarrer automatiquement le quiz pour tous les participants
-    participants.forEach((clientId) => {
-      const client = this.server.sockets.sockets.get(clientId);
-      if (client) {
-        client.emit('autoStartQuiz', {
-          theme: event.theme,
-          limit: event.numberOfQuestions,
-          timeLimit: 30,
-        });
-      }
+    this.server.to(quiz.roomId).emit('autoStartQuiz', {
+      roomId: quiz.roomId,
+      theme: event.theme,
+      limit: event.numberOfQuestions,
+      timeLimit: gameConfig.questionTimeSeconds,
+      gameMode: event.gameMode,
     });
 
-    this.startGlobalQuiz();
+    this.quizEngine.start(quiz);
   }
 
-  joinLobby(clientId: string) {
-    if (!this.currentLobby) {
-      const client = this.server.sockets.sockets.get(clientId);
-      client?.emit('error', { message: 'Aucun lobby ouvert actuellement' });
-      return;
+  private eventQuizSettings(event: Event, questions: Question[]): QuizSettings {
+    return {
+      roomId: RoomRegistryService.eventRoomId(event.id),
+      theme: event.theme,
+      questions,
+      timeLimit: gameConfig.questionTimeSeconds,
+      scoringMode: event.scoringMode,
+      gameMode: event.gameMode,
+      lives: event.lives,
+      shuffleChoices: event.shuffleChoices,
+      maxAnswerChanges: event.maxAnswerChanges,
+      revealSeconds: event.revealSeconds,
+      reconnectGraceSeconds: event.reconnectGraceSeconds,
+      event,
+    };
+  }
+
+  // Sauvegarde à chaque question, pour reprendre la partie après un arrêt
+  private saveSnapshot(quiz: GlobalQuiz) {
+    if (!quiz.event) return;
+    const eventId = quiz.event.id;
+    this.snapshots
+      .save(eventId, this.quizEngine.snapshot(quiz))
+      .catch((error) => {
+        console.error(
+          `Sauvegarde de l'événement ${eventId} impossible:`,
+          error,
+        );
+      });
+  }
+
+  /**
+   * Partie d'événement interrompue par un arrêt du serveur : reprise depuis sa
+   * dernière sauvegarde après la fenêtre de reconnexion, ou close en gardant
+   * les résultats si la sauvegarde manque, est incomplète ou trop ancienne.
+   */
+  private async recoverEvent(event: Event): Promise<boolean> {
+    const roomId = RoomRegistryService.eventRoomId(event.id);
+    const roomKey = LeaderElectionService.roomKey(roomId);
+    // Partie déjà pilotée ici
+    if (this.rooms.getQuiz(roomId)) return true;
+    // Partie toujours pilotée par une autre instance
+    if (
+      !(await this.leaders.acquire(roomKey, () => this.abandonQuiz(roomId)))
+    ) {
+      return false;
+    }
+
+    const snapshot = await this.snapshots.find(event.id);
+    const questions = snapshot
+      ? await this.questionService.findByIds(snapshot.state.questionIds)
+      : [];
+    const quiz =
+      snapshot &&
+      this.quizEngine.restoreQuiz(
+        this.eventQuizSettings(event, questions),
+        snapshot.state,
+      );
+    const resumable =
+      !!snapshot &&
+      questions.length === snapshot.state.questionIds.length &&
+      this.clock.now() - new Date(snapshot.takenAt).getTime() <=
+        gameConfig.recoveryWindowMs;
+
+    if (!quiz || !resumable) {
+      await this.abortRecoveredEvent(event, quiz ?? undefined);
+      await this.leaders.release(roomKey);
+      return false;
     }
 
-    const wasAlreadyInLobby = this.currentLobby.participants.has(clientId);
-    this.currentLobby.participants.add(clientId);
+    this.rooms.addQuiz(quiz);
+    for (const [playerId, session] of quiz.sessions) {
+      await this.rooms.assignPlayer(playerId, {
+        roomId,
+        resumeToken: session.resumeToken,
+      });
+      // Joueurs tous déconnectés par l'arrêt : même fenêtre de grâce que d'habitude
+      session.disconnectedAt = this.clock.now();
+      session.graceTimer = this.clock.setTimeout(
+        () => this.removeSession(quiz, playerId),
+        quiz.reconnectGraceSeconds * 1000,
+      );
+    }
     console.log(
-      `Joueur ${clientId} ${wasAlreadyInLobby ? 'déjà dans' : 'a rejoint'} le lobby. Total: ${this.currentLobby.participants.size}`,
+      `Événement ${event.id} repris à la question ${quiz.currentQuestionIndex + 1} - reconnexion possible pendant ${quiz.reconnectGraceSeconds}s`,
+    );
+    quiz.resumesAt = this.clock.now() + quiz.reconnectGraceSeconds * 1000;
+    quiz.timer = this.clock.setTimeout(
+      () => void this.quizEngine.resume(quiz),
+      quiz.reconnectGraceSeconds * 1000,
     );
-    this.broadcastLobbyUpdate();
+    return true;
+  }
 
+  private async abortRecoveredEvent(event: Event, quiz?: GlobalQuiz) {
+    console.log(`Événement ${event.id} interrompu - partie close sans reprise`);
+    // Motif conservé en base dans la langue par défaut
+    await this.eventService.abortEvent(
+      event.id,
+      translate(MessageCode.EventInterrupted, DEFAULT_LOCALE),
+    );
+    if (quiz) {
+      // Résultats arrêtés à la dernière sauvegarde, sans vainqueur
+      try {
+        await this.resultService.recordGame(
+          quiz,
+          this.quizEngine.rankPlayers(quiz),
+          null,
+        );
+      } catch (error) {
+        console.error(
+          `Enregistrement des résultats impossible pour ${quiz.gameId}:`,
+          error,
+        );
+      }
+    }
+    await this.snapshots.delete(event.id);
+  }
+
+  async joinLobby(
+    clientId: string,
+    payload: JoinLobbyPayload,
+  ): Promise<LobbyJoinedResponse> {
     const client = this.server.sockets.sockets.get(clientId);
-    client?.emit('lobbyJoined', {
-      event: this.currentLobby.event,
-      participants: this.currentLobby.participants.size,
-    });
+    const player = this.socketPlayers.get(clientId);
+    if (!client || !player) {
+      throw new SocketException(MessageCode.AuthRequired);
+    }
+
+    const ref = this.toPlayerRef(client, player);
+    const lobby = this.rooms.getLobby(payload.eventId);
+    if (lobby) return this.addToLobby(ref, lobby);
+
+    // Lobby piloté par une autre instance
+    const joined = await this.forward(
+      this.server.serverSideEmitWithAck('joinLobby', ref, payload.eventId),
+    );
+    if (!joined) {
+      throw new SocketException(MessageCode.NoOpenLobby);
+    }
+    return joined;
   }
 
-  private broadcastLobbyUpdate() {
-    if (!this.currentLobby) return;
+  private async addToLobby(
+    player: PlayerRef,
+    lobby: EventLobby,
+  ): Promise<LobbyJoinedResponse> {
+    const wasAlreadyInLobby = lobby.participants.has(player.id);
+    lobby.participants.add(player.id);
+    this.players.set(player.id, player);
+    await this.rooms.saveLobbyParticipants(lobby);
+    this.joinPlayerSockets(player.id, lobby.roomId);
+    console.log(
+      `Joueur ${player.id} ${wasAlreadyInLobby ? 'déjà dans' : 'a rejoint'} le lobby ${lobby.roomId}. Total: ${lobby.participants.size}`,
+    );
+    this.broadcastLobbyUpdate(lobby);
+
+    const response: LobbyJoinedResponse = {
+      event: this.toAnnouncement(lobby.event),
+      participants: lobby.participants.size,
+    };
+    this.toPlayer(player.id).emit('lobbyJoined', response);
+    return response;
+  }
 
+  private broadcastLobbyUpdate(lobby: EventLobby) {
     console.log(
-      `Mise à jour lobby: ${this.currentLobby.participants.size}/${this.currentLobby.event.minPlayers} participants`,
+      `Mise à jour lobby ${lobby.roomId}: ${lobby.participants.size}/${lobby.event.minPlayers} participants`,
     );
-    this.server.emit('lobbyUpdate', {
-      participants: this.currentLobby.participants.size,
-      minPlayers: this.currentLobby.event.minPlayers,
+    this.server.to(lobby.roomId).emit('lobbyUpdate', {
+      eventId: lobby.event.id,
+      participants: lobby.participants.size,
+      minPlayers: lobby.event.minPlayers,
     });
   }
 
-  private broadcastNextEvent(event: Event) {
-    this.server.emit('nextEvent', {
+  private broadcastNextEvent() {
+    this.eventService
+      .getNextEvent()
+      .then((event) => {
+        if (event) {
+          this.server.emit('nextEvent', this.toAnnouncement(event));
+        }
+      })
+      .catch((error) => {
+        console.error('Lecture du prochain événement impossible:', error);
+      });
+  }
+
+  private sendNextEventInfo(playerId: number) {
+    this.eventService
+      .getNextEvent()
+      .then((event) => {
+        if (event) {
+          const client = this.getClient(playerId);
+          client?.emit('nextEvent', this.toAnnouncement(event));
+        }
+      })
+      .catch((error) => {
+        console.error('Lecture du prochain événement impossible:', error);
+      });
+  }
+
+  private sendLobbyInfo(playerId: number, lobby: EventLobby) {
+    this.toPlayer(playerId).emit('lobbyOpened', {
+      event: this.toAnnouncement(lobby.event),
+    });
+  }
+
+  private toAnnouncement(event: Event): EventAnnouncement {
+    return {
       id: event.id,
       theme: event.theme,
-      startDate: event.startDate,
       numberOfQuestions: event.numberOfQuestions,
+      startDate: new Date(event.startDate).toISOString(),
+      minPlayers: event.minPlayers,
+    };
+  }
+
+  /** Signale au journal d'audit une première réponse suspecte. */
+  private auditAnswer(
+    quiz: GlobalQuiz,
+    playerId: number,
+    ip: string | undefined,
+    answeredAt: number,
+  ) {
+    const timing = {
+      playerId,
+      ip,
+      responseTimeMs: Math.round(
+        answeredAt - (quiz.questionStartedAt ?? answeredAt),
+      ),
+    };
+    const flags = detectSuspiciousAnswer(
+      timing,
+      quiz.answerTimings,
+      gameConfig,
+    );
+    quiz.answerTimings.push(timing);
+    if (flags.length === 0) return;
+
+    const questionId = quiz.questions[quiz.currentQuestionIndex].id;
+    this.answerAuditService
+      .record(
+        flags.map((flag) => ({
+          gameId: quiz.gameId,
+          eventId: quiz.event?.id,
+          questionId,
+          ...timing,
+          ...flag,
+        })),
+      )
+      .catch((error) => {
+        console.error("Écriture du journal d'audit impossible:", error);
+      });
+  }
+
+  // Chaque proxy ajoute à droite de X-Forwarded-For l'adresse qu'il a vue :
+  // le client est l'entrée ajoutée par le premier proxy de confiance
+  private getClientAddress(client: QuizSocket): string | undefined {
+    const { trustedProxies } = gameConfig;
+    const forwarded = client.handshake.headers['x-forwarded-for'];
+    if (trustedProxies > 0 && forwarded) {
+      const addresses = (
+        Array.isArray(forwarded) ? forwarded.join(',') : forwarded
+      )
+        .split(',')
+        .map((address) => address.trim())
+        .filter(Boolean);
+      const address = addresses[Math.max(addresses.length - trustedProxies, 0)];
+      if (address) return address;
+    }
+    return client.handshake.address || undefined;
+  }
+
+  private getLocale(client: QuizSocket): Locale {
+    return this.socketLocales.get(client.id) ?? DEFAULT_LOCALE;
+  }
+
+  /** Erreur avec un code stable et son message dans la langue du client. */
+  describeError(
+    client: QuizSocket,
+    code: MessageCode,
+    params: MessageParams = {},
+    details?: string[],
+  ): SocketError {
+    return {
+      code,
+      message: translate(code, this.getLocale(client), params),
+      ...(details ? { details } : {}),
+    };
+  }
+
+  private emitError(
+    client: QuizSocket,
+    code: MessageCode,
+    params: MessageParams = {},
+  ) {
+    client.emit('error', this.describeError(client, code, params));
+  }
+
+  /** Diffusion à tous, avec le motif traduit pour chaque client. */
+  private emitLocalized<E extends 'eventPostponed' | 'eventCancelled'>(
+    eventName: E,
+    payload: Omit<
+      Parameters<ServerToClientEvents[E]>[0],
+      keyof LocalizedReason
+    >,
+    code: MessageCode,
+    params: MessageParams = {},
+  ) {
+    SUPPORTED_LOCALES.forEach((locale) => {
+      const args = [
+        { ...payload, code, reason: translate(code, locale, params) },
+      ] as Parameters<ServerToClientEvents[E]>;
+      this.server
+        .to(RoomRegistryService.localeRoom(locale))
+        .emit(eventName, ...args);
     });
   }
 
-  private sendNextEventInfo(clientId: string) {
-    this.eventService.getNextEvent().then((event) => {
-      if (event) {
-        const client = this.server.sockets.sockets.get(clientId);
-        client?.emit('nextEvent', {
-          id: event.id,
-          theme: event.theme,
-          startDate: event.startDate,
-          numberOfQuestions: event.numberOfQuestions,
-        });
+  private getClient(playerId: number): QuizSocket | undefined {
+    const clientId = this.playerSockets.get(playerId);
+    return clientId ? this.server.sockets.sockets.get(clientId) : undefined;
+  }
+
+  // Sockets du joueur sur toutes les instances
+  private toPlayer(playerId: number) {
+    return this.server.to(RoomRegistryService.playerRoom(playerId));
+  }
+
+  private joinPlayerSockets(playerId: number, roomId: string) {
+    this.server
+      .in(RoomRegistryService.playerRoom(playerId))
+      .socketsJoin(roomId);
+  }
+
+  private playerLocale(playerId: number): Locale {
+    return this.players.get(playerId)?.locale ?? DEFAULT_LOCALE;
+  }
+
+  private async setLocale(client: QuizSocket, locale: Locale) {
+    const previous = this.getLocale(client);
+    this.socketLocales.set(client.id, locale);
+    if (previous === locale) return;
+    await client.leave(RoomRegistryService.localeRoom(previous));
+    await client.join(RoomRegistryService.localeRoom(locale));
+  }
+
+  private toPlayerRef(client: QuizSocket, player: Player): PlayerRef {
+    return {
+      id: player.id,
+      nickname: player.nickname,
+      locale: this.getLocale(client),
+      socketId: client.id,
+      address: this.getClientAddress(client),
+    };
+  }
+
+  // Le joueur n'a plus ni partie ni lobby sur cette instance
+  private forgetPlayer(playerId: number) {
+    const inLobby = this.rooms
+      .getLobbies()
+      .some((lobby) => lobby.participants.has(playerId));
+    if (!inLobby && !this.rooms.getPlayerQuiz(playerId)) {
+      this.players.delete(playerId);
+    }
+  }
+
+  /** Exécute une commande d'une autre instance et lui renvoie le résultat. */
+  private async respond<T>(
+    ack: (result: RemoteResult<T>) => void,
+    task: () => T | Promise<T>,
+  ) {
+    try {
+      ack({ ok: true, data: await task() });
+    } catch (error) {
+      if (error instanceof SocketException) {
+        ack({ ok: false, code: error.code, params: error.params });
+        return;
       }
+      console.error('Commande inter-instances en échec:', error);
+      ack({ ok: false, code: MessageCode.ServerUnavailable });
+    }
+  }
+
+  /** Résultat de l'instance qui a pris la commande en charge, null si aucune. */
+  private async forward<T>(
+    request: Promise<(RemoteResult<T> | null)[]>,
+  ): Promise<T | null> {
+    let results: (RemoteResult<T> | null)[];
+    try {
+      results = await request;
+    } catch (error) {
+      console.error('Instance injoignable:', error);
+      throw new SocketException(MessageCode.ServerUnavailable);
+    }
+    const result = results.find((candidate) => candidate !== null);
+    if (!result) return null;
+    if (!result.ok) throw new SocketException(result.code, result.params);
+    return result.data;
+  }
+
+  /** Bail perdu : la partie est laissée à l'instance qui le reprend. */
+  private abandonQuiz(roomId: string) {
+    const quiz = this.rooms.forgetQuiz(roomId);
+    if (!quiz) return;
+    console.warn(`Partie ${roomId} abandonnée par cette instance`);
+    this.quizEngine.stop(quiz);
+    quiz.sessions.forEach((session, playerId) => {
+      this.clock.clear(session.graceTimer);
+      this.forgetPlayer(playerId);
     });
   }
 
-  private sendLobbyInfo(clientId: string) {
-    if (!this.currentLobby) return;
+  private abandonEvent(eventId: number) {
+    const lobby = this.rooms.getLobby(eventId);
+    if (lobby) {
+      this.lobbyEngine.stopCountdown(lobby);
+      this.rooms.removeLobby(eventId);
+      lobby.participants.forEach((playerId) => this.forgetPlayer(playerId));
+    }
+    this.abandonQuiz(RoomRegistryService.eventRoomId(eventId));
+  }
 
-    const client = this.server.sockets.sockets.get(clientId);
-    client?.emit('lobbyOpened', {
-      event: {
-        id: this.currentLobby.event.id,
-        theme: this.currentLobby.event.theme,
-        numberOfQuestions: this.currentLobby.event.numberOfQuestions,
-        startDate: this.currentLobby.event.startDate,
-        minPlayers: this.currentLobby.event.minPlayers,
-      },
+  private createParticipant(player: PlayerRef): QuizParticipant {
+    return {
+      playerId: player.id,
+      nickname: player.nickname,
+      score: 0,
+    };
+  }
+
+  /** Ordre des choix vu par le joueur, tiré à la première présentation. */
+  private getChoiceOrder(
+    quiz: GlobalQuiz,
+    session: QuizSession,
+    question: Question,
+  ): number[] | undefined {
+    if (!quiz.shuffleChoices) return undefined;
+    if (!session.choiceOrders.has(question.id)) {
+      const order = createChoiceOrder(question);
+      if (!order) return undefined;
+      session.choiceOrders.set(question.id, order);
+    }
+    return session.choiceOrders.get(question.id);
+  }
+
+  private async openSession(
+    quiz: GlobalQuiz,
+    playerId: number,
+    session: QuizSession,
+  ) {
+    await this.rooms.assignPlayer(playerId, {
+      roomId: quiz.roomId,
+      resumeToken: session.resumeToken,
+    });
+    this.joinPlayerSockets(playerId, quiz.roomId);
+    this.toPlayer(playerId).emit('quizSession', {
+      roomId: quiz.roomId,
+      resumeToken: session.resumeToken,
+      reconnectGraceSeconds: quiz.reconnectGraceSeconds,
+      scoringMode: quiz.scoringMode,
+      gameMode: quiz.gameMode,
+      lives: quiz.lives,
     });
   }
 }
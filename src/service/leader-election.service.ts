@@ -0,0 +1,115 @@
+import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
+import { GAME_CLOCK } from '../game/clock';
+import type { GameClock, TimerHandle } from '../game/clock';
+import { INSTANCE_ID, STATE_STORE } from '../store/state-store';
+import type { StateStore } from '../store/state-store';
+import { clusterConfig } from '../config/cluster.config';
+
+interface HeldLease {
+  timer: TimerHandle;
+  // Fin du bail selon la dernière prolongation réussie
+  expiresAt: number;
+  onLost?: () => void;
+}
+
+/**
+ * Élection d'un leader par ressource (événement, room) : l'instance qui tient
+ * le bail est seule à piloter ses minuteries, et le prolonge tant qu'elle vit.
+ */
+@Injectable()
+export class LeaderElectionService implements OnModuleDestroy {
+  private leases = new Map<string, HeldLease>();
+  private readonly ttlMs = clusterConfig.leaderLeaseMs;
+
+  constructor(
+    @Inject(STATE_STORE) private readonly store: StateStore,
+    @Inject(GAME_CLOCK) private readonly clock: GameClock,
+    @Inject(INSTANCE_ID) readonly instanceId: string,
+  ) {}
+
+  static eventKey(eventId: number): string {
+    return `event:${eventId}`;
+  }
+
+  static roomKey(roomId: string): string {
+    return `room:${roomId}`;
+  }
+
+  /**
+   * Tente de prendre la direction de `name`. `onLost` est appelé si le bail
+   * ne peut plus être prolongé : une autre instance peut alors le reprendre.
+   */
+  async acquire(name: string, onLost?: () => void): Promise<boolean> {
+    if (this.leases.has(name)) return true;
+    const acquired = await this.store.acquireLease(
+      this.leaseKey(name),
+      this.instanceId,
+      this.ttlMs,
+    );
+    if (!acquired || this.leases.has(name)) return acquired;
+
+    const lease: HeldLease = {
+      expiresAt: this.clock.now() + this.ttlMs,
+      onLost,
+      timer: this.clock.setInterval(
+        () => void this.renew(name, lease),
+        Math.floor(this.ttlMs / 3),
+      ),
+    };
+    this.leases.set(name, lease);
+    return true;
+  }
+
+  isLeader(name: string): boolean {
+    return this.leases.has(name);
+  }
+
+  /** Instance qui tient actuellement le bail, le cas échéant. */
+  holder(name: string): Promise<string | undefined> {
+    return this.store.get<string>(this.leaseKey(name));
+  }
+
+  async release(name: string) {
+    const lease = this.leases.get(name);
+    if (!lease) return;
+    this.clock.clear(lease.timer);
+    this.leases.delete(name);
+    await this.store.releaseLease(this.leaseKey(name), this.instanceId);
+  }
+
+  async onModuleDestroy() {
+    await Promise.all(
+      [...this.leases.keys()].map((name) => this.release(name)),
+    );
+  }
+
+  private async renew(name: string, lease: HeldLease) {
+    let renewed: boolean | undefined;
+    try {
+      renewed = await this.store.acquireLease(
+        this.leaseKey(name),
+        this.instanceId,
+        this.ttlMs,
+      );
+    } catch (error) {
+      console.error(`Prolongation du bail ${name} impossible:`, error);
+    }
+    if (this.leases.get(name) !== lease) return;
+
+    if (renewed) {
+      lease.expiresAt = this.clock.now() + this.ttlMs;
+      return;
+    }
+    // Store injoignable : le bail reste valable jusqu'à son échéance
+    if (renewed === undefined && this.clock.now() < lease.expiresAt) return;
+
+    console.warn(`Bail ${name} perdu par l'instance ${this.instanceId}`);
+    this.clock.clear(lease.timer);
+    this.leases.delete(name);
+    lease.onLost?.();
+  }
+
+  private leaseKey(name: string): string {
+    return `leader:${name}`;
+  }
+}
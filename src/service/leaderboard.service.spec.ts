@@ -0,0 +1,124 @@
+import { BadRequestException } from '@nestjs/common';
+import { LeaderboardService } from './leaderboard.service';
+import { ManualClock } from '../game/manual-clock';
+
+type Call = [method: string, args: unknown[]];
+
+// Query builder factice : garde les appels et renvoie les lignes prévues
+const fakeRepository = (rows: object[]) => {
+  const calls: Call[] = [];
+  const builder: object = new Proxy(
+    {},
+    {
+      get: (_target, method: string) =>
+        method === 'getRawMany'
+          ? () => Promise.resolve(rows)
+          : (...args: unknown[]) => {
+              calls.push([method, args]);
+              return builder;
+            },
+    },
+  );
+  return { calls, repository: { createQueryBuilder: () => builder } };
+};
+
+const argsOf = (calls: Call[], method: string) =>
+  calls.filter(([name]) => name === method).map(([, args]) => args);
+
+describe('LeaderboardService', () => {
+  // Mercredi 15 octobre 2025, 12h UTC
+  const clock = new ManualClock(Date.UTC(2025, 9, 15, 12));
+
+  const row = {
+    playerId: '4',
+    nickname: 'Alice',
+    wins: '2',
+    gamesPlayed: '3',
+    averageScore: '7.456',
+    correct: '6',
+    total: '9',
+  };
+
+  it('ramène le thème demandé à son slug', async () => {
+    const answers = fakeRepository([row]);
+    const service = new LeaderboardService(
+      fakeRepository([]).repository as never,
+      answers.repository as never,
+      clock,
+    );
+
+    const leaderboard = await service.getLeaderboard(
+      'all',
+      ' Histoire de France',
+    );
+
+    expect(leaderboard.theme).toBe('histoire-de-france');
+    expect(argsOf(answers.calls, 'where')).toEqual([
+      ['question.theme = :theme', { theme: 'histoire-de-france' }],
+    ]);
+    expect(leaderboard.entries).toEqual([
+      {
+        rank: 1,
+        playerId: 4,
+        nickname: 'Alice',
+        wins: 2,
+        gamesPlayed: 3,
+        averageScore: 7.46,
+        accuracy: 0.667,
+      },
+    ]);
+  });
+
+  it('refuse un thème sans aucune lettre ni chiffre', async () => {
+    const service = new LeaderboardService(
+      fakeRepository([]).repository as never,
+      fakeRepository([]).repository as never,
+      clock,
+    );
+
+    await expect(service.getLeaderboard('all', '???')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('compare les scores des différents modes à la même échelle', async () => {
+    const results = fakeRepository([row]);
+    const service = new LeaderboardService(
+      results.repository as never,
+      fakeRepository([{ playerId: '4', correct: '6', total: '9' }])
+        .repository as never,
+      clock,
+    );
+
+    const { entries } = await service.getLeaderboard('all');
+
+    const [[average]] = argsOf(results.calls, 'addSelect').filter(
+      ([, alias]) => alias === 'averageScore',
+    );
+    expect(average).toBe(
+      "AVG(result.score / CASE result.scoringMode WHEN 'classic' THEN 1 WHEN 'time-weighted' THEN 1000 WHEN 'streak' THEN 1 WHEN 'negative-marking' THEN 1 ELSE 1 END)",
+    );
+    expect(entries[0].accuracy).toBe(0.667);
+  });
+
+  it('part du lundi de la semaine et du premier du mois, en UTC', async () => {
+    const results = fakeRepository([]);
+    const service = new LeaderboardService(
+      results.repository as never,
+      fakeRepository([]).repository as never,
+      clock,
+    );
+
+    await expect(service.getLeaderboard('week')).resolves.toMatchObject({
+      since: '2025-10-13T00:00:00.000Z',
+      entries: [],
+    });
+    await expect(service.getLeaderboard('month')).resolves.toMatchObject({
+      since: '2025-10-01T00:00:00.000Z',
+    });
+    expect(argsOf(results.calls, 'andWhere')).toEqual([
+      ['result.playedAt >= :since', { since: new Date('2025-10-13') }],
+      ['result.playedAt >= :since', { since: new Date('2025-10-01') }],
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { GameResult } from '../model/game-result.entity';
+import { AnswerRecord } from '../model/answer-record.entity';
+import { GAME_CLOCK } from '../game/clock';
+import type { GameClock } from '../game/clock';
+import { getScoringStrategy, ScoringMode } from '../game/scoring';
+import { slugify } from '../utils/slug';
+import type {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+} from '../types';
+
+interface LeaderboardRow {
+  playerId: string;
+  nickname: string;
+  wins: string;
+  gamesPlayed: string;
+  averageScore: string;
+}
+
+interface AccuracyRow {
+  playerId: string;
+  correct: string;
+  total: string;
+}
+
+type ThemeLeaderboardRow = LeaderboardRow & Omit<AccuracyRow, 'playerId'>;
+
+@Injectable()
+export class LeaderboardService {
+  constructor(
+    @InjectRepository(GameResult)
+    private readonly gameResultRepository: Repository<GameResult>,
+    @InjectRepository(AnswerRecord)
+    private readonly answerRecordRepository: Repository<AnswerRecord>,
+    @Inject(GAME_CLOCK) private readonly clock: GameClock,
+  ) {}
+
+  /**
+   * Classement de la période. Avec un thème, seules comptent les réponses aux
+   * questions de ce thème, quel que soit le thème choisi pour la partie. Le
+   * score moyen est ramené à l'échelle du mode classique (un point par bonne
+   * réponse), pour comparer des parties de modes de score différents.
+   */
+  async getLeaderboard(
+    period: LeaderboardPeriod,
+    theme?: string,
+    limit: number = 10,
+  ): Promise<Leaderboard> {
+    // Même écriture que les thèmes enregistrés : « Histoire » -> « histoire »
+    const slug = theme === undefined ? undefined : slugify(theme);
+    if (slug === '') {
+      throw new BadRequestException(`Thème invalide: ${theme}`);
+    }
+
+    const since = this.getPeriodStart(period);
+    const entries = slug
+      ? await this.getThemeEntries(slug, since, limit)
+      : await this.getOverallEntries(since, limit);
+
+    return {
+      period,
+      theme: slug ?? null,
+      since: since?.toISOString() ?? null,
+      entries,
+    };
+  }
+
+  private async getOverallEntries(
+    since: Date | null,
+    limit: number,
+  ): Promise<LeaderboardEntry[]> {
+    const rows = await this.applyPeriod(
+      this.gameResultRepository
+        .createQueryBuilder('result')
+        .innerJoin('result.player', 'player')
+        .select('result.playerId', 'playerId')
+        .addSelect('player.nickname', 'nickname')
+        .addSelect('SUM(CASE WHEN result.isWinner THEN 1 ELSE 0 END)', 'wins')
+        .addSelect('COUNT(result.id)', 'gamesPlayed')
+        .addSelect(`AVG(${this.normalized('result.score')})`, 'averageScore')
+        .groupBy('result.playerId')
+        .addGroupBy('player.nickname')
+        .orderBy('wins', 'DESC')
+        .addOrderBy('averageScore', 'DESC')
+        .addOrderBy('gamesPlayed', 'DESC')
+        .limit(limit),
+      since,
+    ).getRawMany<LeaderboardRow>();
+
+    const accuracy = await this.getAccuracy(
+      rows.map((row) => Number(row.playerId)),
+      since,
+    );
+    return rows.map((row, index) =>
+      this.toEntry(row, index, accuracy.get(Number(row.playerId)) ?? 0),
+    );
+  }
+
+  // Parties où le joueur a répondu à au moins une question du thème ; le
+  // score moyen ne compte que les points gagnés sur ces questions
+  private async getThemeEntries(
+    theme: string,
+    since: Date | null,
+    limit: number,
+  ): Promise<LeaderboardEntry[]> {
+    const rows = await this.applyPeriod(
+      this.answerRecordRepository
+        .createQueryBuilder('answer')
+        // Les questions supprimées depuis comptent toujours
+        .withDeleted()
+        .innerJoin('answer.gameResult', 'result')
+        .innerJoin('answer.question', 'question')
+        .innerJoin('result.player', 'player')
+        .select('answer.playerId', 'playerId')
+        .addSelect('player.nickname', 'nickname')
+        .addSelect(
+          'COUNT(DISTINCT CASE WHEN result.isWinner THEN result.id END)',
+          'wins',
+        )
+        .addSelect('COUNT(DISTINCT result.id)', 'gamesPlayed')
+        .addSelect(
+          `SUM(${this.normalized('answer.points')}) / COUNT(DISTINCT result.id)`,
+          'averageScore',
+        )
+        .addSelect('SUM(CASE WHEN answer.correct THEN 1 ELSE 0 END)', 'correct')
+        .addSelect('COUNT(answer.id)', 'total')
+        .where('question.theme = :theme', { theme })
+        .groupBy('answer.playerId')
+        .addGroupBy('player.nickname')
+        .orderBy('wins', 'DESC')
+        .addOrderBy('averageScore', 'DESC')
+        .addOrderBy('gamesPlayed', 'DESC')
+        .limit(limit),
+      since,
+    ).getRawMany<ThemeLeaderboardRow>();
+
+    return rows.map((row, index) =>
+      this.toEntry(row, index, this.toAccuracy(row)),
+    );
+  }
+
+  private async getAccuracy(
+    playerIds: number[],
+    since: Date | null,
+  ): Promise<Map<number, number>> {
+    if (playerIds.length === 0) return new Map();
+
+    const rows = await this.applyPeriod(
+      this.answerRecordRepository
+        .createQueryBuilder('answer')
+        .innerJoin('answer.gameResult', 'result')
+        .select('answer.playerId', 'playerId')
+        .addSelect('SUM(CASE WHEN answer.correct THEN 1 ELSE 0 END)', 'correct')
+        .addSelect('COUNT(answer.id)', 'total')
+        .where('answer.playerId IN (:...playerIds)', { playerIds })
+        .groupBy('answer.playerId'),
+      since,
+    ).getRawMany<AccuracyRow>();
+
+    return new Map(
+      rows.map((row) => [Number(row.playerId), this.toAccuracy(row)]),
+    );
+  }
+
+  // Points de la partie `result` divisés par la valeur d'une bonne réponse dans son mode
+  private normalized(points: string): string {
+    const scales = Object.values(ScoringMode)
+      .map(
+        (mode) =>
+          `WHEN '${mode}' THEN ${getScoringStrategy(mode).pointsPerAnswer}`,
+      )
+      .join(' ');
+    return `${points} / CASE result.scoringMode ${scales} ELSE 1 END`;
+  }
+
+  private toEntry(
+    row: LeaderboardRow,
+    index: number,
+    accuracy: number,
+  ): LeaderboardEntry {
+    return {
+      rank: index + 1,
+      playerId: Number(row.playerId),
+      nickname: row.nickname,
+      wins: Number(row.wins),
+      gamesPlayed: Number(row.gamesPlayed),
+      averageScore: Math.round(Number(row.averageScore) * 100) / 100,
+      accuracy,
+    };
+  }
+
+  private toAccuracy({ correct, total }: Omit<AccuracyRow, 'playerId'>) {
+    return Number(total) > 0
+      ? Math.round((Number(correct) / Number(total)) * 1000) / 1000
+      : 0;
+  }
+
+  private applyPeriod<T extends GameResult | AnswerRecord>(
+    query: SelectQueryBuilder<T>,
+    since: Date | null,
+  ): SelectQueryBuilder<T> {
+    if (since) query.andWhere('result.playedAt >= :since', { since });
+    return query;
+  }
+
+  // Semaine calendaire (lundi) et mois calendaire en cours, en UTC
+  private getPeriodStart(period: LeaderboardPeriod): Date | null {
+    const now = new Date(this.clock.now());
+    switch (period) {
+      case 'week': {
+        const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+        return new Date(
+          Date.UTC(
+            now.getUTCFullYear(),
+            now.getUTCMonth(),
+            now.getUTCDate() - daysSinceMonday,
+          ),
+        );
+      }
+      case 'month':
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      default:
+        return null;
+    }
+  }
+}
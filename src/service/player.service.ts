@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { Player } from '../model/player.entity';
+import { CreatePlayerDto } from '../dto/create-player.dto';
+import type { RegisteredPlayer } from '../types/player.interface';
+
+@Injectable()
+export class PlayerService {
+  constructor(
+    @InjectRepository(Player)
+    private readonly playerRepository: Repository<Player>,
+  ) {}
+
+  async register(createPlayerDto: CreatePlayerDto): Promise<RegisteredPlayer> {
+    const player = this.playerRepository.create({
+      nickname: createPlayerDto.nickname.trim(),
+      token: randomBytes(32).toString('hex'),
+      lastSeenAt: new Date(),
+    });
+    const saved = await this.playerRepository.save(player);
+    return {
+      id: saved.id,
+      nickname: saved.nickname,
+      token: saved.token,
+      createdAt: saved.createdAt,
+    };
+  }
+
+  async findOne(id: number): Promise<Player | null> {
+    return this.playerRepository.findOne({ where: { id } });
+  }
+
+  async findByToken(token: string): Promise<Player | null> {
+    return this.playerRepository.findOne({ where: { token } });
+  }
+
+  async touch(id: number): Promise<void> {
+    await this.playerRepository.update(id, { lastSeenAt: new Date() });
+  }
+}
@@ -0,0 +1,123 @@
+import { QuestionTransferService } from './question-transfer.service';
+import { Question } from '../model/question.entity';
+import type { UploadedQuestionFile } from '../types';
+
+const jsonFile = (questions: object[]): UploadedQuestionFile => ({
+  originalname: 'questions.json',
+  mimetype: 'application/json',
+  buffer: Buffer.from(JSON.stringify(questions)),
+});
+
+const row = (questionText: string, externalId?: string) => ({
+  externalId,
+  theme: 'Histoire',
+  questionText,
+  choices: ['A', 'B'],
+  correctAnswers: [1],
+});
+
+describe('QuestionTransferService', () => {
+  let saved: Partial<Question>[];
+  let transaction: jest.Mock;
+  let service: QuestionTransferService;
+
+  beforeEach(() => {
+    saved = [];
+    const manager = {
+      create: (_entity: unknown, question: Partial<Question>) => question,
+      save: (question: Partial<Question>) => {
+        saved.push(question);
+        return Promise.resolve({ ...question, id: question.id ?? 100 });
+      },
+    };
+    transaction = jest.fn(
+      (work: (transactionManager: typeof manager) => Promise<void>) =>
+        work(manager),
+    );
+    const existing = [
+      { id: 1, questionText: 'Question existante', externalId: 'q-1' },
+      { id: 2, questionText: 'Autre question', externalId: null },
+    ];
+
+    service = new QuestionTransferService(
+      {
+        find: () => Promise.resolve(existing),
+        manager: { transaction },
+      } as never,
+      {
+        find: () => Promise.resolve([{ slug: 'histoire', active: true }]),
+      } as never,
+    );
+  });
+
+  const file = jsonFile([
+    row('Nouvelle question'),
+    row('Question existante, reformulée', 'q-1'),
+    row('  autre QUESTION '),
+  ]);
+
+  it("simule l'import sans rien enregistrer", async () => {
+    const report = await service.importQuestions(file, true);
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      total: 3,
+      created: 1,
+      updated: 1,
+      duplicates: 1,
+      invalid: 0,
+    });
+    expect(
+      report.rows.map(({ status, questionId }) => [status, questionId]),
+    ).toEqual([
+      ['created', undefined],
+      ['updated', 1],
+      ['duplicate', 2],
+    ]);
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it('enregistre les lignes retenues dans une transaction', async () => {
+    const report = await service.importQuestions(file, false);
+
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(saved.map(({ id, theme }) => [id, theme])).toEqual([
+      [undefined, 'histoire'],
+      [1, 'histoire'],
+    ]);
+    expect(report.rows.map(({ questionId }) => questionId)).toEqual([
+      100, 1, 2,
+    ]);
+  });
+
+  it('rejette un externalId répété dans le fichier', async () => {
+    const report = await service.importQuestions(
+      jsonFile([row('Première', 'q-9'), row('Seconde', 'q-9')]),
+      false,
+    );
+
+    expect(report.rows[1]).toEqual({
+      row: 2,
+      status: 'invalid',
+      externalId: 'q-9',
+      errors: ['externalId q-9 déjà utilisé à la ligne 1'],
+    });
+    expect(saved.map(({ questionText }) => questionText)).toEqual(['Première']);
+  });
+
+  it('lit un fichier CSV exporté par un tableur', async () => {
+    const report = await service.importQuestions(
+      {
+        originalname: 'questions.csv',
+        mimetype: 'text/csv',
+        buffer: Buffer.from(
+          '\uFEFFtheme;questionText;choices;correctAnswers\r\n' +
+            'histoire;"Sur deux\nlignes ?";Oui|Non;1\r\n',
+        ),
+      },
+      true,
+    );
+
+    expect(report.rows).toEqual([{ row: 1, status: 'created' }]);
+  });
+});
@@ -0,0 +1,336 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { Question } from '../model/question.entity';
+import { Theme } from '../model/theme.entity';
+import { CreateQuestionDto } from '../dto/create-question.dto';
+import { normalizeText, validateQuestionShape } from '../game/question-types';
+import { CsvValue, parseCsv, toCsv } from '../utils/csv';
+import { slugify } from '../utils/slug';
+import type {
+  ImportReport,
+  ImportRowResult,
+  QuestionFileFormat,
+  UploadedQuestionFile,
+} from '../types';
+
+// Colonnes des fichiers d'import/export ; les listes sont séparées par « | »
+// et les traductions écrites en JSON dans leur cellule
+const COLUMNS = [
+  'externalId',
+  'theme',
+  'type',
+  'difficulty',
+  'tags',
+  'questionText',
+  'choices',
+  'correctAnswers',
+  'numericAnswer',
+  'tolerance',
+  'acceptedAnswers',
+  'translations',
+] as const;
+const LIST_SEPARATOR = '|';
+
+interface PlannedRow {
+  result: ImportRowResult;
+  dto?: CreateQuestionDto;
+}
+
+@Injectable()
+export class QuestionTransferService {
+  constructor(
+    @InjectRepository(Question)
+    private readonly questionRepository: Repository<Question>,
+    @InjectRepository(Theme)
+    private readonly themeRepository: Repository<Theme>,
+  ) {}
+
+  /**
+   * Importe un fichier de questions. Chaque ligne est validée comme un
+   * POST /questions ; les doublons (texte normalisé) sont ignorés, un
+   * externalId répété dans le fichier est rejeté et une ligne dont
+   * l'externalId existe met à jour la question correspondante.
+   */
+  async importQuestions(
+    file: UploadedQuestionFile,
+    dryRun: boolean,
+    format?: QuestionFileFormat,
+  ): Promise<ImportReport> {
+    const records = this.parseFile(file, format ?? this.detectFormat(file));
+
+    // Une question supprimée dont l'externalId revient est restaurée
+    const existing = await this.questionRepository.find({
+      select: {
+        id: true,
+        questionText: true,
+        externalId: true,
+        deletedAt: true,
+      },
+      withDeleted: true,
+    });
+    const idsByText = new Map(
+      existing.flatMap((question) =>
+        question.deletedAt
+          ? []
+          : [[normalizeText(question.questionText), question.id]],
+      ),
+    );
+    const idsByExternalId = new Map(
+      existing.flatMap((question) =>
+        question.externalId ? [[question.externalId, question.id]] : [],
+      ),
+    );
+
+    // Comme resolveSlug : un thème désactivé ne reçoit pas de questions
+    const themes = new Map(
+      (
+        await this.themeRepository.find({
+          select: { slug: true, active: true },
+        })
+      ).map((theme) => [theme.slug, theme.active]),
+    );
+
+    const rowsByText = new Map<string, number>();
+    const rowsByExternalId = new Map<string, number>();
+    const planned: PlannedRow[] = [];
+    for (const [index, record] of records.entries()) {
+      const row = index + 1;
+      const dto = plainToInstance(CreateQuestionDto, record);
+      const errors = await this.validateRow(dto);
+      if (errors.length === 0) {
+        dto.theme = slugify(dto.theme);
+        const active = themes.get(dto.theme);
+        if (active === undefined) {
+          errors.push(`Thème inconnu: ${dto.theme}`);
+        } else if (!active) {
+          errors.push(`Le thème ${dto.theme} est désactivé`);
+        }
+      }
+      if (errors.length > 0) {
+        planned.push({
+          result: {
+            row,
+            status: 'invalid',
+            externalId: dto.externalId,
+            errors,
+          },
+        });
+        continue;
+      }
+
+      // Deux lignes ne peuvent pas viser la même question
+      const externalIdRow = dto.externalId
+        ? rowsByExternalId.get(dto.externalId)
+        : undefined;
+      if (externalIdRow !== undefined) {
+        planned.push({
+          result: {
+            row,
+            status: 'invalid',
+            externalId: dto.externalId,
+            errors: [
+              `externalId ${dto.externalId} déjà utilisé à la ligne ${externalIdRow}`,
+            ],
+          },
+        });
+        continue;
+      }
+      if (dto.externalId) rowsByExternalId.set(dto.externalId, row);
+
+      const text = normalizeText(dto.questionText);
+      const firstRow = rowsByText.get(text);
+      if (firstRow !== undefined) {
+        planned.push({
+          result: {
+            row,
+            status: 'duplicate',
+            externalId: dto.externalId,
+            errors: [`Doublon de la ligne ${firstRow}`],
+          },
+        });
+        continue;
+      }
+      rowsByText.set(text, row);
+
+      const targetId = dto.externalId
+        ? idsByExternalId.get(dto.externalId)
+        : undefined;
+      const sameTextId = idsByText.get(text);
+      if (sameTextId !== undefined && sameTextId !== targetId) {
+        planned.push({
+          result: {
+            row,
+            status: 'duplicate',
+            externalId: dto.externalId,
+            questionId: sameTextId,
+            errors: [`Question déjà présente (n°${sameTextId})`],
+          },
+        });
+        continue;
+      }
+
+      planned.push({
+        dto,
+        result: {
+          row,
+          status: targetId !== undefined ? 'updated' : 'created',
+          externalId: dto.externalId,
+          questionId: targetId,
+        },
+      });
+    }
+
+    if (!dryRun) {
+      await this.questionRepository.manager.transaction(async (manager) => {
+        for (const { dto, result } of planned) {
+          if (!dto) continue;
+          const saved = await manager.save(
+            manager.create(Question, {
+              ...dto,
+              id: result.questionId,
+              deletedAt: null,
+            }),
+          );
+          result.questionId = saved.id;
+        }
+      });
+    }
+
+    const rows = planned.map(({ result }) => result);
+    const count = (status: ImportRowResult['status']) =>
+      rows.filter((row) => row.status === status).length;
+    return {
+      dryRun,
+      total: rows.length,
+      created: count('created'),
+      updated: count('updated'),
+      duplicates: count('duplicate'),
+      invalid: count('invalid'),
+      rows,
+    };
+  }
+
+  async exportQuestions(
+    format: QuestionFileFormat,
+    theme?: string,
+  ): Promise<string> {
+    const questions = await this.questionRepository.find({
+      where: theme ? { theme: slugify(theme) } : {},
+      order: { id: 'ASC' },
+    });
+    const rows = questions.map((question) => this.toRecord(question));
+
+    if (format === 'json') {
+      return JSON.stringify(rows, null, 2);
+    }
+    return toCsv(
+      [...COLUMNS],
+      rows.map((row) =>
+        COLUMNS.map((column) => {
+          const value = row[column];
+          if (Array.isArray(value)) return value.join(LIST_SEPARATOR);
+          return (
+            value && typeof value === 'object' ? JSON.stringify(value) : value
+          ) as CsvValue;
+        }),
+      ),
+    );
+  }
+
+  private async validateRow(dto: CreateQuestionDto): Promise<string[]> {
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) {
+      return errors.flatMap((error) => this.flattenErrors(error));
+    }
+    return validateQuestionShape(dto);
+  }
+
+  private flattenErrors(error: ValidationError): string[] {
+    return [
+      ...Object.values(error.constraints ?? {}),
+      ...(error.children ?? []).flatMap((child) => this.flattenErrors(child)),
+    ];
+  }
+
+  private detectFormat(file: UploadedQuestionFile): QuestionFileFormat {
+    const name = file.originalname.toLowerCase();
+    if (name.endsWith('.json') || file.mimetype.includes('json')) return 'json';
+    if (name.endsWith('.csv') || file.mimetype.includes('csv')) return 'csv';
+    throw new BadRequestException(
+      'Format du fichier inconnu - préciser format=csv ou format=json',
+    );
+  }
+
+  private parseFile(
+    file: UploadedQuestionFile,
+    format: QuestionFileFormat,
+  ): Record<string, unknown>[] {
+    const content = file.buffer.toString('utf8');
+    if (format === 'csv') {
+      return parseCsv(content).map((row) => this.fromCsvRow(row));
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new BadRequestException('Fichier JSON invalide');
+    }
+    // Tableau de questions, ou { questions: [...] }
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(list)) {
+      throw new BadRequestException(
+        'Le fichier JSON doit contenir un tableau de questions',
+      );
+    }
+    return list.map((item) =>
+      item && typeof item === 'object' ? (item as Record<string, unknown>) : {},
+    );
+  }
+
+  private fromCsvRow(row: Record<string, string>): Record<string, unknown> {
+    const text = (column: string) => row[column]?.trim() || undefined;
+    const list = (column: string) =>
+      text(column)
+        ?.split(LIST_SEPARATOR)
+        .map((value) => value.trim());
+    // Les tableurs français écrivent les décimales avec une virgule
+    const number = (value?: string) =>
+      value === undefined ? undefined : Number(value.replace(',', '.'));
+    // Un JSON illisible est laissé tel quel et rejeté par la validation
+    const json = (value?: string): unknown => {
+      if (value === undefined) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    };
+
+    return {
+      externalId: text('externalId'),
+      theme: text('theme'),
+      type: text('type'),
+      difficulty: text('difficulty'),
+      tags: list('tags'),
+      questionText: text('questionText'),
+      choices: list('choices'),
+      correctAnswers: list('correctAnswers')?.map((value) => number(value)),
+      numericAnswer: number(text('numericAnswer')),
+      tolerance: number(text('tolerance')),
+      acceptedAnswers: list('acceptedAnswers'),
+      translations: json(text('translations')),
+    };
+  }
+
+  private toRecord(question: Question): Record<string, unknown> {
+    return Object.fromEntries(
+      COLUMNS.map((column) => [column, question[column] ?? null]),
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { IsNull, Like, Not } from 'typeorm';
+import { QuestionService } from './question.service';
+import { ListQuestionsQueryDto } from '../dto/list-questions-query.dto';
+import { Question, QuestionDifficulty } from '../model/question.entity';
+
+const query = (params: Record<string, string>) =>
+  plainToInstance(ListQuestionsQueryDto, params);
+
+describe('QuestionService', () => {
+  let questions: Question[];
+  let repository: Record<string, jest.Mock>;
+  let service: QuestionService;
+
+  beforeEach(() => {
+    questions = [
+      { id: 1, questionText: 'Active' } as Question,
+      { id: 2, questionText: 'Supprimée', deletedAt: new Date() } as Question,
+    ];
+    // Les questions supprimées ne sont vues qu'avec withDeleted, comme en base
+    const lookup = ({
+      where,
+      withDeleted,
+    }: {
+      where: { id: number };
+      withDeleted?: boolean;
+    }) =>
+      Promise.resolve(
+        questions.find(
+          (question) =>
+            question.id === where.id && (withDeleted || !question.deletedAt),
+        ) ?? null,
+      );
+    repository = {
+      findAndCount: jest.fn(() => Promise.resolve([[questions[0]], 21])),
+      findOne: jest.fn(lookup),
+      softDelete: jest.fn(() => Promise.resolve()),
+      restore: jest.fn((id: number) => {
+        questions.find((question) => question.id === id)!.deletedAt = undefined;
+        return Promise.resolve();
+      }),
+    };
+    service = new QuestionService(repository as never, {} as never);
+  });
+
+  it('pagine et filtre la liste des questions', async () => {
+    const page = await service.findAll(
+      query({
+        page: '3',
+        limit: '10',
+        theme: 'Histoire de France',
+        difficulty: QuestionDifficulty.Hard,
+        search: '100%_sûr',
+        sort: 'questionText',
+        order: 'desc',
+      }),
+    );
+
+    expect(page).toEqual({
+      items: [questions[0]],
+      total: 21,
+      page: 3,
+      limit: 10,
+    });
+    expect(repository.findAndCount).toHaveBeenCalledWith({
+      where: {
+        theme: 'histoire-de-france',
+        difficulty: QuestionDifficulty.Hard,
+        questionText: Like('%100\\%\\_sûr%'),
+      },
+      withDeleted: false,
+      order: { questionText: 'DESC', id: 'ASC' },
+      skip: 20,
+      take: 10,
+    });
+  });
+
+  it('liste la corbeille à la demande', async () => {
+    await service.findAll(query({ deleted: 'true' }));
+
+    expect(repository.findAndCount).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { deletedAt: Not(IsNull()) },
+        withDeleted: true,
+        order: { id: 'ASC' },
+        skip: 0,
+      }),
+    );
+  });
+
+  it('refuse un tri ou un sens de tri inconnu', async () => {
+    const errors = await validate(query({ sort: 'password', order: 'up' }));
+    expect(errors.map(({ property }) => property)).toEqual(['sort', 'order']);
+  });
+
+  it('répond 404 pour une question absente ou supprimée', async () => {
+    await expect(service.findOneOrFail(2)).rejects.toThrow(NotFoundException);
+    await expect(service.update(9, {})).rejects.toThrow(NotFoundException);
+    await expect(service.remove(9)).rejects.toThrow(NotFoundException);
+    expect(repository.softDelete).not.toHaveBeenCalled();
+  });
+
+  it('supprime logiquement puis restaure une question', async () => {
+    await service.remove(1);
+    expect(repository.softDelete).toHaveBeenCalledWith(1);
+
+    await expect(service.restore(2)).resolves.toMatchObject({ id: 2 });
+    expect(repository.restore).toHaveBeenCalledWith(2);
+    await expect(service.restore(1)).rejects.toThrow(ConflictException);
+    await expect(service.restore(9)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -1,48 +1,167 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { FindOptionsWhere, In, IsNull, Like, Not, Repository } from 'typeorm';
 import { CreateQuestionDto } from '../dto/create-question.dto';
 import { UpdateQuestionDto } from '../dto/update-question.dto';
+import { ListQuestionsQueryDto } from '../dto/list-questions-query.dto';
 import { Question } from '../model/question.entity';
+import { validateQuestionShape } from '../game/question-types';
+import { pickQuestions } from '../game/question-selection';
+import { ThemeService } from './theme.service';
+import { slugify } from '../utils/slug';
+import type { Paginated, QuestionSelectionOptions } from '../types';
 
 @Injectable()
 export class QuestionService {
   constructor(
     @InjectRepository(Question)
     private readonly questionRepository: Repository<Question>,
+    private readonly themeService: ThemeService,
   ) {}
 
   async create(createQuestionDto: CreateQuestionDto): Promise<Question> {
-    const question = this.questionRepository.create(createQuestionDto);
+    this.assertValidShape(createQuestionDto);
+    const question = this.questionRepository.create({
+      ...createQuestionDto,
+      theme: await this.themeService.resolveSlug(createQuestionDto.theme),
+    });
     return this.questionRepository.save(question);
   }
 
-  async findAll(): Promise<Question[]> {
-    return this.questionRepository.find();
+  async findAll(query: ListQuestionsQueryDto): Promise<Paginated<Question>> {
+    const { theme, difficulty, type, search, sort, order, deleted } = query;
+    const { page, limit } = query;
+    const where: FindOptionsWhere<Question> = {
+      ...(theme && { theme: slugify(theme) }),
+      ...(difficulty && { difficulty }),
+      ...(type && { type }),
+      ...(search && { questionText: Like(`%${escapeLike(search)}%`) }),
+      ...(deleted && { deletedAt: Not(IsNull()) }),
+    };
+
+    const [items, total] = await this.questionRepository.findAndCount({
+      where,
+      withDeleted: deleted,
+      order: { [sort]: order, ...(sort !== 'id' && { id: 'ASC' }) },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { items, total, page, limit };
   }
 
-  async findOne(id: number): Promise<Question | null> {
-    return this.questionRepository.findOne({ where: { id } });
+  async findOneOrFail(id: number): Promise<Question> {
+    const question = await this.questionRepository.findOne({ where: { id } });
+    if (!question) {
+      throw new NotFoundException(`Question ${id} introuvable`);
+    }
+    return question;
   }
 
-  async update(id: number, updateQuestionDto: UpdateQuestionDto): Promise<Question | null> {
-    await this.questionRepository.update(id, updateQuestionDto);
-    return this.findOne(id);
+  async update(
+    id: number,
+    updateQuestionDto: UpdateQuestionDto,
+  ): Promise<Question> {
+    const existing = await this.findOneOrFail(id);
+    this.assertValidShape({ ...existing, ...updateQuestionDto });
+    await this.questionRepository.update(id, {
+      ...updateQuestionDto,
+      ...(updateQuestionDto.theme && {
+        theme: await this.themeService.resolveSlug(updateQuestionDto.theme),
+      }),
+    });
+    return this.findOneOrFail(id);
   }
 
+  /** Suppression logique : la question n'est plus tirée mais reste liée aux résultats. */
   async remove(id: number): Promise<void> {
-    await this.questionRepository.delete(id);
+    await this.findOneOrFail(id);
+    await this.questionRepository.softDelete(id);
+  }
+
+  async restore(id: number): Promise<Question> {
+    const question = await this.questionRepository.findOne({
+      where: { id },
+      withDeleted: true,
+    });
+    if (!question) {
+      throw new NotFoundException(`Question ${id} introuvable`);
+    }
+    if (!question.deletedAt) {
+      throw new ConflictException(`La question ${id} n'est pas supprimée`);
+    }
+    await this.questionRepository.restore(id);
+    return this.findOneOrFail(id);
   }
 
   async findRandomQuestions(limit: number = 10): Promise<Question[]> {
-    return this.questionRepository
+    return this.selectQuestions({ count: limit });
+  }
+
+  /**
+   * Tirage aléatoire sans ORDER BY RAND() : seuls les identifiants et
+   * difficultés des candidates sont chargés puis mélangés en mémoire.
+   */
+  async selectQuestions(
+    options: QuestionSelectionOptions,
+  ): Promise<Question[]> {
+    const { theme, difficulty, tags = [], excludeIds = [] } = options;
+    const query = this.questionRepository
       .createQueryBuilder('question')
-      .orderBy('RAND()')
-      .limit(limit)
-      .getMany();
+      .select(['question.id', 'question.difficulty']);
+
+    if (theme) query.andWhere('question.theme = :theme', { theme });
+    if (difficulty) {
+      query.andWhere('question.difficulty = :difficulty', { difficulty });
+    }
+    tags.forEach((tag, index) => {
+      query.andWhere(`FIND_IN_SET(:tag${index}, question.tags) > 0`, {
+        [`tag${index}`]: tag,
+      });
+    });
+    if (excludeIds.length > 0) {
+      query.andWhere('question.id NOT IN (:...excludeIds)', { excludeIds });
+    }
+
+    const ids = pickQuestions(await query.getMany(), options.count, {
+      difficultyCurve: options.difficultyCurve,
+      avoidIds: options.avoidIds,
+    });
+    if (ids.length === 0) return [];
+
+    const questions = await this.questionRepository.findBy({ id: In(ids) });
+    const byId = new Map(questions.map((question) => [question.id, question]));
+    return ids.flatMap((id) => byId.get(id) ?? []);
+  }
+
+  /** Questions d'une partie reprise, dans l'ordre donné, supprimées comprises. */
+  async findByIds(ids: number[]): Promise<Question[]> {
+    if (ids.length === 0) return [];
+    const questions = await this.questionRepository.find({
+      where: { id: In(ids) },
+      withDeleted: true,
+    });
+    const byId = new Map(questions.map((question) => [question.id, question]));
+    return ids.flatMap((id) => byId.get(id) ?? []);
   }
 
   async findByTheme(theme: string): Promise<Question[]> {
-    return this.questionRepository.find({ where: { theme } });
+    return this.questionRepository.find({ where: { theme: slugify(theme) } });
   }
+
+  private assertValidShape(question: Partial<Question>) {
+    const errors = validateQuestionShape(question);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+}
+
+// Les jokers de LIKE saisis par l'utilisateur sont cherchés tels quels
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
 }
@@ -0,0 +1,87 @@
+import { ResultService } from './result.service';
+import { GameResult } from '../model/game-result.entity';
+import { ScoringMode } from '../game/scoring';
+import { GameMode } from '../game/game-modes';
+import type { GlobalQuiz, QuizAnswer, QuizSession } from '../types';
+
+const answer = (questionId: number, wasPlaying = true): QuizAnswer =>
+  ({
+    questionId,
+    userAnswer: 1,
+    correct: true,
+    points: 1,
+    wasPlaying,
+    responseTimeMs: 1200,
+  }) as QuizAnswer;
+
+const session = (overrides: Partial<QuizSession>): QuizSession =>
+  ({ score: 0, answers: [], joinedAt: 0, ...overrides }) as QuizSession;
+
+describe('ResultService', () => {
+  const service = new ResultService(
+    {
+      create: (result: Partial<GameResult>) => result,
+      save: (results: GameResult[]) => Promise.resolve(results),
+    } as never,
+    {} as never,
+  );
+
+  const quiz = {
+    gameId: 'partie-1',
+    roomId: 'event-7',
+    theme: 'histoire',
+    scoringMode: ScoringMode.Classic,
+    gameMode: GameMode.Elimination,
+    questions: [{ id: 11 }, { id: 12 }, { id: 13 }],
+    event: { id: 7 },
+    sessions: new Map([
+      [
+        1,
+        session({
+          score: 2,
+          // Éliminé à la deuxième question, spectateur ensuite
+          answers: [answer(11), answer(12), answer(13, false)],
+          eliminatedAt: 1,
+        }),
+      ],
+      // Arrivé pour la troisième question
+      [2, session({ score: 1, answers: [answer(13)], joinedAt: 2 })],
+    ]),
+  } as unknown as GlobalQuiz;
+
+  it('numérote les réponses selon la question jouée dans la partie', async () => {
+    const [first, second] = await service.recordGame(quiz, [1, 2], 1);
+
+    expect(
+      first.answers.map(({ questionId, round }) => [questionId, round]),
+    ).toEqual([
+      [11, 1],
+      [12, 2],
+    ]);
+    expect(
+      second.answers.map(({ questionId, round }) => [questionId, round]),
+    ).toEqual([[13, 3]]);
+  });
+
+  it('enregistre le rang, le vainqueur et la manche d’élimination', async () => {
+    const results = await service.recordGame(quiz, [2, 1, 3], 2);
+
+    expect(
+      results.map(({ playerId, rank, isWinner, eliminatedAtRound }) => ({
+        playerId,
+        rank,
+        isWinner,
+        eliminatedAtRound,
+      })),
+    ).toEqual([
+      { playerId: 2, rank: 1, isWinner: true, eliminatedAtRound: undefined },
+      { playerId: 1, rank: 2, isWinner: false, eliminatedAtRound: 2 },
+    ]);
+    expect(results[0]).toMatchObject({
+      eventId: 7,
+      totalQuestions: 3,
+      joinedAt: 2,
+      score: 1,
+    });
+  });
+});
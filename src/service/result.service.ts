@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, MoreThanOrEqual, Repository } from 'typeorm';
+import { GameResult } from '../model/game-result.entity';
+import { AnswerRecord } from '../model/answer-record.entity';
+import type { GlobalQuiz, Paginated } from '../types';
+
+@Injectable()
+export class ResultService {
+  constructor(
+    @InjectRepository(GameResult)
+    private readonly gameResultRepository: Repository<GameResult>,
+    @InjectRepository(AnswerRecord)
+    private readonly answerRecordRepository: Repository<AnswerRecord>,
+  ) {}
+
+  /**
+   * Enregistre le résultat de chaque joueur et l'historique de ses réponses.
+   * `ranking` liste les joueurs du premier au dernier.
+   */
+  async recordGame(
+    quiz: GlobalQuiz,
+    ranking: number[],
+    winnerId: number | null,
+  ): Promise<GameResult[]> {
+    // Manche = rang de la question dans la partie, même pour un joueur arrivé en cours
+    const rounds = new Map(
+      quiz.questions.map((question, index) => [question.id, index + 1]),
+    );
+    const results = ranking.flatMap((playerId, index) => {
+      const session = quiz.sessions.get(playerId);
+      if (!session) return [];
+
+      const answers = session.answers
+        .map((answer, position) => ({
+          answer,
+          round:
+            rounds.get(answer.questionId) ?? session.joinedAt + position + 1,
+        }))
+        .filter(({ answer }) => answer.wasPlaying)
+        .map(({ answer, round }) =>
+          Object.assign(new AnswerRecord(), {
+            playerId,
+            questionId: answer.questionId,
+            round,
+            chosenAnswer: answer.userAnswer ?? undefined,
+            choiceOrder: answer.choiceOrder,
+            correct: answer.correct,
+            points: answer.points,
+            responseTimeMs: answer.responseTimeMs,
+          }),
+        );
+
+      return this.gameResultRepository.create({
+        gameId: quiz.gameId,
+        roomId: quiz.roomId,
+        playerId,
+        eventId: quiz.event?.id,
+        theme: quiz.theme,
+        scoringMode: quiz.scoringMode,
+        gameMode: quiz.gameMode,
+        score: session.score,
+        rank: index + 1,
+        isWinner: playerId === winnerId,
+        totalQuestions: quiz.questions.length,
+        joinedAt: session.joinedAt,
+        eliminatedAtRound:
+          session.eliminatedAt !== undefined
+            ? session.eliminatedAt + 1
+            : undefined,
+        answers,
+      });
+    });
+
+    return this.gameResultRepository.save(results);
+  }
+
+  /** Questions auxquelles ces joueurs ont répondu depuis `since`. */
+  async findRecentQuestionIds(
+    playerIds: number[],
+    since: Date,
+  ): Promise<number[]> {
+    if (playerIds.length === 0) return [];
+
+    const records = await this.answerRecordRepository.find({
+      select: { questionId: true },
+      where: {
+        playerId: In(playerIds),
+        gameResult: { playedAt: MoreThanOrEqual(since) },
+      },
+      relations: { gameResult: true },
+    });
+    return [...new Set(records.flatMap((record) => record.questionId ?? []))];
+  }
+
+  async findEventResults(eventId: number): Promise<GameResult[]> {
+    return this.gameResultRepository.find({
+      where: { eventId },
+      relations: { player: true, answers: { question: true } },
+      order: { rank: 'ASC', answers: { round: 'ASC' } },
+      // Les questions supprimées depuis restent visibles dans l'historique
+      withDeleted: true,
+    });
+  }
+
+  async findPlayerHistory(
+    playerId: number,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<GameResult>> {
+    const [items, total] = await this.gameResultRepository.findAndCount({
+      where: { playerId },
+      relations: { event: true, answers: { question: true } },
+      order: { playedAt: 'DESC', answers: { round: 'ASC' } },
+      withDeleted: true,
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { items, total, page, limit };
+  }
+}
@@ -0,0 +1,138 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { LeaderElectionService } from './leader-election.service';
+import { STATE_STORE } from '../store/state-store';
+import type { StateStore } from '../store/state-store';
+import type { Locale } from '../i18n/locale';
+import type { GlobalQuiz, EventLobby, PlayerEngagement } from '../types';
+
+/**
+ * Registre des parties et lobbies en cours. Chaque partie vit dans sa propre
+ * room socket.io, identifiée par `roomId`, et n'est tenue en mémoire que par
+ * l'instance qui la pilote. L'engagement des joueurs est partagé entre
+ * instances via le StateStore.
+ */
+@Injectable()
+export class RoomRegistryService {
+  private quizzes = new Map<string, GlobalQuiz>();
+  private lobbies = new Map<number, EventLobby>();
+
+  constructor(
+    @Inject(STATE_STORE) private readonly store: StateStore,
+    private readonly leaders: LeaderElectionService,
+  ) {}
+
+  static eventRoomId(eventId: number): string {
+    return `event-${eventId}`;
+  }
+
+  // Room personnelle : rejointe par les sockets du joueur sur toutes les instances
+  static playerRoom(playerId: number): string {
+    return `player-${playerId}`;
+  }
+
+  static localeRoom(locale: Locale): string {
+    return `locale-${locale}`;
+  }
+
+  getQuiz(roomId: string): GlobalQuiz | undefined {
+    return this.quizzes.get(roomId);
+  }
+
+  getQuizzes(): GlobalQuiz[] {
+    return Array.from(this.quizzes.values());
+  }
+
+  addQuiz(quiz: GlobalQuiz) {
+    this.quizzes.set(quiz.roomId, quiz);
+  }
+
+  async removeQuiz(roomId: string) {
+    const quiz = this.forgetQuiz(roomId);
+    if (!quiz) return;
+    await Promise.all(
+      [...quiz.sessions.keys()].map((playerId) =>
+        this.releasePlayer(playerId, roomId),
+      ),
+    );
+  }
+
+  // Oubli local seulement : les engagements restent à la nouvelle instance pilote
+  forgetQuiz(roomId: string): GlobalQuiz | undefined {
+    const quiz = this.quizzes.get(roomId);
+    this.quizzes.delete(roomId);
+    return quiz;
+  }
+
+  /** Partie locale dans laquelle le joueur a une session. */
+  getPlayerQuiz(playerId: number): GlobalQuiz | undefined {
+    return this.getQuizzes().find((quiz) => quiz.sessions.has(playerId));
+  }
+
+  /**
+   * Partie du joueur, quelle que soit l'instance qui la pilote. Un engagement
+   * dont la room n'a plus de leader (instance arrêtée) est oublié.
+   */
+  async getEngagement(playerId: number): Promise<PlayerEngagement | undefined> {
+    const engagement = await this.store.get<PlayerEngagement>(
+      this.engagementKey(playerId),
+    );
+    if (!engagement) return undefined;
+
+    const roomKey = LeaderElectionService.roomKey(engagement.roomId);
+    if (!(await this.leaders.holder(roomKey))) {
+      await this.store.delete(this.engagementKey(playerId));
+      return undefined;
+    }
+    return engagement;
+  }
+
+  async assignPlayer(playerId: number, engagement: PlayerEngagement) {
+    await this.store.set(this.engagementKey(playerId), engagement);
+  }
+
+  // Sans effet si le joueur a entre-temps rejoint une autre room
+  async releasePlayer(playerId: number, roomId: string) {
+    const key = this.engagementKey(playerId);
+    const engagement = await this.store.get<PlayerEngagement>(key);
+    if (engagement?.roomId === roomId) await this.store.delete(key);
+  }
+
+  getLobby(eventId: number): EventLobby | undefined {
+    return this.lobbies.get(eventId);
+  }
+
+  getLobbies(): EventLobby[] {
+    return Array.from(this.lobbies.values());
+  }
+
+  addLobby(lobby: EventLobby) {
+    this.lobbies.set(lobby.event.id, lobby);
+  }
+
+  removeLobby(eventId: number) {
+    this.lobbies.delete(eventId);
+  }
+
+  /** Participants d'un lobby, partagés pour qu'un nouveau leader les reprenne. */
+  async saveLobbyParticipants(lobby: EventLobby) {
+    await this.store.set(this.lobbyKey(lobby.event.id), [
+      ...lobby.participants,
+    ]);
+  }
+
+  async loadLobbyParticipants(eventId: number): Promise<number[]> {
+    return (await this.store.get<number[]>(this.lobbyKey(eventId))) ?? [];
+  }
+
+  async forgetLobby(eventId: number) {
+    await this.store.delete(this.lobbyKey(eventId));
+  }
+
+  private engagementKey(playerId: number): string {
+    return `player:${playerId}:room`;
+  }
+
+  private lobbyKey(eventId: number): string {
+    return `lobby:${eventId}:participants`;
+  }
+}
@@ -0,0 +1,117 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ThemeService } from './theme.service';
+import { Theme } from '../model/theme.entity';
+import { QuestionDifficulty } from '../model/question.entity';
+
+const histoire = {
+  slug: 'histoire',
+  name: 'Histoire',
+  description: 'Dates et personnages',
+  active: true,
+  translations: { en: { name: 'History' } },
+} as unknown as Theme;
+const sport = { slug: 'sport', name: 'Sport', active: false } as Theme;
+
+describe('ThemeService', () => {
+  let themes: Theme[];
+  let questionCount: number;
+  let service: ThemeService;
+
+  beforeEach(() => {
+    themes = [histoire, sport];
+    questionCount = 0;
+    const countRows = [
+      { theme: 'histoire', difficulty: QuestionDifficulty.Easy, count: '4' },
+      { theme: 'histoire', difficulty: QuestionDifficulty.Hard, count: '2' },
+    ];
+    const countQuery = {
+      select: () => countQuery,
+      addSelect: () => countQuery,
+      groupBy: () => countQuery,
+      addGroupBy: () => countQuery,
+      where: () => countQuery,
+      getRawMany: () => Promise.resolve(countRows),
+    };
+
+    service = new ThemeService(
+      {
+        find: () => Promise.resolve(themes),
+        findOne: ({ where }: { where: { slug: string } }) =>
+          Promise.resolve(
+            themes.find(({ slug }) => slug === where.slug) ?? null,
+          ),
+        exists: ({ where }: { where: { slug: string } }) =>
+          Promise.resolve(themes.some(({ slug }) => slug === where.slug)),
+        create: (theme: Partial<Theme>) => theme,
+        save: (theme: Theme) => Promise.resolve(theme),
+      } as never,
+      {
+        createQueryBuilder: () => countQuery,
+        count: () => Promise.resolve(questionCount),
+      } as never,
+    );
+  });
+
+  it('compte les questions de chaque thème par difficulté', async () => {
+    const [summary, empty] = await service.findAll(true);
+
+    expect(summary).toEqual({
+      slug: 'histoire',
+      name: 'Histoire',
+      description: 'Dates et personnages',
+      icon: null,
+      active: true,
+      questionCount: 6,
+      questionsByDifficulty: {
+        [QuestionDifficulty.Easy]: 4,
+        [QuestionDifficulty.Medium]: 0,
+        [QuestionDifficulty.Hard]: 2,
+      },
+    });
+    expect(empty.questionCount).toBe(0);
+  });
+
+  it('traduit le nom du thème, avec repli sur le nom d’origine', async () => {
+    await expect(
+      service.findOneOrFail('histoire', 'en'),
+    ).resolves.toMatchObject({
+      name: 'History',
+      description: 'Dates et personnages',
+    });
+    await expect(service.findOneOrFail('sport', 'en')).resolves.toMatchObject({
+      name: 'Sport',
+    });
+  });
+
+  it('déduit le slug du nom et refuse un thème déjà présent', async () => {
+    await expect(
+      service.create({ name: 'Géographie du Monde' }),
+    ).resolves.toMatchObject({ slug: 'geographie-du-monde' });
+    await expect(service.create({ name: 'HISTOIRE' })).rejects.toThrow(
+      ConflictException,
+    );
+    await expect(service.create({ name: '???' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('ramène un thème saisi librement à un slug actif', async () => {
+    await expect(service.resolveSlug(' Histoire ')).resolves.toBe('histoire');
+    await expect(service.resolveSlug('Sport')).rejects.toThrow(
+      'Le thème sport est désactivé',
+    );
+    await expect(service.resolveSlug('Cinéma')).rejects.toThrow(
+      'Thème inconnu: Cinéma',
+    );
+  });
+
+  it('exige assez de questions pour un événement', async () => {
+    questionCount = 5;
+    await expect(
+      service.assertEnoughQuestions('histoire', 5),
+    ).resolves.toBeUndefined();
+    await expect(service.assertEnoughQuestions('histoire', 6)).rejects.toThrow(
+      'Le thème histoire ne compte que 5 question(s), 6 demandée(s)',
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Theme } from '../model/theme.entity';
+import { Question, QuestionDifficulty } from '../model/question.entity';
+import { CreateThemeDto } from '../dto/create-theme.dto';
+import { UpdateThemeDto } from '../dto/update-theme.dto';
+import { slugify } from '../utils/slug';
+import type { ThemeSummary } from '../types';
+
+interface DifficultyCountRow {
+  theme: string;
+  difficulty: QuestionDifficulty;
+  count: string;
+}
+
+@Injectable()
+export class ThemeService {
+  constructor(
+    @InjectRepository(Theme)
+    private readonly themeRepository: Repository<Theme>,
+    @InjectRepository(Question)
+    private readonly questionRepository: Repository<Question>,
+  ) {}
+
+  async findAll(includeInactive: boolean, locale?: string) {
+    const themes = await this.themeRepository.find({
+      where: includeInactive ? {} : { active: true },
+      order: { name: 'ASC' },
+    });
+    const counts = await this.countByDifficulty();
+
+    return themes.map((theme) =>
+      this.toSummary(theme, counts.get(theme.slug), locale),
+    );
+  }
+
+  async findOneOrFail(slug: string, locale?: string): Promise<ThemeSummary> {
+    const theme = await this.themeRepository.findOne({ where: { slug } });
+    if (!theme) {
+      throw new NotFoundException(`Thème ${slug} introuvable`);
+    }
+    const counts = await this.countByDifficulty(slug);
+    return this.toSummary(theme, counts.get(slug), locale);
+  }
+
+  async create(createThemeDto: CreateThemeDto): Promise<Theme> {
+    const slug = createThemeDto.slug ?? slugify(createThemeDto.name);
+    if (!slug) {
+      throw new BadRequestException('Impossible de déduire un slug de ce nom');
+    }
+    if (await this.themeRepository.exists({ where: { slug } })) {
+      throw new ConflictException(`Le thème ${slug} existe déjà`);
+    }
+    return this.themeRepository.save(
+      this.themeRepository.create({ ...createThemeDto, slug }),
+    );
+  }
+
+  async update(slug: string, updateThemeDto: UpdateThemeDto): Promise<Theme> {
+    const theme = await this.themeRepository.findOne({ where: { slug } });
+    if (!theme) {
+      throw new NotFoundException(`Thème ${slug} introuvable`);
+    }
+    return this.themeRepository.save({ ...theme, ...updateThemeDto });
+  }
+
+  /**
+   * Ramène un thème saisi librement (« Histoire », « histoire ») à son slug,
+   * et vérifie qu'il existe et qu'il est actif.
+   */
+  async resolveSlug(theme: string): Promise<string> {
+    const slug = slugify(theme);
+    const found = await this.themeRepository.findOne({ where: { slug } });
+    if (!found) {
+      throw new BadRequestException(`Thème inconnu: ${theme}`);
+    }
+    if (!found.active) {
+      throw new BadRequestException(`Le thème ${slug} est désactivé`);
+    }
+    return slug;
+  }
+
+  async assertEnoughQuestions(slug: string, required: number) {
+    const available = await this.questionRepository.count({
+      where: { theme: slug },
+    });
+    if (available < required) {
+      throw new BadRequestException(
+        `Le thème ${slug} ne compte que ${available} question(s), ${required} demandée(s)`,
+      );
+    }
+  }
+
+  private async countByDifficulty(slug?: string) {
+    const query = this.questionRepository
+      .createQueryBuilder('question')
+      .select('question.theme', 'theme')
+      .addSelect('question.difficulty', 'difficulty')
+      .addSelect('COUNT(question.id)', 'count')
+      .groupBy('question.theme')
+      .addGroupBy('question.difficulty');
+    if (slug) query.where('question.theme = :slug', { slug });
+
+    const counts = new Map<string, Record<QuestionDifficulty, number>>();
+    for (const row of await query.getRawMany<DifficultyCountRow>()) {
+      const byDifficulty = counts.get(row.theme) ?? this.emptyCounts();
+      byDifficulty[row.difficulty] = Number(row.count);
+      counts.set(row.theme, byDifficulty);
+    }
+    return counts;
+  }
+
+  private emptyCounts(): Record<QuestionDifficulty, number> {
+    return {
+      [QuestionDifficulty.Easy]: 0,
+      [QuestionDifficulty.Medium]: 0,
+      [QuestionDifficulty.Hard]: 0,
+    };
+  }
+
+  private toSummary(
+    theme: Theme,
+    counts = this.emptyCounts(),
+    locale?: string,
+  ): ThemeSummary {
+    const translation = locale ? theme.translations?.[locale] : undefined;
+    return {
+      slug: theme.slug,
+      name: translation?.name ?? theme.name,
+      description: translation?.description ?? theme.description ?? null,
+      icon: theme.icon ?? null,
+      active: theme.active,
+      questionCount: Object.values(counts).reduce((sum, n) => sum + n, 0),
+      questionsByDifficulty: counts,
+    };
+  }
+}
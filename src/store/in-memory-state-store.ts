@@ -0,0 +1,90 @@
+import type { GameClock } from '../game/clock';
+import type { MessageHandler, StateStore } from './state-store';
+
+interface StoredValue {
+  json: string;
+  expiresAt?: number;
+}
+
+/**
+ * État partagé limité au processus : suffit pour une instance seule, et pour
+ * simuler plusieurs instances dans les tests en partageant le même objet.
+ */
+export class InMemoryStateStore implements StateStore {
+  private values = new Map<string, StoredValue>();
+  private channels = new Map<string, Set<MessageHandler>>();
+
+  constructor(private readonly clock: GameClock) {}
+
+  get<T>(key: string): Promise<T | undefined> {
+    const stored = this.lookup(key);
+    return Promise.resolve(stored ? (JSON.parse(stored.json) as T) : undefined);
+  }
+
+  set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    this.values.set(key, {
+      json: JSON.stringify(value),
+      expiresAt: ttlMs === undefined ? undefined : this.clock.now() + ttlMs,
+    });
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.values.delete(key);
+    return Promise.resolve();
+  }
+
+  acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const holder = this.lookup(key);
+    if (holder && holder.json !== JSON.stringify(owner)) {
+      return Promise.resolve(false);
+    }
+    return this.set(key, owner, ttlMs).then(() => true);
+  }
+
+  releaseLease(key: string, owner: string): Promise<void> {
+    if (this.lookup(key)?.json === JSON.stringify(owner)) {
+      this.values.delete(key);
+    }
+    return Promise.resolve();
+  }
+
+  publish(channel: string, message: string): Promise<void> {
+    // Livraison asynchrone, comme à travers le réseau
+    const handlers = [...(this.channels.get(channel) ?? [])];
+    setImmediate(() => handlers.forEach((handler) => handler(message)));
+    return Promise.resolve();
+  }
+
+  subscribe(
+    channel: string,
+    handler: MessageHandler,
+  ): Promise<() => Promise<void>> {
+    const handlers = this.channels.get(channel) ?? new Set<MessageHandler>();
+    handlers.add(handler);
+    this.channels.set(channel, handlers);
+
+    return Promise.resolve(() => {
+      handlers.delete(handler);
+      if (handlers.size === 0) this.channels.delete(channel);
+      return Promise.resolve();
+    });
+  }
+
+  close(): Promise<void> {
+    this.channels.clear();
+    return Promise.resolve();
+  }
+
+  private lookup(key: string): StoredValue | undefined {
+    const stored = this.values.get(key);
+    if (
+      stored?.expiresAt !== undefined &&
+      stored.expiresAt <= this.clock.now()
+    ) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return stored;
+  }
+}
@@ -0,0 +1,255 @@
+import { createServer, AddressInfo, Server, Socket } from 'net';
+import type { GameClock } from '../game/clock';
+import { parseReply, RespReply } from './resp-connection';
+
+interface StandInValue {
+  value: string;
+  expiresAt?: number;
+  // Incrémentée à chaque écriture, pour WATCH
+  version: number;
+}
+
+interface ClientState {
+  socket: Socket;
+  buffer: Buffer;
+  watched: Map<string, number>;
+  queued?: string[][];
+  channels: Set<string>;
+}
+
+class StandInError {
+  constructor(readonly message: string) {}
+}
+
+type StandInReply = RespReply | StandInError;
+
+/**
+ * Serveur local parlant le protocole Redis, limité aux commandes utilisées
+ * par RedisStateStore. Sert aux tests, sans dépendre d'un vrai Redis.
+ */
+export class RedisStandIn {
+  private server?: Server;
+  private values = new Map<string, StandInValue>();
+  private versions = new Map<string, number>();
+  private clients = new Set<ClientState>();
+  // Réponse brute envoyée à la place de la prochaine, pour simuler un serveur inattendu
+  private rawReply?: string;
+
+  constructor(private readonly clock: GameClock) {}
+
+  /** Démarre le serveur sur un port libre et retourne son URL. */
+  async listen(): Promise<string> {
+    const server = createServer((socket) => this.accept(socket));
+    this.server = server;
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  /** Répond à la prochaine commande par `raw`, tel quel. */
+  replyOnceWith(raw: string) {
+    this.rawReply = raw;
+  }
+
+  /** Coupe les connexions en cours, comme un redémarrage du serveur. */
+  dropConnections() {
+    this.clients.forEach((client) => client.socket.destroy());
+  }
+
+  async close() {
+    this.dropConnections();
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve(),
+    );
+  }
+
+  private accept(socket: Socket) {
+    const client: ClientState = {
+      socket,
+      buffer: Buffer.alloc(0),
+      watched: new Map(),
+      channels: new Set(),
+    };
+    this.clients.add(client);
+    socket.on('close', () => this.clients.delete(client));
+    socket.on('error', () => socket.destroy());
+    socket.on('data', (chunk) => {
+      client.buffer = Buffer.concat([client.buffer, chunk]);
+      for (;;) {
+        const parsed = parseReply(client.buffer);
+        if (!parsed) return;
+        client.buffer = client.buffer.subarray(parsed[1]);
+        const args = Array.isArray(parsed[0]) ? parsed[0].map(String) : [];
+        if (this.rawReply !== undefined) {
+          client.socket.write(this.rawReply);
+          this.rawReply = undefined;
+          continue;
+        }
+        this.write(client, this.execute(client, args));
+      }
+    });
+  }
+
+  private execute(client: ClientState, args: string[]): StandInReply {
+    const name = (args[0] ?? '').toUpperCase();
+
+    if (client.queued && !['EXEC', 'DISCARD', 'MULTI'].includes(name)) {
+      client.queued.push(args);
+      return 'QUEUED';
+    }
+
+    switch (name) {
+      case 'MULTI':
+        if (client.queued) return new StandInError('ERR MULTI nested');
+        client.queued = [];
+        return 'OK';
+      case 'EXEC': {
+        if (!client.queued) return new StandInError('ERR EXEC without MULTI');
+        const queued = client.queued;
+        client.queued = undefined;
+        const changed = [...client.watched].some(
+          ([key, version]) => this.version(key) !== version,
+        );
+        client.watched.clear();
+        if (changed) return null;
+        return queued.map((command) => {
+          const reply = this.execute(client, command);
+          return reply instanceof StandInError ? null : reply;
+        });
+      }
+      case 'DISCARD':
+        client.queued = undefined;
+        client.watched.clear();
+        return 'OK';
+      case 'WATCH':
+        args
+          .slice(1)
+          .forEach((key) => client.watched.set(key, this.version(key)));
+        return 'OK';
+      case 'UNWATCH':
+        client.watched.clear();
+        return 'OK';
+      case 'SUBSCRIBE':
+        // Une confirmation par canal, comme Redis
+        args.slice(1).forEach((channel, index) => {
+          client.channels.add(channel);
+          if (index < args.length - 2) {
+            this.write(client, ['subscribe', channel, client.channels.size]);
+          }
+        });
+        return ['subscribe', args[args.length - 1], client.channels.size];
+      case 'UNSUBSCRIBE':
+        client.channels.delete(args[1]);
+        return ['unsubscribe', args[1], client.channels.size];
+      case 'QUIT':
+        setImmediate(() => client.socket.end());
+        return 'OK';
+      default:
+        return this.executeData(name, args);
+    }
+  }
+
+  private executeData(name: string, args: string[]): StandInReply {
+    switch (name) {
+      case 'PING':
+        return 'PONG';
+      case 'AUTH':
+      case 'SELECT':
+        return 'OK';
+      case 'GET':
+        return this.lookup(args[1])?.value ?? null;
+      case 'SET':
+        return this.setValue(args);
+      case 'DEL': {
+        const keys = args.slice(1).filter((key) => this.lookup(key));
+        keys.forEach((key) => this.remove(key));
+        return keys.length;
+      }
+      case 'PEXPIRE': {
+        const stored = this.lookup(args[1]);
+        if (!stored) return 0;
+        stored.expiresAt = this.clock.now() + Number(args[2]);
+        stored.version = this.bump(args[1]);
+        return 1;
+      }
+      case 'PUBLISH': {
+        const [, channel, message] = args;
+        const subscribers = [...this.clients].filter((client) =>
+          client.channels.has(channel),
+        );
+        subscribers.forEach((client) =>
+          this.write(client, ['message', channel, message]),
+        );
+        return subscribers.length;
+      }
+      default:
+        return new StandInError(`ERR unknown command '${name}'`);
+    }
+  }
+
+  private setValue([, key, value, ...options]: string[]): StandInReply {
+    let expiresAt: number | undefined;
+    let condition: 'NX' | 'XX' | undefined;
+    for (let i = 0; i < options.length; i++) {
+      const option = options[i].toUpperCase();
+      if (option === 'NX' || option === 'XX') condition = option;
+      if (option === 'PX') expiresAt = this.clock.now() + Number(options[++i]);
+      if (option === 'EX') {
+        expiresAt = this.clock.now() + Number(options[++i]) * 1000;
+      }
+    }
+
+    const exists = this.lookup(key) !== undefined;
+    if ((condition === 'NX' && exists) || (condition === 'XX' && !exists)) {
+      return null;
+    }
+    this.values.set(key, { value, expiresAt, version: this.bump(key) });
+    return 'OK';
+  }
+
+  private lookup(key: string): StandInValue | undefined {
+    const stored = this.values.get(key);
+    if (
+      stored?.expiresAt !== undefined &&
+      stored.expiresAt <= this.clock.now()
+    ) {
+      // Une clé expirée compte comme modifiée pour WATCH
+      this.remove(key);
+      return undefined;
+    }
+    return stored;
+  }
+
+  private remove(key: string) {
+    this.values.delete(key);
+    this.bump(key);
+  }
+
+  private version(key: string): number {
+    this.lookup(key);
+    return this.versions.get(key) ?? 0;
+  }
+
+  private bump(key: string): number {
+    const version = (this.versions.get(key) ?? 0) + 1;
+    this.versions.set(key, version);
+    return version;
+  }
+
+  private write(client: ClientState, reply: StandInReply) {
+    client.socket.write(encodeReply(reply));
+  }
+}
+
+function encodeReply(reply: StandInReply): string {
+  if (reply instanceof StandInError) return `-${reply.message}\r\n`;
+  if (reply === null) return '$-1\r\n';
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (Array.isArray(reply)) {
+    return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+  }
+  if (['OK', 'QUEUED', 'PONG'].includes(reply)) return `+${reply}\r\n`;
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+}
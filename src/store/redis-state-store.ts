@@ -0,0 +1,135 @@
+import { RespConnection } from './resp-connection';
+import type { MessageHandler, StateStore } from './state-store';
+
+/**
+ * État partagé dans un serveur compatible Redis. Les commandes passent par une
+ * connexion, les abonnements par une seconde, réservée au mode pub/sub.
+ */
+export class RedisStateStore implements StateStore {
+  private channels = new Map<string, Set<MessageHandler>>();
+  // Les baux utilisent WATCH/MULTI : les commandes ne doivent pas s'entremêler
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly commands: RespConnection,
+    private readonly subscriber: RespConnection,
+  ) {
+    subscriber.onMessage((channel, message) => {
+      this.channels.get(channel)?.forEach((handler) => handler(message));
+    });
+    subscriber.onReconnect(() => void this.resubscribe());
+  }
+
+  static async connect(url: string): Promise<RedisStateStore> {
+    const [commands, subscriber] = await Promise.all([
+      RespConnection.connect(url),
+      RespConnection.connect(url),
+    ]);
+    return new RedisStateStore(commands, subscriber);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const json = await this.exclusive(() => this.commands.command('GET', key));
+    return typeof json === 'string' ? (JSON.parse(json) as T) : undefined;
+  }
+
+  async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    const json = JSON.stringify(value);
+    await this.exclusive(() =>
+      ttlMs === undefined
+        ? this.commands.command('SET', key, json)
+        : this.commands.command('SET', key, json, 'PX', Math.max(1, ttlMs)),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.exclusive(() => this.commands.command('DEL', key));
+  }
+
+  acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const holder = JSON.stringify(owner);
+    const ttl = Math.max(1, ttlMs);
+    return this.exclusive(async () => {
+      const created = await this.commands.command(
+        'SET',
+        key,
+        holder,
+        'NX',
+        'PX',
+        ttl,
+      );
+      if (created === 'OK') return true;
+
+      // Prolongation : annulée si le bail change de mains entre-temps
+      await this.commands.command('WATCH', key);
+      if ((await this.commands.command('GET', key)) !== holder) {
+        await this.commands.command('UNWATCH');
+        return false;
+      }
+      await this.commands.command('MULTI');
+      await this.commands.command('PEXPIRE', key, ttl);
+      return (await this.commands.command('EXEC')) !== null;
+    });
+  }
+
+  releaseLease(key: string, owner: string): Promise<void> {
+    return this.exclusive(async () => {
+      await this.commands.command('WATCH', key);
+      if ((await this.commands.command('GET', key)) !== JSON.stringify(owner)) {
+        await this.commands.command('UNWATCH');
+        return;
+      }
+      await this.commands.command('MULTI');
+      await this.commands.command('DEL', key);
+      await this.commands.command('EXEC');
+    });
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.exclusive(() =>
+      this.commands.command('PUBLISH', channel, message),
+    );
+  }
+
+  async subscribe(
+    channel: string,
+    handler: MessageHandler,
+  ): Promise<() => Promise<void>> {
+    let handlers = this.channels.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.channels.set(channel, handlers);
+      await this.subscriber.command('SUBSCRIBE', channel);
+    }
+    handlers.add(handler);
+
+    return async () => {
+      handlers.delete(handler);
+      if (handlers.size > 0 || this.channels.get(channel) !== handlers) return;
+      this.channels.delete(channel);
+      await this.subscriber.command('UNSUBSCRIBE', channel);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.channels.clear();
+    await Promise.all([this.commands.close(), this.subscriber.close()]);
+  }
+
+  // Un serveur Redis oublie les abonnements d'une connexion coupée
+  private async resubscribe() {
+    for (const channel of this.channels.keys()) {
+      try {
+        await this.subscriber.command('SUBSCRIBE', channel);
+      } catch (error) {
+        console.error(`Réabonnement au canal ${channel} impossible:`, error);
+      }
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
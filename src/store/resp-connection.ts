@@ -0,0 +1,267 @@
+import { connect, Socket } from 'net';
+
+export type RespReply = string | number | null | RespReply[];
+
+export class RespError extends Error {}
+
+type ParsedReply = RespReply | RespError;
+
+interface PendingCommand {
+  resolve(reply: RespReply): void;
+  reject(error: Error): void;
+}
+
+const CRLF = '\r\n';
+
+/** Encode une commande au format RESP (tableau de chaînes binaires). */
+export function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = args.map((arg) => {
+    const value = Buffer.from(String(arg));
+    return Buffer.concat([
+      Buffer.from(`$${value.length}${CRLF}`),
+      value,
+      Buffer.from(CRLF),
+    ]);
+  });
+  return Buffer.concat([Buffer.from(`*${args.length}${CRLF}`), ...parts]);
+}
+
+/**
+ * Lit une réponse RESP2 à partir de `offset`. Retourne undefined si le tampon
+ * ne contient pas encore la réponse complète.
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset = 0,
+): [ParsedReply, number] | undefined {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) return undefined;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + CRLF.length;
+
+  switch (type) {
+    case '+':
+      return [line, next];
+    case '-':
+      return [new RespError(line), next];
+    case ':':
+      return [Number(line), next];
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return [null, next];
+      if (buffer.length < next + length + CRLF.length) return undefined;
+      return [
+        buffer.toString('utf8', next, next + length),
+        next + length + CRLF.length,
+      ];
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return [null, next];
+      const items: ParsedReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return undefined;
+        items.push(item[0]);
+        position = item[1];
+      }
+      // Une erreur dans un tableau (EXEC) fait échouer toute la réponse
+      const error = items.find((item) => item instanceof RespError);
+      return [error ?? (items as RespReply[]), position];
+    }
+    default:
+      throw new RespError(`Réponse RESP inattendue: ${type}`);
+  }
+}
+
+// Reconnexion après une coupure : délai doublé à chaque échec, plafonné
+const RECONNECT_BASE_DELAY_MS = 100;
+const RECONNECT_MAX_DELAY_MS = 5000;
+
+/**
+ * Connexion minimale à un serveur compatible Redis (protocole RESP2). Les
+ * réponses arrivent dans l'ordre des commandes ; en mode abonnement, les
+ * messages publiés sont transmis au handler enregistré.
+ *
+ * Après une coupure, la connexion est rouverte en arrière-plan ; en attendant,
+ * les commandes échouent aussitôt plutôt que d'attendre le serveur.
+ */
+export class RespConnection {
+  private socket?: Socket;
+  private pending: PendingCommand[] = [];
+  private buffer = Buffer.alloc(0);
+  private subscribed = false;
+  private closed = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private messageHandler?: (channel: string, message: string) => void;
+  private reconnectHandler?: () => void;
+
+  private constructor(private readonly target: URL) {}
+
+  /** Ouvre une connexion depuis une URL redis://[[user]:password@]host[:port][/db]. */
+  static async connect(url: string): Promise<RespConnection> {
+    const connection = new RespConnection(new URL(url));
+    try {
+      await connection.open();
+    } catch (error) {
+      // Serveur injoignable au démarrage : l'erreur remonte, sans nouvel essai
+      connection.closed = true;
+      clearTimeout(connection.reconnectTimer);
+      throw error;
+    }
+    return connection;
+  }
+
+  command(...args: (string | number)[]): Promise<RespReply> {
+    if (this.closed) {
+      return Promise.reject(new Error('Connexion Redis fermée'));
+    }
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(
+        new Error('Connexion Redis interrompue - reconnexion en cours'),
+      );
+    }
+    if (['SUBSCRIBE', 'PSUBSCRIBE'].includes(String(args[0]).toUpperCase())) {
+      this.subscribed = true;
+    }
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  onMessage(handler: (channel: string, message: string) => void) {
+    this.messageHandler = handler;
+  }
+
+  /** Appelé après chaque reconnexion : les abonnements sont à refaire. */
+  onReconnect(handler: () => void) {
+    this.reconnectHandler = handler;
+  }
+
+  async close() {
+    if (this.closed) return;
+    clearTimeout(this.reconnectTimer);
+    await this.command('QUIT').catch(() => undefined);
+    this.closed = true;
+    this.socket?.destroy();
+  }
+
+  private async open() {
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const client = connect(
+        Number(this.target.port || 6379),
+        this.target.hostname || 'localhost',
+      );
+      client.once('connect', () => {
+        client.off('error', reject);
+        resolve(client);
+      });
+      client.once('error', reject);
+    });
+    if (this.closed) {
+      // Fermée pendant la reconnexion
+      socket.destroy();
+      throw new Error('Connexion Redis fermée');
+    }
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    this.subscribed = false;
+    socket.on('data', (chunk) => this.receive(socket, chunk));
+    socket.on('close', () =>
+      this.disconnected(socket, new Error('Connexion Redis fermée')),
+    );
+    socket.on('error', (error) => this.disconnected(socket, error));
+
+    try {
+      const password = decodeURIComponent(this.target.password);
+      if (password) {
+        const user = decodeURIComponent(this.target.username);
+        await this.command(
+          ...(user ? ['AUTH', user, password] : ['AUTH', password]),
+        );
+      }
+      const db = this.target.pathname.slice(1);
+      if (db) await this.command('SELECT', db);
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+  }
+
+  private receive(socket: Socket, chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      let parsed: [ParsedReply, number] | undefined;
+      try {
+        parsed = parseReply(this.buffer);
+      } catch (error) {
+        // Flux illisible (RESP3...) : la connexion est refaite de zéro
+        this.disconnected(socket, error as Error);
+        return;
+      }
+      if (!parsed) return;
+      const [reply, length] = parsed;
+      this.buffer = this.buffer.subarray(length);
+      this.dispatch(reply);
+    }
+  }
+
+  private dispatch(reply: ParsedReply) {
+    if (
+      this.subscribed &&
+      Array.isArray(reply) &&
+      reply[0] === 'message' &&
+      typeof reply[1] === 'string' &&
+      typeof reply[2] === 'string'
+    ) {
+      this.messageHandler?.(reply[1], reply[2]);
+      return;
+    }
+
+    const command = this.pending.shift();
+    if (reply instanceof RespError) {
+      command?.reject(reply);
+    } else {
+      command?.resolve(reply);
+    }
+  }
+
+  // « error » puis « close » : seul le premier signal de la socket compte
+  private disconnected(socket: Socket, error: Error) {
+    if (this.socket !== socket) return;
+    this.socket = undefined;
+    socket.destroy();
+    this.pending.splice(0).forEach((command) => command.reject(error));
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.closed || this.reconnectTimer) return;
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS,
+    );
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.open()
+        .then(() => {
+          console.log(
+            `Connexion Redis rétablie après ${this.reconnectAttempts} essai(s)`,
+          );
+          this.reconnectAttempts = 0;
+          this.reconnectHandler?.();
+        })
+        .catch((error: Error) => {
+          console.warn(`Reconnexion Redis impossible: ${error.message}`);
+          this.scheduleReconnect();
+        });
+    }, delay);
+  }
+}
@@ -0,0 +1,199 @@
+import { ManualClock } from '../game/manual-clock';
+import { InMemoryStateStore } from './in-memory-state-store';
+import { RedisStandIn } from './redis-stand-in.spec-helper';
+import { RedisStateStore } from './redis-state-store';
+import type { StateStore } from './state-store';
+
+interface StoreHarness {
+  clock: ManualClock;
+  // Deux instances du serveur partageant le même état
+  open(): Promise<[StateStore, StateStore]>;
+  close(): Promise<void>;
+}
+
+const inMemory = (): StoreHarness => {
+  const clock = new ManualClock();
+  const store = new InMemoryStateStore(clock);
+  return {
+    clock,
+    open: () => Promise.resolve([store, store]),
+    close: () => store.close(),
+  };
+};
+
+// Même contrat via le protocole Redis, contre un serveur de test en mémoire
+const redis = (): StoreHarness => {
+  const clock = new ManualClock();
+  const standIn = new RedisStandIn(clock);
+  const stores: RedisStateStore[] = [];
+  return {
+    clock,
+    async open() {
+      const url = await standIn.listen();
+      stores.push(
+        await RedisStateStore.connect(url),
+        await RedisStateStore.connect(url),
+      );
+      return [stores[0], stores[1]];
+    },
+    async close() {
+      await Promise.all(stores.map((store) => store.close()));
+      await standIn.close();
+    },
+  };
+};
+
+// Abonnement en place avant de rendre la main, message attendu ensuite
+const subscribeOnce = async (store: StateStore, channel: string) => {
+  let resolve!: (message: string) => void;
+  const message = new Promise<string>((done) => (resolve = done));
+  await store.subscribe(channel, resolve);
+  return { message };
+};
+
+describe.each([
+  ['InMemoryStateStore', inMemory],
+  ['RedisStateStore', redis],
+])('%s', (_, createHarness) => {
+  let harness: StoreHarness;
+  let first: StateStore;
+  let second: StateStore;
+
+  beforeEach(async () => {
+    harness = createHarness();
+    [first, second] = await harness.open();
+  });
+
+  afterEach(() => harness.close());
+
+  it('partage les valeurs JSON entre instances', async () => {
+    await first.set('player:1:room', { roomId: 'public', resumeToken: 'abc' });
+
+    expect(await second.get('player:1:room')).toEqual({
+      roomId: 'public',
+      resumeToken: 'abc',
+    });
+    await second.delete('player:1:room');
+    expect(await first.get('player:1:room')).toBeUndefined();
+  });
+
+  it('oublie une valeur à son expiration', async () => {
+    await first.set('lobby:1:participants', [1, 2], 1000);
+
+    await harness.clock.advance(999);
+    expect(await second.get('lobby:1:participants')).toEqual([1, 2]);
+    await harness.clock.advance(1);
+    expect(await second.get('lobby:1:participants')).toBeUndefined();
+  });
+
+  it('réserve un bail à une seule instance et le laisse prolonger par elle', async () => {
+    expect(await first.acquireLease('leader:room:public', 'a', 1000)).toBe(
+      true,
+    );
+    expect(await second.acquireLease('leader:room:public', 'b', 1000)).toBe(
+      false,
+    );
+
+    await harness.clock.advance(800);
+    expect(await first.acquireLease('leader:room:public', 'a', 1000)).toBe(
+      true,
+    );
+    await harness.clock.advance(800);
+    expect(await second.acquireLease('leader:room:public', 'b', 1000)).toBe(
+      false,
+    );
+    expect(await second.get('leader:room:public')).toBe('a');
+  });
+
+  it('laisse reprendre un bail expiré par une autre instance', async () => {
+    await first.acquireLease('leader:event:1', 'a', 1000);
+
+    await harness.clock.advance(1000);
+    expect(await second.acquireLease('leader:event:1', 'b', 1000)).toBe(true);
+    expect(await first.acquireLease('leader:event:1', 'a', 1000)).toBe(false);
+  });
+
+  it('ne libère un bail que pour son détenteur', async () => {
+    await first.acquireLease('leader:event:1', 'a', 1000);
+
+    await second.releaseLease('leader:event:1', 'b');
+    expect(await second.acquireLease('leader:event:1', 'b', 1000)).toBe(false);
+
+    await first.releaseLease('leader:event:1', 'a');
+    expect(await second.acquireLease('leader:event:1', 'b', 1000)).toBe(true);
+  });
+
+  it('diffuse les messages aux abonnés des autres instances', async () => {
+    const received: string[] = [];
+    const unsubscribe = await first.subscribe('events', (message) =>
+      received.push(message),
+    );
+    const delivered = await subscribeOnce(first, 'events');
+
+    await second.publish('events', 'hello');
+    expect(await delivered.message).toBe('hello');
+    expect(received).toEqual(['hello']);
+
+    // Après désabonnement, seul le canal encore suivi reçoit les messages
+    await unsubscribe();
+    const control = await subscribeOnce(first, 'control');
+    await second.publish('events', 'ignored');
+    await second.publish('control', 'done');
+    expect(await control.message).toBe('done');
+    expect(received).toEqual(['hello']);
+  });
+});
+
+describe('RedisStateStore', () => {
+  let standIn: RedisStandIn;
+  let store: RedisStateStore;
+
+  beforeEach(async () => {
+    standIn = new RedisStandIn(new ManualClock());
+    store = await RedisStateStore.connect(await standIn.listen());
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await standIn.close();
+  });
+
+  // La reconnexion se fait en arrière-plan, sur l'horloge réelle
+  const eventually = async <T>(task: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt >= 50) throw error;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    }
+  };
+
+  it('se reconnecte et rétablit ses abonnements après une coupure', async () => {
+    await store.set('player:1:room', 'public');
+    const received: string[] = [];
+    await store.subscribe('events', (message) => received.push(message));
+
+    standIn.dropConnections();
+    await expect(store.get('player:1:room')).rejects.toThrow();
+
+    expect(await eventually(() => store.get('player:1:room'))).toBe('public');
+    await eventually(async () => {
+      await store.publish('events', 'hello');
+      if (!received.includes('hello')) throw new Error('message non reçu');
+    });
+  });
+
+  it('se reconnecte après une réponse illisible', async () => {
+    await store.set('player:1:room', 'public');
+
+    // Réponse RESP3 (map), inconnue du protocole RESP2
+    standIn.replyOnceWith('%1\r\n+key\r\n+value\r\n');
+    await expect(store.get('player:1:room')).rejects.toThrow(
+      'Réponse RESP inattendue',
+    );
+
+    expect(await eventually(() => store.get('player:1:room'))).toBe('public');
+  });
+});
@@ -0,0 +1,29 @@
+export const STATE_STORE = 'STATE_STORE';
+// Identifiant de cette instance, propriétaire de ses baux
+export const INSTANCE_ID = 'INSTANCE_ID';
+
+export type MessageHandler = (message: string) => void;
+
+/**
+ * État partagé entre les instances du serveur : valeurs JSON avec expiration,
+ * baux exclusifs pour l'élection d'un leader et canaux de diffusion.
+ */
+export interface StateStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Prend le bail `key` pour `owner` s'il est libre, ou le prolonge s'il est
+   * déjà à lui. Faux si une autre instance le détient.
+   */
+  acquireLease(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  // Sans effet si le bail a expiré ou appartient à une autre instance
+  releaseLease(key: string, owner: string): Promise<void>;
+  publish(channel: string, message: string): Promise<void>;
+  // Retourne la fonction de désabonnement
+  subscribe(
+    channel: string,
+    handler: MessageHandler,
+  ): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import type { Request } from 'express';
+import type { AdminRole } from '../model/admin-user.entity';
+
+export interface AuthenticatedAdmin {
+  id: number;
+  email: string;
+  role: AdminRole;
+}
+
+export interface AccessTokenPayload {
+  sub: number;
+  role: AdminRole;
+}
+
+export interface LoginResponse {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  user: AuthenticatedAdmin;
+}
+
+export interface AuthenticatedRequest extends Request {
+  admin?: AuthenticatedAdmin;
+}
@@ -0,0 +1,52 @@
+import type { Locale } from '../i18n/locale';
+import type { MessageCode, MessageParams } from '../i18n/messages';
+import type {
+  AnswerQueuedResponse,
+  LobbyJoinedResponse,
+  QuizJoinedResponse,
+  SubmitAnswerPayload,
+} from './websocket.interface';
+
+/** Partie d'un joueur, visible de toutes les instances. */
+export interface PlayerEngagement {
+  roomId: string;
+  resumeToken: string;
+}
+
+/** Joueur connecté, tel que décrit par l'instance qui tient sa socket. */
+export interface PlayerRef {
+  id: number;
+  nickname: string;
+  locale: Locale;
+  socketId: string;
+  // Adresse du client, pour les contrôles anti-triche
+  address?: string;
+}
+
+export type RemoteResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; code: MessageCode; params?: MessageParams };
+
+/**
+ * Commandes relayées entre instances : seule celle qui pilote la partie ou le
+ * lobby concerné y répond, les autres renvoient null.
+ */
+export interface InterServerEvents {
+  playerConnected: (player: PlayerRef) => void;
+  playerDisconnected: (playerId: number, socketId: string) => void;
+  joinQuiz: (
+    player: PlayerRef,
+    roomId: string,
+    ack: (result: RemoteResult<QuizJoinedResponse> | null) => void,
+  ) => void;
+  submitAnswer: (
+    player: PlayerRef,
+    payload: SubmitAnswerPayload,
+    ack: (result: RemoteResult<AnswerQueuedResponse> | null) => void,
+  ) => void;
+  joinLobby: (
+    player: PlayerRef,
+    eventId: number,
+    ack: (result: RemoteResult<LobbyJoinedResponse> | null) => void,
+  ) => void;
+}
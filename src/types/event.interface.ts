@@ -1,34 +1,86 @@
 import { Event } from '../model/event.entity';
 import { Question } from '../model/question.entity';
+import type { QuizSession } from './quiz.interface';
+import type { ScoringMode } from '../game/scoring';
+import type { GameMode } from '../game/game-modes';
+import type { AnswerTiming } from '../game/anti-cheat';
+import type { AnswerStats } from '../game/answer-stats';
+import type { TimerHandle } from '../game/clock';
 
 export interface GlobalQuiz {
+  gameId: string;
+  roomId: string;
+  theme?: string;
   isActive: boolean;
   currentQuestionIndex: number;
   questions: Question[];
   timeLimit: number;
+  scoringMode: ScoringMode;
+  gameMode: GameMode;
+  lives: number;
+  shuffleChoices: boolean;
+  maxAnswerChanges: number;
+  revealSeconds: number;
+  // Correction en cours d'affichage, entre deux questions
+  reveal?: QuestionReveal;
+  // Joueurs en lice à la première question
+  startingPlayers: number;
   timeLeft: number;
-  timer?: NodeJS.Timeout;
-  timerInterval?: NodeJS.Timeout;
+  // Horloge monotone (performance.now()), insensible aux réglages de l'heure
+  questionStartedAt?: number;
+  questionDeadline?: number;
+  // Premières réponses reçues pour la question en cours (contrôles anti-triche)
+  answerTimings: AnswerTiming[];
+  timer?: TimerHandle;
+  timerInterval?: TimerHandle;
+  reconnectGraceSeconds: number;
+  // Partie restaurée après un arrêt : heure de relance, jusqu'à la question suivante
+  resumesAt?: number;
   event?: Event;
-  participants: Map<string, QuizParticipant>;
+  participants: Map<number, QuizParticipant>;
+  sessions: Map<number, QuizSession>;
+}
+
+export interface QuestionReveal {
+  question: Question;
+  stats: AnswerStats;
+  eliminated: number;
 }
 
 export interface EventLobby {
+  roomId: string;
   event: Event;
-  participants: Set<string>;
-  countdownTimer?: NodeJS.Timeout;
-  lobbyTimer?: NodeJS.Timeout;
+  participants: Set<number>;
+  countdownTimer?: TimerHandle;
 }
 
 export interface QuizParticipant {
-  clientId: string;
+  playerId: number;
+  nickname: string;
   score: number;
   finishedAt?: Date;
 }
 
-export interface CreateEventData {
+export type EventStatusFilter =
+  | 'upcoming'
+  | 'live'
+  | 'completed'
+  | 'cancelled'
+  | 'expired';
+
+export interface EventChange {
+  type: 'created' | 'updated' | 'deleted';
+  eventId: number;
+  event?: Event;
+}
+
+// standby : une autre instance pilote le lobby ou la partie de l'événement
+export type ScheduleState = 'scheduled' | 'standby' | 'lobby' | 'running';
+
+export interface ScheduledEventInfo {
+  eventId: number;
   theme: string;
-  startDate: string;
-  numberOfQuestions: number;
-  minPlayers?: number;
-}
\ No newline at end of file
+  lobbyOpensAt: Date;
+  startsAt: Date;
+  state: ScheduleState;
+}
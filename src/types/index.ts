@@ -1,3 +1,10 @@
 export * from './event.interface';
 export * from './websocket.interface';
-export * from './quiz.interface';
\ No newline at end of file
+export * from './quiz.interface';
+export * from './player.interface';
+export * from './pagination.interface';
+export * from './leaderboard.interface';
+export * from './question.interface';
+export * from './theme.interface';
+export * from './auth.interface';
+export * from './cluster.interface';
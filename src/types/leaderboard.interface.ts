@@ -0,0 +1,31 @@
+export type LeaderboardPeriod = 'all' | 'week' | 'month';
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: number;
+  nickname: string;
+  wins: number;
+  gamesPlayed: number;
+  // Par partie, à l'échelle du mode classique (un point par bonne réponse)
+  averageScore: number;
+  // Part de bonnes réponses, entre 0 et 1
+  accuracy: number;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  theme: string | null;
+  // Début de la période, au format ISO
+  since: string | null;
+  entries: LeaderboardEntry[];
+}
+
+export interface LeaderboardUpdate {
+  // Dernière partie prise en compte et son thème
+  gameId: string;
+  theme: string | null;
+  // Parties terminées depuis la diffusion précédente
+  gameIds: string[];
+  // Classements généraux, puis ceux des thèmes des questions jouées
+  leaderboards: Leaderboard[];
+}
@@ -0,0 +1,9 @@
+export interface PlayerSummary {
+  id: number;
+  nickname: string;
+}
+
+export interface RegisteredPlayer extends PlayerSummary {
+  token: string;
+  createdAt: Date;
+}
@@ -0,0 +1,48 @@
+import type { QuestionDifficulty } from '../model/question.entity';
+
+export interface QuestionSelectionOptions {
+  count: number;
+  theme?: string;
+  difficulty?: QuestionDifficulty;
+  tags?: string[];
+  // Du plus facile au plus difficile sur l'ensemble des questions
+  difficultyCurve?: boolean;
+  // Jamais retenues (questions déjà jouées dans la partie)
+  excludeIds?: number[];
+  // Retenues seulement à défaut d'autres (vues récemment)
+  avoidIds?: number[];
+}
+
+export type QuestionSortField = 'id' | 'theme' | 'difficulty' | 'questionText';
+
+export type SortOrder = 'ASC' | 'DESC';
+
+export type QuestionFileFormat = 'csv' | 'json';
+
+export type ImportRowStatus = 'created' | 'updated' | 'duplicate' | 'invalid';
+
+export interface ImportRowResult {
+  // Numéro de l'enregistrement dans le fichier, en-tête CSV exclu
+  row: number;
+  status: ImportRowStatus;
+  externalId?: string;
+  questionId?: number;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  duplicates: number;
+  invalid: number;
+  rows: ImportRowResult[];
+}
+
+// Sous-ensemble du fichier fourni par multer
+export interface UploadedQuestionFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
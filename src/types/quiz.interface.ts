@@ -1,26 +1,76 @@
 import { Question } from '../model/question.entity';
+import type { AnswerValue } from '../game/question-types';
+import type { TimerHandle } from '../game/clock';
 
 export interface QuizSession {
   questions: Question[];
   currentIndex: number;
   score: number;
-  answers: { questionId: number; userAnswer: number; correct: boolean }[];
+  // Bonnes réponses consécutives, et temps cumulé sur ces réponses (départage)
+  streak: number;
+  correctResponseTimeMs: number;
+  answers: QuizAnswer[];
+  // Ordre d'affichage des choix par question, si les choix sont mélangés
+  choiceOrders: Map<number, number[]>;
   isWatching: boolean;
-  timer?: NodeJS.Timeout;
-  timerInterval?: NodeJS.Timeout;
+  // Vies restantes selon le mode de jeu ; undefined = illimitées
+  livesLeft?: number;
   timeLimit: number;
   timeLeft: number;
-  pendingAnswer?: { questionId: number; answer: number };
+  pendingAnswer?: PendingAnswer;
   joinedAt: number;
+  eliminatedAt?: number;
+  resumeToken: string;
+  disconnectedAt?: number;
+  graceTimer?: TimerHandle;
 }
 
 export interface QuizAnswer {
   questionId: number;
-  userAnswer: number;
+  // null si le joueur n'a pas répondu
+  userAnswer: AnswerValue | null;
+  choiceOrder?: number[];
   correct: boolean;
+  points: number;
+  wasPlaying: boolean;
+  responseTimeMs?: number;
 }
 
 export interface PendingAnswer {
   questionId: number;
-  answer: number;
-}
\ No newline at end of file
+  // Réponse en numéros canoniques, et telle que saisie par le joueur
+  answer: AnswerValue;
+  displayedAnswer: AnswerValue;
+  // Horodatage monotone de la dernière réponse, et nombre de changements
+  answeredAt: number;
+  changes: number;
+}
+
+/** État d'une partie d'événement sauvegardé pour la reprendre après un arrêt. */
+export interface QuizSnapshot {
+  gameId: string;
+  // Questions de la partie dans l'ordre, tirages du mode survie compris
+  questionIds: number[];
+  // Questions déjà corrigées : la reprise repart de la suivante
+  playedQuestions: number;
+  startingPlayers: number;
+  players: PlayerSnapshot[];
+}
+
+export interface PlayerSnapshot
+  extends Pick<
+    QuizSession,
+    | 'score'
+    | 'streak'
+    | 'correctResponseTimeMs'
+    | 'answers'
+    | 'isWatching'
+    | 'livesLeft'
+    | 'joinedAt'
+    | 'eliminatedAt'
+    | 'resumeToken'
+  > {
+  playerId: number;
+  nickname: string;
+  choiceOrders: [number, number[]][];
+}
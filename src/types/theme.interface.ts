@@ -0,0 +1,11 @@
+import type { QuestionDifficulty } from '../model/question.entity';
+
+export interface ThemeSummary {
+  slug: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  active: boolean;
+  questionCount: number;
+  questionsByDifficulty: Record<QuestionDifficulty, number>;
+}
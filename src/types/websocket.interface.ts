@@ -1,12 +1,166 @@
+import type { Server, Socket } from 'socket.io';
+import type { PlayerSummary } from './player.interface';
+import type { LeaderboardUpdate } from './leaderboard.interface';
+import type { ScoringMode } from '../game/scoring';
+import type { GameMode } from '../game/game-modes';
+import type { AnswerValue, PublicQuestion } from '../game/question-types';
+import type { QuizAnswer } from './quiz.interface';
+import type { QuestionDifficulty } from '../model/question.entity';
+import type { MinPlayersPolicy } from '../model/event.entity';
+import type { MessageCode } from '../i18n/messages';
+import type { InterServerEvents } from './cluster.interface';
+
+/**
+ * Catalogue du protocole WebSocket. Les typages clients
+ * (client/quiz-protocol.ts) sont générés depuis ce fichier par
+ * `npm run protocol:generate` : toute modification doit être suivie d'une
+ * régénération, et d'un changement de PROTOCOL_VERSION si elle est
+ * incompatible.
+ */
+
+/** Données d'authentification envoyées à la connexion (`auth` de socket.io). */
+export interface HandshakeAuth {
+  token: string;
+  resumeToken?: string | null;
+  locale?: string;
+  // Version comprise par le client, ou liste de versions ; 1 si absente
+  protocolVersion?: number | number[];
+}
+
+/** Messages du client vers le serveur ; l'accusé de réception est facultatif. */
+export interface ClientToServerEvents {
+  /** Lance une partie libre, ou rejoint en spectateur celle de la room. */
+  startQuiz: (
+    payload: StartQuizPayload,
+    ack?: (response: SocketAck<QuizJoinedResponse>) => void,
+  ) => void;
+  /** Enregistre (ou modifie, selon l'événement) la réponse à la question en cours. */
+  submitAnswer: (
+    payload: SubmitAnswerPayload,
+    ack?: (response: SocketAck<AnswerQueuedResponse>) => void,
+  ) => void;
+  /** Inscrit le joueur dans le lobby d'un événement ouvert. */
+  joinLobby: (
+    payload: JoinLobbyPayload,
+    ack?: (response: SocketAck<LobbyJoinedResponse>) => void,
+  ) => void;
+}
+
+/** Messages du serveur vers le client. */
+export interface ServerToClientEvents {
+  /** Connexion acceptée, avec la version de protocole retenue. */
+  welcome: (payload: WelcomeResponse) => void;
+  /**
+   * Erreur sans accusé de réception possible : connexion refusée, ou message
+   * envoyé sans callback.
+   */
+  error: (payload: SocketError) => void;
+  /** Session ouverte dans une partie ; le jeton permet de la reprendre. */
+  quizSession: (payload: QuizSessionResponse) => void;
+  /** Session reprise après une reconnexion. */
+  sessionResumed: (payload: SessionResumedResponse) => void;
+  quizQuestion: (payload: QuizQuestionResponse) => void;
+  /** Décompte indicatif ; seule l'horloge du serveur fait foi. */
+  timerUpdate: (payload: TimerUpdate) => void;
+  answerQueued: (payload: AnswerQueuedResponse) => void;
+  /** Correction de la question, entre deux questions. */
+  answerReveal: (payload: AnswerRevealResponse) => void;
+  playerStats: (payload: PlayerStats) => void;
+  quizCompleted: (payload: QuizCompletedResponse) => void;
+  leaderboardUpdate: (payload: LeaderboardUpdate) => void;
+  nextEvent: (payload: EventAnnouncement) => void;
+  lobbyOpened: (payload: LobbyOpenedResponse) => void;
+  lobbyJoined: (payload: LobbyJoinedResponse) => void;
+  lobbyUpdate: (payload: LobbyUpdateResponse) => void;
+  lobbyClosed: (payload: LobbyClosedResponse) => void;
+  eventCountdown: (payload: EventCountdownResponse) => void;
+  eventPostponed: (payload: EventPostponedResponse) => void;
+  eventCancelled: (payload: EventCancelledResponse) => void;
+  eventStarted: (payload: EventStartedResponse) => void;
+  /** Les participants du lobby basculent sur l'écran de jeu. */
+  autoStartQuiz: (payload: AutoStartQuizResponse) => void;
+  eventCompleted: (payload: EventCompletedResponse) => void;
+}
+
+export type QuizServer = Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents
+>;
+export type QuizSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+export interface SocketError {
+  code: MessageCode;
+  message: string;
+  // Contraintes non respectées, pour un message invalide
+  details?: string[];
+}
+
+/** Accusé de réception d'un message du client. */
+export type SocketAck<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: SocketError };
+
+export interface WelcomeResponse {
+  protocolVersion: number;
+  serverProtocolVersion: number;
+  locale: string;
+}
+
 export interface StartQuizPayload {
+  roomId?: string;
   theme?: string;
   limit?: number;
   timeLimit?: number;
+  scoringMode?: ScoringMode;
+  gameMode?: GameMode;
+  lives?: number;
+  difficulty?: QuestionDifficulty;
+  difficultyCurve?: boolean;
+  tags?: string[];
+  shuffleChoices?: boolean;
+  // 0 (défaut) : la première réponse est définitive
+  maxAnswerChanges?: number;
+  revealSeconds?: number;
+  // « fr », « en », « es »... ; remplace la langue choisie à la connexion
+  locale?: string;
+}
+
+export interface JoinLobbyPayload {
+  eventId: number;
 }
 
 export interface SubmitAnswerPayload {
   questionId: number;
-  answer: number;
+  // Numéro de choix, liste de numéros (choix multiples), nombre ou texte
+  answer: AnswerValue;
+}
+
+export interface QuizJoinedResponse {
+  roomId: string;
+  // Partie rejointe en cours : le joueur la suit en spectateur
+  isWatching: boolean;
+}
+
+export interface QuizSessionResponse {
+  roomId: string;
+  resumeToken: string;
+  reconnectGraceSeconds: number;
+  scoringMode: ScoringMode;
+  gameMode: GameMode;
+  lives: number;
+}
+
+export interface SessionResumedResponse {
+  roomId: string;
+  score: number;
+  answers: QuizAnswer[];
+  // Réponse en attente, dans l'ordre d'affichage du joueur
+  pendingAnswer: { questionId: number; answer: AnswerValue } | null;
+  isWatching: boolean;
+  timeLeft: number;
+  // Partie en cours de reprise après un arrêt : secondes avant la prochaine question
+  resumesIn: number | null;
 }
 
 export interface PlayerStats {
@@ -15,28 +169,142 @@ export interface PlayerStats {
   totalPlayers: number;
 }
 
+export interface TimerUpdate {
+  timeLeft: number;
+}
+
+export interface AnswerQueuedResponse {
+  questionId: number;
+  answer: AnswerValue;
+  timeLeft: number;
+  changesLeft: number;
+}
+
 export interface QuizQuestionResponse {
-  question: {
-    id: number;
-    theme: string;
-    questionText: string;
-    response1: string;
-    response2: string;
-    response3: string;
-    response4: string;
-  };
+  roomId: string;
+  question: PublicQuestion;
   questionNumber: number;
   totalQuestions: number;
-  previousAnswer: any;
+  previousAnswer: QuizAnswer | null;
   isWatching: boolean;
+  livesLeft: number | null;
   timeLeft: number;
 }
 
+export interface RevealedChoice {
+  choice: string;
+  count: number;
+  // Part des joueurs ayant répondu, en pourcentage entier
+  percentage: number;
+  correct: boolean;
+}
+
+/** Correction d'une question, propre à chaque joueur (ordre et langue). */
+export interface AnswerRevealResponse {
+  roomId: string;
+  questionId: number;
+  questionNumber: number;
+  // Positions affichées pour les choix, valeur pour numérique et texte libre
+  correctAnswer: AnswerValue | null;
+  // Répartition des réponses dans l'ordre d'affichage ; null hors choix
+  distribution: RevealedChoice[] | null;
+  answered: number;
+  correctCount: number;
+  // Joueurs éliminés sur cette question
+  eliminated: number;
+  result: RevealedResult | null;
+  revealSeconds: number;
+}
+
+export interface RevealedResult
+  extends Pick<QuizAnswer, 'correct' | 'points' | 'wasPlaying'> {
+  answer: AnswerValue | null;
+  score: number;
+  livesLeft: number | null;
+  eliminated: boolean;
+}
+
 export interface QuizCompletedResponse {
+  roomId: string;
   score: number;
   totalQuestions: number;
-  answers: any[];
+  answers: QuizAnswer[];
   joinedAt: number;
-  winner?: string;
+  winner: PlayerSummary | null;
   isWinner: boolean;
-}
\ No newline at end of file
+}
+
+/** Événement programmé tel qu'annoncé aux joueurs ; dates au format ISO. */
+export interface EventAnnouncement {
+  id: number;
+  theme: string;
+  numberOfQuestions: number;
+  startDate: string;
+  minPlayers: number;
+}
+
+export interface LobbyOpenedResponse {
+  event: EventAnnouncement;
+}
+
+export interface LobbyJoinedResponse {
+  event: EventAnnouncement;
+  participants: number;
+}
+
+export interface LobbyUpdateResponse {
+  eventId: number;
+  participants: number;
+  minPlayers: number;
+}
+
+export interface LobbyClosedResponse {
+  eventId: number;
+  startDate: string;
+}
+
+export interface EventCountdownResponse {
+  eventId: number;
+  timeLeft: number;
+  participants: number;
+  minPlayers: number;
+}
+
+/** Motif codé, traduit dans la langue du client. */
+export interface LocalizedReason {
+  code: MessageCode;
+  reason: string;
+}
+
+export interface EventPostponedResponse extends LocalizedReason {
+  eventId: number;
+  startDate: string;
+  postponeCount: number;
+  maxPostpones: number;
+  required: number;
+  actual: number;
+}
+
+export interface EventCancelledResponse extends LocalizedReason {
+  eventId: number;
+  policy?: MinPlayersPolicy;
+  required: number;
+  actual: number;
+}
+
+export interface EventStartedResponse {
+  event: Pick<EventAnnouncement, 'id' | 'theme' | 'numberOfQuestions'>;
+}
+
+export interface AutoStartQuizResponse {
+  roomId: string;
+  theme: string;
+  limit: number;
+  timeLimit: number;
+  gameMode: GameMode;
+}
+
+export interface EventCompletedResponse {
+  eventId: number;
+  winner: PlayerSummary | null;
+}
@@ -0,0 +1,42 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('lit les champs entre guillemets et les guillemets doublés', () => {
+    expect(
+      parseCsv('theme,questionText\r\nhistoire,"Qui a dit ""Eurêka"", déjà ?"'),
+    ).toEqual([
+      { theme: 'histoire', questionText: 'Qui a dit "Eurêka", déjà ?' },
+    ]);
+  });
+
+  it('garde les retours à la ligne dans un champ entre guillemets', () => {
+    expect(parseCsv('a,b\n"ligne 1\nligne 2",x\r\ny,z\n')).toEqual([
+      { a: 'ligne 1\nligne 2', b: 'x' },
+      { a: 'y', b: 'z' },
+    ]);
+  });
+
+  it("ignore le BOM d'un export de tableur", () => {
+    const [row] = parseCsv('\uFEFFexternalId;theme\nq-1;histoire');
+    expect(Object.keys(row)).toEqual(['externalId', 'theme']);
+    expect(row.externalId).toBe('q-1');
+  });
+
+  it('choisit le point-virgule quand il domine la ligne d’en-tête', () => {
+    expect(parseCsv('a;b;c\n1,5;2;3')).toEqual([{ a: '1,5', b: '2', c: '3' }]);
+  });
+
+  it('ignore les lignes vides et complète les colonnes manquantes', () => {
+    expect(parseCsv('a,b\n\n1\n , \n')).toEqual([{ a: '1', b: '' }]);
+  });
+
+  it('relit ce que toCsv écrit', () => {
+    const csv = toCsv(
+      ['texte', 'nombre', 'vide'],
+      [['Virgule, "guillemets"\net ligne', 2, null]],
+    );
+    expect(parseCsv(csv)).toEqual([
+      { texte: 'Virgule, "guillemets"\net ligne', nombre: '2', vide: '' },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Lecture/écriture CSV minimale (RFC 4180) : séparateur virgule ou
+ * point-virgule, champs entre guillemets, guillemets doublés.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  // Les tableurs français exportent souvent avec des points-virgules
+  const separator =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ';'
+      : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...records] = rows.filter((r) =>
+    r.some((value) => value.trim() !== ''),
+  );
+  const columns = header.map((column) => column.trim());
+  return records.map((record) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, record[index] ?? '']),
+    ),
+  );
+}
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function toCsv(columns: string[], rows: CsvValue[][]): string {
+  const escape = (value: CsvValue) => {
+    const text = value == null ? '' : String(value);
+    return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns, ...rows]
+    .map((row) => row.map(escape).join(','))
+    .join('\r\n');
+}
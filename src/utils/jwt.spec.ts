@@ -0,0 +1,70 @@
+import { createHmac } from 'crypto';
+import { signJwt, verifyJwt } from './jwt';
+
+const SECRET = 'secret-de-test';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Jeton arbitraire signé avec le secret, pour fabriquer des en-têtes ou corps invalides
+const forge = (header: string, body: string, secret = SECRET) =>
+  `${header}.${body}.${createHmac('sha256', secret)
+    .update(`${header}.${body}`)
+    .digest('base64url')}`;
+
+describe('jwt', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('relit la charge utile d’un jeton signé', () => {
+    const token = signJwt({ sub: 7, role: 'admin' }, SECRET, 60);
+    const now = Date.now() / 1000;
+    expect(verifyJwt(token, SECRET)).toEqual({
+      sub: 7,
+      role: 'admin',
+      iat: now,
+      exp: now + 60,
+    });
+  });
+
+  it('refuse un jeton expiré', () => {
+    const token = signJwt({ sub: 7 }, SECRET, 60);
+    jest.advanceTimersByTime(59_000);
+    expect(verifyJwt(token, SECRET)).not.toBeNull();
+    jest.advanceTimersByTime(1_000);
+    expect(verifyJwt(token, SECRET)).toBeNull();
+  });
+
+  it('refuse un jeton modifié ou signé avec un autre secret', () => {
+    const token = signJwt({ sub: 7, role: 'viewer' }, SECRET, 60);
+    const [header, , signature] = token.split('.');
+    const tampered = encode({ sub: 7, role: 'admin', exp: 9e9 });
+    expect(verifyJwt(`${header}.${tampered}.${signature}`, SECRET)).toBeNull();
+    expect(verifyJwt(token, 'autre-secret')).toBeNull();
+  });
+
+  it('n’accepte que HS256, quel que soit l’en-tête reçu', () => {
+    const body = encode({ sub: 7, exp: Date.now() / 1000 + 60 });
+    expect(verifyJwt(`${encode({ alg: 'none' })}.${body}.`, SECRET)).toBeNull();
+    expect(
+      verifyJwt(forge(encode({ alg: 'HS512', typ: 'JWT' }), body), SECRET),
+    ).toBeNull();
+    expect(
+      verifyJwt(forge(encode({ alg: 'HS256', typ: 'JWT' }), body), SECRET),
+    ).not.toBeNull();
+  });
+
+  it('refuse les jetons mal formés', () => {
+    const header = encode({ alg: 'HS256', typ: 'JWT' });
+    expect(verifyJwt('', SECRET)).toBeNull();
+    expect(verifyJwt('a.b', SECRET)).toBeNull();
+    expect(verifyJwt(forge(header, 'pas-du-json'), SECRET)).toBeNull();
+    // Signature valide mais sans date d'expiration
+    expect(verifyJwt(forge(header, encode({ sub: 7 })), SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface JwtClaims {
+  iat: number;
+  exp: number;
+}
+
+const HEADER = encode({ alg: 'HS256', typ: 'JWT' });
+
+/**
+ * JWT signés en HS256 (RFC 7519). Seul cet algorithme est accepté à la
+ * vérification, quel que soit l'en-tête reçu.
+ */
+export function signJwt<T extends object>(
+  payload: T,
+  secret: string,
+  expiresInSeconds: number,
+): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const body = encode({ ...payload, iat, exp: iat + expiresInSeconds });
+  return `${HEADER}.${body}.${sign(`${HEADER}.${body}`, secret)}`;
+}
+
+/** Charge utile d'un jeton valide et non expiré, null sinon. */
+export function verifyJwt<T extends object>(
+  token: string,
+  secret: string,
+): (T & JwtClaims) | null {
+  const [header, body, signature] = token.split('.');
+  if (header !== HEADER || !body || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${body}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(body, 'base64url').toString('utf8'),
+    ) as T & JwtClaims;
+    if (typeof payload.exp !== 'number') return null;
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
@@ -0,0 +1,20 @@
+import { hashPassword, verifyPassword } from './password';
+
+describe('password', () => {
+  it('vérifie le mot de passe contre son empreinte salée', async () => {
+    const hash = await hashPassword('correct horse');
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    await expect(verifyPassword('correct horse', hash)).resolves.toBe(true);
+    await expect(verifyPassword('Correct horse', hash)).resolves.toBe(false);
+  });
+
+  it('sale chaque empreinte différemment', async () => {
+    expect(await hashPassword('secret')).not.toBe(await hashPassword('secret'));
+  });
+
+  it('refuse une empreinte d’un autre format', async () => {
+    await expect(verifyPassword('secret', '')).resolves.toBe(false);
+    await expect(verifyPassword('secret', 'bcrypt$aa$bb')).resolves.toBe(false);
+    await expect(verifyPassword('secret', 'scrypt$$')).resolves.toBe(false);
+  });
+});
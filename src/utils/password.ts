@@ -0,0 +1,32 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/** Empreinte au format « scrypt$<sel>$<clé> », sel et clé en hexadécimal. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  hash: string,
+): Promise<boolean> {
+  const [algorithm, salt, key] = hash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, 'hex'),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,40 @@
+import {
+  MIN_PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION,
+  supportedProtocolVersions,
+} from './protocol';
+
+describe('protocol', () => {
+  it('sert toutes les versions du minimum à la courante', () => {
+    const versions = supportedProtocolVersions();
+    expect(versions[0]).toBe(MIN_PROTOCOL_VERSION);
+    expect(versions[versions.length - 1]).toBe(PROTOCOL_VERSION);
+  });
+
+  it('accepte encore les clients sans version, traités en v1', () => {
+    expect(negotiateProtocolVersion(undefined)).toBe(1);
+    expect(negotiateProtocolVersion(null)).toBe(1);
+  });
+
+  it('retient la version annoncée si elle est servie', () => {
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION)).toBe(PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion(String(PROTOCOL_VERSION))).toBe(
+      PROTOCOL_VERSION,
+    );
+  });
+
+  it('retient la plus récente des versions servies de la liste', () => {
+    expect(
+      negotiateProtocolVersion([1, PROTOCOL_VERSION, PROTOCOL_VERSION + 1]),
+    ).toBe(PROTOCOL_VERSION);
+  });
+
+  it('refuse une version inconnue ou invalide', () => {
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION + 1)).toBeNull();
+    expect(negotiateProtocolVersion(0)).toBeNull();
+    expect(negotiateProtocolVersion(1.5)).toBeNull();
+    expect(negotiateProtocolVersion('v2')).toBeNull();
+    expect(negotiateProtocolVersion([])).toBeNull();
+  });
+});
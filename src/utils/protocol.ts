@@ -0,0 +1,42 @@
+/**
+ * Version du protocole WebSocket (catalogue dans types/websocket.interface.ts).
+ * Tout changement incompatible d'un événement ou d'un message l'incrémente.
+ */
+export const PROTOCOL_VERSION = 2;
+/**
+ * Plus ancienne version encore servie. La v1 (clients qui n'annoncent pas de
+ * version) reçoit les messages v2, qu'elle sait lire : elle ignore `welcome`
+ * et les accusés de réception, et ne lit plus les statistiques de joueurs que
+ * sur `playerStats`. Elle reste acceptée le temps de la migration des
+ * clients déployés, avant de passer ce minimum à 2.
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+// Version supposée des clients qui n'en annoncent aucune
+const LEGACY_PROTOCOL_VERSION = 1;
+
+export function supportedProtocolVersions(): number[] {
+  return Array.from(
+    { length: PROTOCOL_VERSION - MIN_PROTOCOL_VERSION + 1 },
+    (_, index) => MIN_PROTOCOL_VERSION + index,
+  );
+}
+
+/**
+ * Version retenue pour un client : la plus récente qu'il annonce parmi celles
+ * servies, null si aucune ne convient. Le client annonce une version ou la
+ * liste de celles qu'il comprend.
+ */
+export function negotiateProtocolVersion(requested: unknown): number | null {
+  const offered = (
+    Array.isArray(requested)
+      ? requested
+      : [requested ?? LEGACY_PROTOCOL_VERSION]
+  ).map(Number);
+  const accepted = offered.filter(
+    (version) =>
+      Number.isInteger(version) &&
+      version >= MIN_PROTOCOL_VERSION &&
+      version <= PROTOCOL_VERSION,
+  );
+  return accepted.length > 0 ? Math.max(...accepted) : null;
+}